@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// ArtyColors CLI - apply an exported template library to base colors without Figma
+// Uses the same color engine as the plugin, so palettes match what Apply produces
+
+const fs = require('fs');
+const path = require('path');
+const engine = require('../dist/color-engine.js');
+
+const USAGE = `Usage: artycolors <library.json> <color...> [options]
+
+Applies a template from an exported ArtyColors library to each color and
+prints the resulting palette. Colors can use any CSS syntax: #rgb, #rrggbbaa,
+rgb(), hsl(), oklch() or a color name (quote them in the shell).
+
+Options:
+  -t, --template <name|id>   Template to apply, required when the library has several
+  -a, --anchor <role>        Role the colors are for, Base by default (other roles solve Base through the rules)
+  -s, --space <space>        srgb or display-p3, the template's color space by default
+  -g, --gamut <method>       chroma (default) or estimate
+      --json                 Print JSON instead of text
+  -h, --help                 Show this help`;
+
+/**
+ * Parse command line arguments into positional values and options
+ */
+function parseArgs(argv) {
+  const options = { template: null, anchor: 'Base', space: null, gamut: 'chroma', json: false, help: false };
+  const positional = [];
+  const valueFlags = {
+    '-t': 'template', '--template': 'template',
+    '-a': 'anchor', '--anchor': 'anchor',
+    '-s': 'space', '--space': 'space',
+    '-g': 'gamut', '--gamut': 'gamut'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (valueFlags[arg]) {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      options[valueFlags[arg]] = argv[++i];
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { options, positional };
+}
+
+/**
+ * Read and validate a library file exactly like the plugin's import does
+ */
+function loadTemplates(file) {
+  let data;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error.message}`);
+  }
+
+  const { templates, errors } = engine.parseTemplateLibrary(data);
+  errors.forEach(error => console.error(`warning: ${error}`));
+  if (templates.length === 0) {
+    throw new Error(`${path.basename(file)} contains no valid templates`);
+  }
+  return templates;
+}
+
+/**
+ * Find the requested template by id or case-insensitive name
+ */
+function pickTemplate(templates, query) {
+  if (!query) {
+    if (templates.length === 1) return templates[0];
+    throw new Error(`The library has ${templates.length} templates, pick one with --template: ${templates.map(t => t.name).join(', ')}`);
+  }
+
+  const template = templates.find(t => t.id === query) || templates.find(t => t.name.toLowerCase() === query.toLowerCase());
+  if (!template) {
+    throw new Error(`No template named "${query}"`);
+  }
+  return template;
+}
+
+/**
+ * Compute one palette, the same way the plugin applies explicit color changes
+ */
+function computePalette(template, anchor, hex) {
+  const changes = engine.resolveColorChanges(template, { [anchor]: hex });
+  if (!changes) {
+    throw new Error(`Cannot derive a palette from ${anchor}: the template has no rule for it`);
+  }
+
+  const contrast = [];
+  const colors = engine.computeColorsWithChanges(template, changes, contrast);
+  return { input: hex, colors, contrast };
+}
+
+/**
+ * Roles in display order: Base first, the rest naturally sorted
+ */
+function orderedRoles(colors) {
+  return Object.keys(colors).sort((a, b) => a === 'Base' ? -1 : b === 'Base' ? 1 : engine.naturalSort(a, b));
+}
+
+function printText(template, palettes) {
+  for (const palette of palettes) {
+    console.log(`${template.name} on ${palette.input}`);
+    const roles = orderedRoles(palette.colors);
+    const labels = roles.map(role => template.colorNames[role] && template.colorNames[role] !== role ? `${template.colorNames[role]} (${role})` : role);
+    const width = Math.max(...labels.map(label => label.length));
+    roles.forEach((role, i) => console.log(`  ${labels[i].padEnd(width)}  ${palette.colors[role]}`));
+    for (const result of palette.contrast.filter(result => !result.passedAfter)) {
+      console.log(`  ! ${result.foreground} on ${result.background} fails ${result.method.toUpperCase()} ${result.target} (${result.after.toFixed(1)})`);
+    }
+    console.log('');
+  }
+}
+
+function printJson(template, palettes) {
+  const output = palettes.map(palette => ({
+    template: template.name,
+    input: palette.input,
+    colors: Object.fromEntries(orderedRoles(palette.colors).map(role => [role, palette.colors[role]])),
+    contrast: palette.contrast.map(({ foreground, background, method, target, after, passedAfter }) => ({ foreground, background, method, target, value: after, passed: passedAfter }))
+  }));
+  console.log(JSON.stringify(output, null, 2));
+}
+
+function main(argv) {
+  const { options, positional } = parseArgs(argv);
+  if (options.help || positional.length === 0) {
+    console.log(USAGE);
+    return options.help ? 0 : 1;
+  }
+
+  const [file, ...colorArgs] = positional;
+  if (colorArgs.length === 0) {
+    throw new Error('Give at least one color to apply the template to');
+  }
+  if (options.space && options.space !== 'srgb' && options.space !== 'display-p3') {
+    throw new Error('--space must be srgb or display-p3');
+  }
+  if (options.gamut !== 'chroma' && options.gamut !== 'estimate') {
+    throw new Error('--gamut must be chroma or estimate');
+  }
+
+  const template = pickTemplate(loadTemplates(file), options.template);
+  if (options.anchor !== 'Base' && !template.roles[options.anchor]) {
+    throw new Error(`Template "${template.name}" has no role ${options.anchor}`);
+  }
+
+  // Colors are read in the template's space, like the plugin reads them in the document's
+  engine.configureEngine({ space: options.space || template.colorSpace || 'srgb', gamutMapping: options.gamut });
+  const colors = colorArgs.map(value => {
+    const { hex, error } = engine.parseColor(value);
+    if (!hex) throw new Error(error);
+    return hex;
+  });
+  const palettes = colors.map(hex => computePalette(template, options.anchor, hex));
+
+  if (options.json) {
+    printJson(template, palettes);
+  } else {
+    printText(template, palettes);
+  }
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(`artycolors: ${error.message}`);
+  process.exitCode = 1;
+}
@@ -1,17 +1,9 @@
 "use strict";
-// ArtyColors - Figma Plugin for Color Relationship Management
-// Main thread code with access to Figma API and document
-// Message types for UI communication
-var MessageType;
-(function (MessageType) {
-    MessageType["ANALYZE_SELECTION"] = "analyze-selection";
-    MessageType["UPDATE_ROLE"] = "update-role";
-    MessageType["CREATE_TEMPLATE"] = "create-template";
-    MessageType["APPLY_TEMPLATE"] = "apply-template";
-    MessageType["BATCH_GENERATE"] = "batch-generate";
-    MessageType["UPDATE_VARIANTS"] = "update-variants";
-    MessageType["GET_TEMPLATES"] = "get-templates";
-})(MessageType || (MessageType = {}));
+// ArtyColors - Color Engine
+// Pure OKLCH color math shared by the plugin and the Node CLI, with no Figma dependency
+// Versioned file format for sharing template libraries
+const TEMPLATE_LIBRARY_FORMAT = 'artycolors-template-library';
+const TEMPLATE_LIBRARY_VERSION = 2;
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
@@ -47,14 +39,72 @@ function naturalSort(a, b) {
     }
     return 0;
 }
+function rgbToHex(color, alpha = 1) {
+    const toHex = (c) => Math.round(c * 255).toString(16).padStart(2, '0');
+    return withAlpha(`#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`, alpha);
+}
+function hexToRgb(hexColor) {
+    const hex = hexColor.replace('#', '');
+    return {
+        r: parseInt(hex.substr(0, 2), 16) / 255,
+        g: parseInt(hex.substr(2, 2), 16) / 255,
+        b: parseInt(hex.substr(4, 2), 16) / 255
+    };
+}
+/**
+ * Opacity stored in a hex color, 1 for 6-digit hex
+ */
+function hexAlpha(hex) {
+    return hex.length === 9 ? parseInt(hex.substr(7, 2), 16) / 255 : 1;
+}
+/**
+ * Whether a hex color states its own opacity
+ */
+function hasAlpha(hex) {
+    return hex.length === 9;
+}
+/**
+ * Replace the opacity of a hex color, dropping the alpha digits when fully opaque
+ */
+function withAlpha(hex, alpha) {
+    const a = Math.round(Math.max(0, Math.min(1, alpha)) * 255);
+    const opaque = hex.substr(0, 7);
+    return (a >= 255 ? opaque : opaque + a.toString(16).padStart(2, '0'));
+}
+function generateId() {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
 // =============================================================================
 // OKLCH COLOR CONVERSION UTILITIES
 // =============================================================================
+// Color space of the current document, detected on startup
+let workingSpace = 'srgb';
+/**
+ * Convert linear Display P3 to linear sRGB (may leave [0, 1] for wide-gamut colors)
+ */
+function linearP3ToLinearSrgb(rgb) {
+    return {
+        r: 1.2249401 * rgb.r - 0.2249404 * rgb.g,
+        g: -0.0420569 * rgb.r + 1.0420571 * rgb.g,
+        b: -0.0196376 * rgb.r - 0.0786361 * rgb.g + 1.0982735 * rgb.b
+    };
+}
+/**
+ * Convert linear sRGB to linear Display P3
+ */
+function linearSrgbToLinearP3(rgb) {
+    return {
+        r: 0.8224621 * rgb.r + 0.1775380 * rgb.g,
+        g: 0.0331941 * rgb.r + 0.9668058 * rgb.g,
+        b: 0.0170827 * rgb.r + 0.0723974 * rgb.g + 0.9105199 * rgb.b
+    };
+}
 /**
  * Convert hex color to OKLCH color space
- * Uses accurate sRGB -> Linear RGB -> OKLab -> OKLCH conversion
+ * Uses accurate RGB -> Linear RGB -> OKLab -> OKLCH conversion, reading the
+ * hex in the given space (Display P3 shares the sRGB transfer curve)
  */
-function hexToOKLCH(hex) {
+function hexToOKLCH(hex, space = workingSpace) {
     // Remove # if present
     hex = hex.replace('#', '');
     // Parse RGB values
@@ -63,9 +113,11 @@ function hexToOKLCH(hex) {
     const b = parseInt(hex.substr(4, 2), 16) / 255;
     // sRGB to Linear RGB
     const toLinear = (c) => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-    const lr = toLinear(r);
-    const lg = toLinear(g);
-    const lb = toLinear(b);
+    let linear = { r: toLinear(r), g: toLinear(g), b: toLinear(b) };
+    if (space === 'display-p3') {
+        linear = linearP3ToLinearSrgb(linear);
+    }
+    const { r: lr, g: lg, b: lb } = linear;
     // Linear RGB to OKLab
     const l = 0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb;
     const m = 0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb;
@@ -84,9 +136,9 @@ function hexToOKLCH(hex) {
     return { L: Math.max(0, Math.min(1, L)), C: Math.max(0, C), H };
 }
 /**
- * Convert OKLCH to hex color with gamut clamping
+ * Convert OKLCH to linear sRGB, channels may fall outside [0, 1] when out of gamut
  */
-function oklchToHex(oklch) {
+function oklchToLinearRgb(oklch) {
     const { L, C, H } = oklch;
     // OKLCH to OKLab
     const hRad = H * Math.PI / 180;
@@ -99,13 +151,28 @@ function oklchToHex(oklch) {
     const l = l_ * l_ * l_;
     const m = m_ * m_ * m_;
     const s = s_ * s_ * s_;
-    let lr = +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
-    let lg = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
-    let lb = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
+    return {
+        r: +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+    };
+}
+/**
+ * Convert OKLCH to linear RGB in the given space
+ */
+function oklchToLinear(oklch, space) {
+    const linear = oklchToLinearRgb(oklch);
+    return space === 'display-p3' ? linearSrgbToLinearP3(linear) : linear;
+}
+/**
+ * Convert OKLCH to hex color in the given space with gamut clamping
+ */
+function oklchToHex(oklch, space = workingSpace) {
+    const linear = oklchToLinear(oklch, space);
     // Gamut clamp in linear RGB
-    lr = Math.max(0, Math.min(1, lr));
-    lg = Math.max(0, Math.min(1, lg));
-    lb = Math.max(0, Math.min(1, lb));
+    const lr = Math.max(0, Math.min(1, linear.r));
+    const lg = Math.max(0, Math.min(1, linear.g));
+    const lb = Math.max(0, Math.min(1, linear.b));
     // Linear RGB to sRGB
     const fromLinear = (c) => c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
     const r = fromLinear(lr);
@@ -115,539 +182,3807 @@ function oklchToHex(oklch) {
     const toHex = (c) => Math.round(Math.max(0, Math.min(255, c * 255))).toString(16).padStart(2, '0');
     return `#${toHex(r)}${toHex(g)}${toHex(b_srgb)}`;
 }
+// Active gamut mapping method, loaded from settings on startup
+let gamutMapping = 'chroma';
+// Number of colors mapped into gamut since the last reset, reported after each operation
+let gamutMappedCount = 0;
+/**
+ * Bring a color into the gamut of a space, the working space by default, using the active mapping method
+ */
+function gamutClamp(oklch, space = workingSpace) {
+    const mapped = gamutMapping === 'estimate' ? gamutClampEstimate(oklch) : gamutMapChroma(oklch, space);
+    if (Math.abs(mapped.C - oklch.C) > 0.0005 || mapped.L !== oklch.L) {
+        gamutMappedCount++;
+    }
+    return mapped;
+}
 /**
- * Additional gamut clamping for edge cases
+ * Original clamp: caps chroma with a rough parabola over lightness
  */
-function gamutClamp(oklch) {
-    // Simple chroma clamping - can be enhanced with more sophisticated algorithms
+function gamutClampEstimate(oklch) {
     const maxChroma = oklch.L * (1 - oklch.L) * 0.4; // Rough estimate
     return Object.assign(Object.assign({}, oklch), { C: Math.min(oklch.C, maxChroma) });
 }
+/**
+ * Accurate mapping: keeps lightness and hue and binary searches the largest
+ * chroma that still fits inside the target gamut
+ */
+function gamutMapChroma(oklch, space = workingSpace) {
+    if (oklch.L >= 1)
+        return { L: 1, C: 0, H: oklch.H };
+    if (oklch.L <= 0)
+        return { L: 0, C: 0, H: oklch.H };
+    if (isInGamut(oklch, space))
+        return oklch;
+    let low = 0;
+    let high = oklch.C;
+    while (high - low > 0.0001) {
+        const mid = (low + high) / 2;
+        if (isInGamut(Object.assign(Object.assign({}, oklch), { C: mid }), space)) {
+            low = mid;
+        }
+        else {
+            high = mid;
+        }
+    }
+    return Object.assign(Object.assign({}, oklch), { C: low });
+}
+function isInGamut(oklch, space) {
+    const epsilon = 0.000001;
+    const { r, g, b } = oklchToLinear(oklch, space);
+    return [r, g, b].every(c => c >= -epsilon && c <= 1 + epsilon);
+}
+/**
+ * Start counting colors that need gamut mapping for a new operation
+ */
+function resetGamutReport() {
+    gamutMappedCount = 0;
+}
+/**
+ * Suffix for notifications telling how many colors were mapped into gamut
+ */
+function gamutReportNote() {
+    if (gamutMappedCount === 0)
+        return '';
+    return ` (${gamutMappedCount} ${gamutMappedCount === 1 ? 'color was' : 'colors were'} outside ${workingSpace === 'display-p3' ? 'Display P3' : 'sRGB'} and mapped into gamut)`;
+}
+/**
+ * Perceptual distance between two colors (ΔE OK, Euclidean distance in OKLab)
+ */
+function deltaEOK(a, b) {
+    const toLab = (c) => [c.L, c.C * Math.cos(c.H * Math.PI / 180), c.C * Math.sin(c.H * Math.PI / 180)];
+    const [L1, a1, b1] = toLab(a);
+    const [L2, a2, b2] = toLab(b);
+    return Math.sqrt((L1 - L2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+/**
+ * Hex tokens are always sRGB, so wide-gamut document colors are mapped down first
+ */
+function toSrgbHex(hex) {
+    if (workingSpace === 'srgb')
+        return hex;
+    return withAlpha(oklchToHex(gamutMapChroma(hexToOKLCH(hex), 'srgb'), 'srgb'), hexAlpha(hex));
+}
+/**
+ * Format a color as CSS oklch() with rounded channels, and its opacity when translucent
+ */
+function formatOklch(hex) {
+    const { L, C, H } = hexToOKLCH(hex);
+    const hue = C < 0.0001 ? 0 : H;
+    const alpha = hasAlpha(hex) ? ` / ${Math.round(hexAlpha(hex) * 1000) / 10}%` : '';
+    return `oklch(${(L * 100).toFixed(2)}% ${C.toFixed(4)} ${hue.toFixed(2)}${alpha})`;
+}
+// =============================================================================
+// CSS COLOR PARSING
+// =============================================================================
+// CSS named colors, https://www.w3.org/TR/css-color-4/#named-colors
+const NAMED_COLORS = {
+    aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+    beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+    blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+    chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+    cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+    darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+    darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+    darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+    deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+    firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+    ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+    greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+    indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+    lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+    lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+    lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+    lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+    magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+    mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+    mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+    navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+    orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+    paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+    pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+    red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+    sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+    skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+    springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+    tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+    whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32', transparent: '00000000'
+};
+const COLOR_EXAMPLES = '#3366cc, rgb(51 102 204), hsl(220 60% 50%) or oklch(0.53 0.15 262)';
+/**
+ * Read a color in any common CSS syntax: hex (#rgb, #rgba, #rrggbb, #rrggbbaa),
+ * rgb(), hsl(), oklch() or a named color. Hex, rgb(), hsl() and names are read as
+ * channel values of the given space, like Figma's color picker does, while oklch()
+ * is absolute and mapped into that space's gamut
+ */
+function parseColor(input, space = workingSpace) {
+    const fail = (error) => ({ hex: null, error });
+    const value = typeof input === 'string' ? input.trim().toLowerCase() : '';
+    if (!value)
+        return fail(`Enter a color like ${COLOR_EXAMPLES}`);
+    if (NAMED_COLORS[value])
+        return parseHexColor(NAMED_COLORS[value], input);
+    // Bare 6 and 8 digit hex is accepted, shorter forms are too easy to mistake for words
+    if (value.startsWith('#'))
+        return parseHexColor(value.slice(1), input);
+    if (/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(value))
+        return parseHexColor(value, input);
+    const call = /^([a-z-]+)\((.*)$/.exec(value);
+    if (!call)
+        return fail(`"${input}" is not a color, try ${COLOR_EXAMPLES}`);
+    const name = call[1];
+    if (!call[2].endsWith(')'))
+        return fail(`"${input}" is missing a closing parenthesis`);
+    const args = parseColorArguments(call[2].slice(0, -1));
+    if (typeof args === 'string')
+        return fail(`${args} in ${name}()`);
+    switch (name) {
+        case 'rgb':
+        case 'rgba':
+            return parseRgbFunction(args, name);
+        case 'hsl':
+        case 'hsla':
+            return parseHslFunction(args, name);
+        case 'oklch':
+            return parseOklchFunction(args, space);
+        case 'lab':
+        case 'lch':
+        case 'oklab':
+        case 'hwb':
+        case 'color':
+            return fail(`${name}() colors are not supported yet, use hex, rgb(), hsl() or oklch()`);
+        default:
+            return fail(`${name}() is not a CSS color function, try ${COLOR_EXAMPLES}`);
+    }
+}
+/**
+ * Expand and validate the digits of a hex color
+ */
+function parseHexColor(digits, input) {
+    if (!/^[0-9a-f]*$/.test(digits)) {
+        return { hex: null, error: `"${input}" has characters that are not hex digits (0-9, a-f)` };
+    }
+    if ([3, 4, 6, 8].indexOf(digits.length) === -1) {
+        return { hex: null, error: `"${input}" needs 3, 4, 6 or 8 hex digits, it has ${digits.length}` };
+    }
+    const full = digits.length <= 4 ? digits.split('').map(digit => digit + digit).join('') : digits;
+    const alpha = full.length === 8 ? parseInt(full.substr(6, 2), 16) / 255 : 1;
+    return { hex: withAlpha(`#${full.substr(0, 6)}`, alpha), error: null };
+}
+/**
+ * Split the inside of a color function into channels and an optional alpha,
+ * accepting both the modern `a b c / alpha` and the legacy comma syntax
+ * @returns The parsed arguments, or what is wrong with them
+ */
+function parseColorArguments(body) {
+    let parts;
+    if (body.indexOf(',') !== -1) {
+        if (body.indexOf('/') !== -1)
+            return 'Commas and "/" cannot be mixed';
+        parts = body.split(',').map(part => part.trim());
+    }
+    else {
+        const [channels, alpha, extra] = body.split('/');
+        if (extra !== undefined)
+            return 'Only one "/" is allowed';
+        parts = channels.trim().split(/\s+/).filter(Boolean);
+        if (alpha !== undefined) {
+            if (!alpha.trim())
+                return 'An alpha value is missing after "/"';
+            parts.push(alpha.trim());
+        }
+    }
+    const parsed = [];
+    for (const part of parts) {
+        if (part === 'none') {
+            parsed.push({ value: 0, unit: '' });
+            continue;
+        }
+        const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/.exec(part);
+        if (!match)
+            return part ? `"${part}" is not a number` : 'A value is missing';
+        parsed.push({ value: parseFloat(match[1]), unit: match[2] || '' });
+    }
+    if (parsed.length !== 3 && parsed.length !== 4) {
+        return `Expected 3 values and an optional alpha, got ${parsed.length}`;
+    }
+    return { channels: parsed.slice(0, 3), alpha: parsed[3] || null };
+}
+/**
+ * Read an alpha argument as a number or a percentage
+ * @returns The alpha in [0, 1], or an error message
+ */
+function colorArgumentAlpha(alpha) {
+    if (!alpha)
+        return 1;
+    if (alpha.unit !== '' && alpha.unit !== '%')
+        return 'Alpha must be a number or a percentage';
+    const value = alpha.unit === '%' ? alpha.value / 100 : alpha.value;
+    return value >= 0 && value <= 1 ? value : 'Alpha must be between 0 and 1 (or 0% and 100%)';
+}
+/**
+ * Read a hue argument in degrees, turning other angle units into degrees
+ */
+function colorArgumentHue(hue) {
+    const degrees = { '': 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+    if (!(hue.unit in degrees))
+        return 'Hue must be a number or an angle like 220deg';
+    const value = (hue.value * degrees[hue.unit]) % 360;
+    return value < 0 ? value + 360 : value;
+}
+function parseRgbFunction(args, name) {
+    const labels = ['Red', 'Green', 'Blue'];
+    const rgb = [];
+    for (let i = 0; i < 3; i++) {
+        const { value, unit } = args.channels[i];
+        if (unit !== '' && unit !== '%')
+            return { hex: null, error: `${labels[i]} in ${name}() must be a number or a percentage` };
+        const channel = unit === '%' ? value / 100 : value / 255;
+        if (channel < 0 || channel > 1) {
+            return { hex: null, error: `${labels[i]} in ${name}() must be between 0 and 255 (or 0% and 100%)` };
+        }
+        rgb.push(channel);
+    }
+    const alpha = colorArgumentAlpha(args.alpha);
+    if (typeof alpha === 'string')
+        return { hex: null, error: `${alpha} in ${name}()` };
+    return { hex: rgbToHex({ r: rgb[0], g: rgb[1], b: rgb[2] }, alpha), error: null };
+}
+function parseHslFunction(args, name) {
+    const hue = colorArgumentHue(args.channels[0]);
+    if (typeof hue === 'string')
+        return { hex: null, error: `${hue} in ${name}()` };
+    const percentages = [];
+    for (const [label, { value, unit }] of [['Saturation', args.channels[1]], ['Lightness', args.channels[2]]]) {
+        if (unit !== '' && unit !== '%')
+            return { hex: null, error: `${label} in ${name}() must be a percentage` };
+        if (value < 0 || value > 100)
+            return { hex: null, error: `${label} in ${name}() must be between 0% and 100%` };
+        percentages.push(value / 100);
+    }
+    const alpha = colorArgumentAlpha(args.alpha);
+    if (typeof alpha === 'string')
+        return { hex: null, error: `${alpha} in ${name}()` };
+    // https://www.w3.org/TR/css-color-4/#hsl-to-rgb
+    const [s, l] = percentages;
+    const channel = (n) => {
+        const k = (n + hue / 30) % 12;
+        return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return { hex: rgbToHex({ r: channel(0), g: channel(8), b: channel(4) }, alpha), error: null };
+}
+function parseOklchFunction(args, space) {
+    const [lightness, chroma] = args.channels;
+    if (lightness.unit !== '' && lightness.unit !== '%')
+        return { hex: null, error: 'Lightness in oklch() must be a number or a percentage' };
+    if (chroma.unit !== '' && chroma.unit !== '%')
+        return { hex: null, error: 'Chroma in oklch() must be a number or a percentage' };
+    const L = lightness.unit === '%' ? lightness.value / 100 : lightness.value;
+    const C = chroma.unit === '%' ? chroma.value / 100 * 0.4 : chroma.value;
+    if (L < 0 || L > 1)
+        return { hex: null, error: 'Lightness in oklch() must be between 0 and 1 (or 0% and 100%)' };
+    if (C < 0)
+        return { hex: null, error: 'Chroma in oklch() cannot be negative' };
+    const H = colorArgumentHue(args.channels[2]);
+    if (typeof H === 'string')
+        return { hex: null, error: `${H} in oklch()` };
+    const alpha = colorArgumentAlpha(args.alpha);
+    if (typeof alpha === 'string')
+        return { hex: null, error: `${alpha} in oklch()` };
+    return { hex: withAlpha(oklchToHex(gamutMapChroma({ L, C, H }, space), space), alpha), error: null };
+}
 // =============================================================================
 // RELATIVE COLOR RULE FUNCTIONS
 // =============================================================================
 /**
  * Compute relative rule between base color and role color
+ * @param modes - Channel modes to use instead of the defaults picked from the colors
+ * @param space - Space both hex colors are in
  */
-function computeRelativeRule(baseColor, roleColor) {
-    const baseOKLCH = hexToOKLCH(baseColor);
-    const roleOKLCH = hexToOKLCH(roleColor);
+function computeRelativeRule(baseColor, roleColor, modes = {}, space = workingSpace) {
+    const baseOKLCH = hexToOKLCH(baseColor, space);
+    const roleOKLCH = hexToOKLCH(roleColor, space);
+    const channels = Object.assign(Object.assign({}, defaultRuleChannels(baseOKLCH, roleOKLCH)), modes);
     // Lightness relationship
     const deltaL = roleOKLCH.L - baseOKLCH.L;
     const Lmode = deltaL >= 0 ? 'lighten' : 'darken';
-    const k = Math.abs(deltaL);
+    let k = Math.abs(deltaL);
+    if (channels.Lchannel === 'proportional') {
+        const room = Lmode === 'lighten' ? 1 - baseOKLCH.L : baseOKLCH.L;
+        k = room > 0.001 ? Math.min(1, k / room) : 0;
+    }
     // Chroma relationship
     const Cmul = baseOKLCH.C > 0.01 ? roleOKLCH.C / baseOKLCH.C : 1;
-    const Cabs = baseOKLCH.C <= 0.01 ? roleOKLCH.C : null;
+    const Cabs = channels.Cchannel === 'absolute' ? roleOKLCH.C : null;
     // Hue relationship
     let hDelta = roleOKLCH.H - baseOKLCH.H;
     if (hDelta > 180)
         hDelta -= 360;
     if (hDelta < -180)
         hDelta += 360;
-    return { Lmode, k, Cmul, Cabs, hDelta };
+    // Opacity relationship, a transparent base leaves nothing to scale
+    const baseAlpha = hexAlpha(baseColor);
+    const Amul = baseAlpha > 0 ? hexAlpha(roleColor) / baseAlpha : hexAlpha(roleColor);
+    return Object.assign(Object.assign({ Lmode,
+        k,
+        Cmul,
+        Cabs,
+        hDelta }, channels), { Labs: roleOKLCH.L, Cdelta: roleOKLCH.C - baseOKLCH.C, Habs: roleOKLCH.H, Amul });
+}
+/**
+ * Pick channel modes that keep a role's character on any base:
+ * near-black/white neutrals stay put, gray roles stay gray, tints stay tints
+ */
+function defaultRuleChannels(baseOKLCH, roleOKLCH) {
+    const roleIsGray = roleOKLCH.C <= 0.01;
+    const baseIsGray = baseOKLCH.C <= 0.01;
+    let Lchannel = 'additive';
+    const room = roleOKLCH.L >= baseOKLCH.L ? 1 - baseOKLCH.L : baseOKLCH.L;
+    if (roleIsGray && (roleOKLCH.L >= 0.98 || roleOKLCH.L <= 0.02)) {
+        Lchannel = 'absolute';
+    }
+    else if (room > 0.001 && Math.abs(roleOKLCH.L - baseOKLCH.L) / room >= 0.6) {
+        Lchannel = 'proportional';
+    }
+    return {
+        Lchannel,
+        Cchannel: roleIsGray || baseIsGray ? 'absolute' : 'proportional',
+        Hchannel: baseIsGray && !roleIsGray ? 'locked' : 'relative'
+    };
+}
+/**
+ * Channel modes of a rule, filling in what rules saved before modes existed did
+ */
+function ruleChannels(rule) {
+    return {
+        Lchannel: rule.Lchannel || 'additive',
+        Cchannel: rule.Cchannel || (rule.Cabs !== null ? 'absolute' : 'proportional'),
+        Hchannel: rule.Hchannel || 'relative'
+    };
 }
 /**
- * Apply relative rule to a new base color
+ * Apply relative rule to a new base color, reading and writing hex in the given space
  */
-function applyRule(rule, newBaseColor) {
-    const baseOKLCH = hexToOKLCH(newBaseColor);
+function applyRule(rule, newBaseColor, space = workingSpace) {
+    var _a, _b, _c, _d, _e;
+    const baseOKLCH = hexToOKLCH(newBaseColor, space);
+    const channels = ruleChannels(rule);
     // Apply lightness transformation
-    let newL = baseOKLCH.L;
-    if (rule.Lmode === 'lighten') {
+    let newL;
+    if (channels.Lchannel === 'absolute') {
+        newL = (_a = rule.Labs) !== null && _a !== void 0 ? _a : baseOKLCH.L;
+    }
+    else if (channels.Lchannel === 'proportional') {
+        newL = rule.Lmode === 'lighten'
+            ? baseOKLCH.L + rule.k * (1 - baseOKLCH.L)
+            : baseOKLCH.L * (1 - rule.k);
+    }
+    else if (rule.Lmode === 'lighten') {
         newL = Math.min(1, baseOKLCH.L + rule.k);
     }
     else {
         newL = Math.max(0, baseOKLCH.L - rule.k);
     }
     // Apply chroma transformation
-    let newC = rule.Cabs !== null ? rule.Cabs : baseOKLCH.C * rule.Cmul;
+    let newC;
+    if (channels.Cchannel === 'absolute') {
+        newC = (_b = rule.Cabs) !== null && _b !== void 0 ? _b : 0;
+    }
+    else if (channels.Cchannel === 'additive') {
+        newC = Math.max(0, baseOKLCH.C + ((_c = rule.Cdelta) !== null && _c !== void 0 ? _c : 0));
+    }
+    else {
+        newC = baseOKLCH.C * rule.Cmul;
+    }
     // Apply hue transformation
-    let newH = (baseOKLCH.H + rule.hDelta) % 360;
+    let newH = channels.Hchannel === 'locked' ? ((_d = rule.Habs) !== null && _d !== void 0 ? _d : baseOKLCH.H) : (baseOKLCH.H + rule.hDelta) % 360;
     if (newH < 0)
         newH += 360;
-    const newOKLCH = gamutClamp({ L: newL, C: newC, H: newH });
-    return oklchToHex(newOKLCH);
+    const newOKLCH = gamutClamp({ L: Math.max(0, Math.min(1, newL)), C: newC, H: newH }, space);
+    return withAlpha(oklchToHex(newOKLCH, space), hexAlpha(newBaseColor) * ((_e = rule.Amul) !== null && _e !== void 0 ? _e : 1));
+}
+/**
+ * Hold the channels a rule locks when colors are moved by an anchor shift instead of the rule
+ */
+function lockRuleChannels(rule, oklch) {
+    var _a, _b, _c;
+    const channels = ruleChannels(rule);
+    return {
+        L: channels.Lchannel === 'absolute' ? ((_a = rule.Labs) !== null && _a !== void 0 ? _a : oklch.L) : oklch.L,
+        C: channels.Cchannel === 'absolute' ? ((_b = rule.Cabs) !== null && _b !== void 0 ? _b : 0) : oklch.C,
+        H: channels.Hchannel === 'locked' ? ((_c = rule.Habs) !== null && _c !== void 0 ? _c : oklch.H) : oklch.H
+    };
+}
+/**
+ * Invert a relative rule: find the base color that produces a given role color.
+ * Parts of the base the rule ignores (locked channels, lightness lost to clamping,
+ * hue of a gray) are taken from the fallback base
+ */
+function invertRule(rule, roleColor, fallbackBase) {
+    var _a;
+    const roleOKLCH = hexToOKLCH(roleColor);
+    const channels = ruleChannels(rule);
+    const epsilon = 0.0005;
+    let L;
+    if (channels.Lchannel === 'absolute' || (channels.Lchannel === 'proportional' && rule.k >= 1)) {
+        L = fallbackBase.L;
+    }
+    else if (channels.Lchannel === 'proportional') {
+        L = rule.Lmode === 'lighten' ? (roleOKLCH.L - rule.k) / (1 - rule.k) : roleOKLCH.L / (1 - rule.k);
+    }
+    else if (rule.Lmode === 'lighten') {
+        // A role clamped at white or black could come from a whole range of bases
+        L = roleOKLCH.L >= 1 - epsilon ? Math.max(fallbackBase.L, 1 - rule.k) : roleOKLCH.L - rule.k;
+    }
+    else {
+        L = roleOKLCH.L <= epsilon ? Math.min(fallbackBase.L, rule.k) : roleOKLCH.L + rule.k;
+    }
+    let C;
+    if (channels.Cchannel === 'absolute' || (channels.Cchannel === 'proportional' && rule.Cmul < 0.0001)) {
+        C = fallbackBase.C;
+    }
+    else if (channels.Cchannel === 'additive') {
+        C = roleOKLCH.C - ((_a = rule.Cdelta) !== null && _a !== void 0 ? _a : 0);
+    }
+    else {
+        C = roleOKLCH.C / rule.Cmul;
+    }
+    let H = channels.Hchannel === 'locked' || roleOKLCH.C < epsilon ? fallbackBase.H : (roleOKLCH.H - rule.hDelta) % 360;
+    if (H < 0)
+        H += 360;
+    return { L: Math.max(0, Math.min(1, L)), C: Math.max(0, C), H };
+}
+/**
+ * Solve the Base color that makes a role come out as the given color
+ * @returns null when the role has no rule in the template
+ */
+function solveBaseColor(template, role, color) {
+    var _a;
+    if (role === 'Base')
+        return color;
+    const rule = template.roles[role];
+    if (!rule)
+        return null;
+    const originalBase = template.originalColors['Base'];
+    const fallbackBase = originalBase ? hexToOKLCH(originalBase, template.colorSpace || 'srgb') : { L: 0.5, C: 0, H: 0 };
+    const Amul = (_a = rule.Amul) !== null && _a !== void 0 ? _a : 1;
+    const alpha = Amul > 0 ? hexAlpha(color) / Amul : (originalBase ? hexAlpha(originalBase) : 1);
+    return withAlpha(oklchToHex(gamutClamp(invertRule(rule, color, fallbackBase))), alpha);
+}
+/**
+ * Make sure color changes carry a Base color, solving it from a driver role when needed
+ * @param driverRole - Role to solve from, the first changed role with a rule when missing
+ * @returns null when no Base could be found or solved
+ */
+function resolveColorChanges(template, colorChanges, driverRole) {
+    if (colorChanges['Base'])
+        return colorChanges;
+    const driver = driverRole && colorChanges[driverRole] ? driverRole : Object.keys(colorChanges).find(role => template.roles[role]);
+    const baseColor = driver ? solveBaseColor(template, driver, colorChanges[driver]) : null;
+    return baseColor ? Object.assign(Object.assign({}, colorChanges), { Base: baseColor }) : null;
 }
 // =============================================================================
-// ROLE MANAGEMENT FUNCTIONS
+// CONTRAST GUARDRAILS
 // =============================================================================
 /**
- * Mark a node with a color role
+ * WCAG 2 relative luminance, computed through OKLab so Display P3 hex values are read correctly
  */
-function markRole(node, role) {
-    node.setPluginData('colorRole', role);
+function relativeLuminance(hex) {
+    const { r, g, b } = oklchToLinearRgb(hexToOKLCH(hex));
+    return Math.max(0, 0.2126 * r + 0.7152 * g + 0.0722 * b);
 }
 /**
- * Get the color role of a node
+ * WCAG 2 contrast ratio between two colors, from 1 to 21
  */
-function getRole(node) {
-    const role = node.getPluginData('colorRole');
-    return role || null;
+function wcagContrast(foreground, background) {
+    const a = relativeLuminance(foreground);
+    const b = relativeLuminance(background);
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
 }
 /**
- * Infer role from layer name patterns like [Base], [A], [B], [C]
+ * APCA lightness contrast (Lc, APCA-W3 0.0.98G), positive for dark text on light backgrounds
  */
-function inferRoleFromName(name) {
-    const patterns = [
-        { regex: /\[Base\]/i, role: 'Base' },
-        { regex: /\[Color1\]/i, role: 'Color1' },
-        { regex: /\[Color2\]/i, role: 'Color2' },
-        { regex: /\[Color3\]/i, role: 'Color3' },
-        { regex: /\[Color4\]/i, role: 'Color4' },
-        { regex: /\[Color5\]/i, role: 'Color5' },
-        // Legacy support
-        { regex: /\[A\]/i, role: 'Color1' },
-        { regex: /\[B\]/i, role: 'Color2' },
-        { regex: /\[C\]/i, role: 'Color3' }
-    ];
-    for (const pattern of patterns) {
-        if (pattern.regex.test(name)) {
-            return pattern.role;
-        }
+function apcaContrast(foreground, background) {
+    const screenLuminance = (hex) => {
+        const { r, g, b } = hexToRgb(toSrgbHex(hex));
+        const Y = 0.2126729 * Math.pow(r, 2.4) + 0.7151522 * Math.pow(g, 2.4) + 0.0721750 * Math.pow(b, 2.4);
+        // Soft clamp near black
+        return Y > 0.022 ? Y : Y + Math.pow(0.022 - Y, 1.414);
+    };
+    const text = screenLuminance(foreground);
+    const bg = screenLuminance(background);
+    if (Math.abs(bg - text) < 0.0005)
+        return 0;
+    if (bg > text) {
+        const sapc = (Math.pow(bg, 0.56) - Math.pow(text, 0.57)) * 1.14;
+        return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
     }
-    return null;
+    const sapc = (Math.pow(bg, 0.65) - Math.pow(text, 0.62)) * 1.14;
+    return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
 }
 /**
- * Index all nodes by their color roles within a root node
+ * Contrast as seen on screen: a translucent foreground is blended over the background first
  */
-function indexRoles(root) {
-    const roleIndex = {};
-    const traverse = (node) => {
-        // Check explicit role assignment first
-        let role = getRole(node);
-        // Fallback to name-based detection
-        if (!role) {
-            role = inferRoleFromName(node.name);
-            if (role) {
-                markRole(node, role); // Save inferred role
-            }
-        }
-        // Add to index if role found and node has fills
-        if (role && 'fills' in node) {
-            if (!roleIndex[role]) {
-                roleIndex[role] = [];
-            }
-            roleIndex[role].push(node);
-        }
-        // Recursively traverse children
-        if ('children' in node) {
-            for (const child of node.children) {
-                traverse(child);
-            }
-        }
-    };
-    traverse(root);
-    return roleIndex;
+function measureContrast(method, foreground, background) {
+    const visible = hasAlpha(foreground) ? compositeOver(foreground, background) : foreground;
+    const opaqueBackground = withAlpha(background, 1);
+    return method === 'apca' ? apcaContrast(visible, opaqueBackground) : wcagContrast(visible, opaqueBackground);
 }
-// =============================================================================
-// COLOR ANALYSIS FUNCTIONS
-// =============================================================================
 /**
- * Analyze a node and extract all colors with smart role assignment
+ * Blend a translucent color over an opaque one, in encoded RGB like Figma's normal blend mode
  */
-function analyzeNodeColors(root) {
-    const layerColors = [];
-    const colorFrequency = new Map();
-    const allColorNodes = [];
-    // First pass: collect all colors and count frequency
-    const traverse = (node) => {
-        if ('fills' in node && node.fills && Array.isArray(node.fills) && node.fills.length > 0) {
-            const fill = node.fills[0];
-            if (fill && fill.type === 'SOLID') {
-                const hexColor = rgbToHex(fill.color);
-                allColorNodes.push({ node, color: hexColor });
-                colorFrequency.set(hexColor, (colorFrequency.get(hexColor) || 0) + 1);
+function compositeOver(foreground, background) {
+    const alpha = hexAlpha(foreground);
+    const top = hexToRgb(foreground);
+    const bottom = hexToRgb(background);
+    const mix = (a, b) => a * alpha + b * (1 - alpha);
+    return rgbToHex({ r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b) });
+}
+function meetsContrast(method, value, target) {
+    return method === 'apca' ? Math.abs(value) >= target : value >= target;
+}
+/**
+ * Find the closest lightness for the foreground that meets the pair's target,
+ * keeping its chroma and hue
+ * @returns null when no lightness reaches the target
+ */
+function solveContrastLightness(pair, foreground, background) {
+    const start = hexToOKLCH(foreground);
+    // Walk outwards in both directions and keep the smallest lightness change that passes
+    for (let delta = 0.005; delta <= 1; delta += 0.005) {
+        for (const L of [start.L + delta, start.L - delta]) {
+            if (L < 0 || L > 1)
+                continue;
+            const candidate = withAlpha(oklchToHex(gamutClamp(Object.assign(Object.assign({}, start), { L }))), hexAlpha(foreground));
+            if (meetsContrast(pair.method, measureContrast(pair.method, candidate, background), pair.target)) {
+                return candidate;
             }
         }
-        if ('children' in node) {
-            for (const child of node.children) {
-                traverse(child);
+    }
+    return null;
+}
+/**
+ * Check every contrast pair of a template, moving foreground colors that fail
+ * when the pair allows it
+ * @param colors - Final role colors, updated in place
+ * @param lockedRoles - Roles the user set explicitly, reported but never moved
+ * @param report - Receives one result per pair when given
+ */
+function enforceContrast(template, colors, lockedRoles, report) {
+    for (const pair of template.contrastPairs || []) {
+        const foreground = colors[pair.foreground];
+        const background = colors[pair.background];
+        if (!foreground || !background)
+            continue;
+        const before = measureContrast(pair.method, foreground, background);
+        const passedBefore = meetsContrast(pair.method, before, pair.target);
+        let adjustedColor;
+        if (!passedBefore && pair.adjust && lockedRoles.indexOf(pair.foreground) === -1) {
+            adjustedColor = solveContrastLightness(pair, foreground, background) || undefined;
+            if (adjustedColor) {
+                colors[pair.foreground] = adjustedColor;
             }
         }
-    };
-    traverse(root);
-    if (allColorNodes.length === 0) {
-        return [];
-    }
-    // Sort colors by layer name (alphabetical)
-    const sortedColors = allColorNodes
-        .reduce((acc, { node, color }) => {
-        if (!acc.find(item => item.color === color)) {
-            const oklch = hexToOKLCH(color);
-            acc.push({
-                node,
-                color,
-                frequency: colorFrequency.get(color) || 1,
-                lightness: oklch.L
-            });
+        const after = measureContrast(pair.method, colors[pair.foreground], background);
+        if (report) {
+            report.push(Object.assign(Object.assign({}, pair), { before,
+                after,
+                passedBefore, passedAfter: meetsContrast(pair.method, after, pair.target), adjustedColor }));
         }
-        return acc;
-    }, [])
-        .sort((a, b) => {
-        // Natural sort by layer name (handles numbers correctly)
-        return naturalSort(a.node.name, b.node.name);
-    });
-    // Smart role assignment - dynamic number of colors
-    for (let i = 0; i < sortedColors.length; i++) {
-        const { node, color } = sortedColors[i];
-        // First color is Base, others are Color1, Color2, Color3, etc.
-        const role = i === 0 ? 'Base' : `Color${i}`;
-        // Auto-assign role to node
-        markRole(node, role);
-        layerColors.push({
-            nodeId: node.id,
-            layerName: node.name,
-            color,
-            role
-        });
     }
-    return layerColors;
 }
-// =============================================================================
-// MAIN PLUGIN LOGIC
-// =============================================================================
-// Show UI for all editor types
-figma.showUI(__html__, { width: 320, height: 480 });
-// Handle messages from UI
-figma.ui.onmessage = async (msg) => {
-    try {
-        switch (msg.type) {
-            case MessageType.ANALYZE_SELECTION:
-                handleAnalyzeSelection();
-                break;
-            case MessageType.UPDATE_ROLE:
-                await handleUpdateRole(msg.nodeId, msg.role);
-                break;
-            case MessageType.CREATE_TEMPLATE:
-                await handleCreateTemplate(msg.templateName, msg.layerColors);
-                break;
-            case MessageType.APPLY_TEMPLATE:
-                await handleApplyTemplate(msg.templateId, msg.colorChanges);
-                break;
-            case MessageType.BATCH_GENERATE:
-                await handleBatchGenerate(msg.templateId, msg.variants);
-                break;
-            case MessageType.GET_TEMPLATES:
-                await handleGetTemplates();
-                break;
-            default:
-                figma.notify('Unknown message type', { error: true });
-        }
+/**
+ * Validate a contrast pair, optionally against the roles of a template
+ * @returns An error message, or null when the pair is acceptable
+ */
+function validateContrastPair(pair, template) {
+    if (!pair || typeof pair !== 'object')
+        return 'Contrast pair is not an object';
+    if (typeof pair.foreground !== 'string' || typeof pair.background !== 'string') {
+        return 'Contrast pair needs a foreground and a background role';
     }
-    catch (error) {
-        figma.notify(`Error: ${error.message}`, { error: true });
-        console.error('ArtyColors Error:', error);
+    if (pair.foreground === pair.background)
+        return 'Contrast pair needs two different roles';
+    if (template && (!template.originalColors[pair.foreground] || !template.originalColors[pair.background])) {
+        return `Contrast pair uses a role that is not in "${template.name}"`;
     }
-};
+    if (pair.method !== 'wcag' && pair.method !== 'apca')
+        return `Unknown contrast method "${String(pair.method)}"`;
+    if (typeof pair.target !== 'number' || !isFinite(pair.target))
+        return 'Contrast target must be a number';
+    if (pair.method === 'wcag' && (pair.target < 1 || pair.target > 21))
+        return 'WCAG contrast target must be between 1 and 21';
+    if (pair.method === 'apca' && (pair.target < 0 || pair.target > 108))
+        return 'APCA Lc target must be between 0 and 108';
+    if (typeof pair.adjust !== 'boolean')
+        return 'Contrast pair adjust flag must be true or false';
+    return null;
+}
 // =============================================================================
-// MESSAGE HANDLERS
+// PALETTE COMPUTATION
 // =============================================================================
-function handleAnalyzeSelection() {
-    const selection = figma.currentPage.selection;
-    if (selection.length === 0) {
-        figma.notify('Please select a component or group to analyze');
-        return;
+/**
+ * Calculate every role color when one anchor role is moved to a new color
+ * @returns null when the template has no original color for the anchor role
+ */
+function computeColorsWithAnchor(template, anchorRole, newAnchorColor, report) {
+    const originalAnchorColor = template.originalColors[anchorRole];
+    if (!originalAnchorColor) {
+        return null;
     }
-    const root = selection[0];
-    const layerColors = analyzeNodeColors(root);
+    // Calculate color shift in OKLCH space
+    // Original colors may come from a file with a different color profile
+    const templateSpace = template.colorSpace || 'srgb';
+    const originalOKLCH = hexToOKLCH(originalAnchorColor, templateSpace);
+    const newOKLCH = hexToOKLCH(newAnchorColor);
+    const shift = {
+        L: newOKLCH.L - originalOKLCH.L,
+        C: newOKLCH.C - originalOKLCH.C,
+        H: newOKLCH.H - originalOKLCH.H
+    };
+    // Handle hue wraparound
+    if (shift.H > 180)
+        shift.H -= 360;
+    if (shift.H < -180)
+        shift.H += 360;
+    // Opacity scales with the anchor's, so overlays keep their strength relative to it
+    const originalAlpha = hexAlpha(originalAnchorColor);
+    const alphaScale = originalAlpha > 0 ? hexAlpha(newAnchorColor) / originalAlpha : 1;
+    // Apply shift to all colors in the template
+    const finalColors = {};
+    Object.entries(template.originalColors).forEach(([role, originalColor]) => {
+        if (role === anchorRole) {
+            // Use the exact anchor color
+            finalColors[role] = newAnchorColor;
+        }
+        else {
+            // Apply proportional shift to this color
+            const originalRoleOKLCH = hexToOKLCH(originalColor, templateSpace);
+            let shiftedOKLCH = {
+                L: Math.max(0, Math.min(1, originalRoleOKLCH.L + shift.L)),
+                C: Math.max(0, originalRoleOKLCH.C + shift.C),
+                H: (originalRoleOKLCH.H + shift.H + 360) % 360
+            };
+            // Locked channels keep the template's value instead of shifting
+            const rule = template.roles[role];
+            if (rule) {
+                shiftedOKLCH = lockRuleChannels(rule, shiftedOKLCH);
+            }
+            finalColors[role] = withAlpha(oklchToHex(gamutClamp(shiftedOKLCH)), hexAlpha(originalColor) * alphaScale);
+        }
+    });
+    enforceContrast(template, finalColors, [anchorRole], report);
+    return finalColors;
+}
+/**
+ * Calculate every role color from explicit user changes, deriving the rest from Base
+ */
+function computeColorsWithChanges(template, colorChanges, report) {
+    const baseColor = colorChanges['Base'];
+    // Calculate all colors based on user changes - start with all roles from template
+    const finalColors = {};
+    // Initialize with base color
+    finalColors['Base'] = baseColor;
+    // Handle direct color assignments (user picked specific colors)
+    Object.entries(colorChanges).forEach(([role, color]) => {
+        finalColors[role] = color;
+    });
+    // Calculate derived colors for roles not explicitly set
+    Object.entries(template.roles).forEach(([roleName, rule]) => {
+        if (rule && !(roleName in colorChanges)) {
+            // User didn't specify this color, so derive it from base
+            finalColors[roleName] = applyRule(rule, baseColor);
+        }
+    });
+    // Colors the user picked explicitly are reported but never moved
+    enforceContrast(template, finalColors, Object.keys(colorChanges), report);
+    return finalColors;
+}
+/**
+ * Colors a template derives for a variant from the color it was generated from
+ * @returns null when a shifted variant's anchor role is not in the template
+ */
+function computeVariantColors(template, source) {
+    return source.shifted
+        ? computeColorsWithAnchor(template, source.role, source.color)
+        : computeColorsWithChanges(template, Object.assign(Object.assign({}, source.colorChanges), { Base: source.color }));
+}
+/**
+ * Change one role of a template so the variant derived from source gets the observed color.
+ * Rule-driven variants fit the role's rule to the observed color; shifted variants move the
+ * role's original color by the difference. Channel modes are kept either way
+ * @returns The role's new rule and original color, or null when the role is the one the
+ * variant was derived from or one set explicitly on it, and no template change can move it
+ */
+function fitRoleToColor(template, role, observed, source) {
+    const rule = template.roles[role];
+    const baseOriginal = template.originalColors['Base'];
+    const expected = computeVariantColors(template, source);
+    if (role === source.role || (source.colorChanges && role in source.colorChanges) || !rule || !baseOriginal || !expected || !expected[role])
+        return null;
+    // Original colors stay in the space the template was captured in
+    const templateSpace = template.colorSpace || 'srgb';
+    if (!source.shifted) {
+        const fitted = computeRelativeRule(expected['Base'], observed, ruleChannels(rule));
+        return { rule: fitted, originalColor: applyRule(fitted, baseOriginal, templateSpace) };
+    }
+    const original = hexToOKLCH(template.originalColors[role], templateSpace);
+    const actual = hexToOKLCH(observed);
+    const derived = hexToOKLCH(expected[role]);
+    let hueShift = actual.H - derived.H;
+    if (hueShift > 180)
+        hueShift -= 360;
+    if (hueShift < -180)
+        hueShift += 360;
+    const moved = gamutClamp({
+        L: Math.max(0, Math.min(1, original.L + actual.L - derived.L)),
+        C: Math.max(0, original.C + actual.C - derived.C),
+        H: (original.H + hueShift + 360) % 360
+    }, templateSpace);
+    const derivedAlpha = hexAlpha(expected[role]);
+    const alpha = derivedAlpha > 0 ? hexAlpha(template.originalColors[role]) * hexAlpha(observed) / derivedAlpha : hexAlpha(observed);
+    const originalColor = withAlpha(oklchToHex(moved, templateSpace), Math.min(1, alpha));
+    return { rule: computeRelativeRule(baseOriginal, originalColor, ruleChannels(rule), templateSpace), originalColor };
+}
+/**
+ * Recompute the relative rules of every non-base role from the original colors
+ * @param space - Space the original colors were captured in
+ */
+function computeTemplateRoles(originalColors, space = workingSpace) {
+    const roles = {};
+    const baseColor = originalColors['Base'];
+    if (!baseColor)
+        return roles;
+    for (const [role, color] of Object.entries(originalColors)) {
+        if (role !== 'Base') {
+            roles[role] = computeRelativeRule(baseColor, color, {}, space);
+        }
+    }
+    return roles;
+}
+// =============================================================================
+// RULE VALIDATION
+// =============================================================================
+/**
+ * Validate a single edited rule field
+ * @returns An error message, or null when the value is acceptable
+ */
+function validateRuleField(field, value) {
+    const isNumber = typeof value === 'number' && isFinite(value);
+    switch (field) {
+        case 'Lmode':
+            return value === 'lighten' || value === 'darken' ? null : 'Lightness mode must be "lighten" or "darken"';
+        case 'k':
+            return isNumber && value >= 0 && value <= 1 ? null : 'Lightness factor k must be between 0 and 1';
+        case 'Cmul':
+            return isNumber && value >= 0 ? null : 'Chroma multiplier must be a positive number';
+        case 'Cabs':
+            return value === null || (isNumber && value >= 0 && value <= 0.4) ? null : 'Absolute chroma must be empty or between 0 and 0.4';
+        case 'hDelta':
+            return isNumber && value >= -180 && value <= 180 ? null : 'Hue delta must be between -180 and 180 degrees';
+        case 'Lchannel':
+            return value === 'additive' || value === 'proportional' || value === 'absolute' ? null : 'Lightness channel must be additive, proportional or absolute';
+        case 'Labs':
+            return isNumber && value >= 0 && value <= 1 ? null : 'Locked lightness must be between 0 and 1';
+        case 'Cchannel':
+            return value === 'proportional' || value === 'additive' || value === 'absolute' ? null : 'Chroma channel must be proportional, additive or absolute';
+        case 'Cdelta':
+            return isNumber && value >= -0.4 && value <= 0.4 ? null : 'Chroma delta must be between -0.4 and 0.4';
+        case 'Hchannel':
+            return value === 'relative' || value === 'locked' ? null : 'Hue channel must be relative or locked';
+        case 'Habs':
+            return isNumber && value >= 0 && value < 360 ? null : 'Locked hue must be between 0 and 360 degrees';
+        case 'Amul':
+            return isNumber && value >= 0 ? null : 'Opacity multiplier must be zero or a positive number';
+        default:
+            return `Unknown rule field "${field}"`;
+    }
+}
+// =============================================================================
+// TEMPLATE IMPORT / EXPORT
+// =============================================================================
+/**
+ * Upgrades applied to library files written by older versions, keyed by the
+ * version they upgrade from. Add an entry whenever the Template or RelativeRule
+ * shape changes and bump TEMPLATE_LIBRARY_VERSION.
+ */
+const TEMPLATE_LIBRARY_MIGRATIONS = {
+    // Version 2 added rule channel modes, the opacity multiplier, contrast pairs and the
+    // template's color space; version 1 files meant the behavior from before they existed
+    1: templates => templates.map(raw => {
+        if (!raw || typeof raw !== 'object')
+            return raw;
+        const template = raw;
+        const migrated = Object.assign({ colorSpace: 'srgb', contrastPairs: [] }, template);
+        if (template.roles && typeof template.roles === 'object') {
+            migrated.roles = {};
+            for (const [role, rule] of Object.entries(template.roles)) {
+                migrated.roles[role] = rule && typeof rule === 'object' ? Object.assign(Object.assign(Object.assign({}, ruleChannels(rule)), { Amul: 1 }), rule) : rule;
+            }
+        }
+        return migrated;
+    })
+};
+/**
+ * Validate and migrate a parsed library file
+ * @returns The templates it contains, or every problem found
+ */
+function parseTemplateLibrary(data) {
+    const file = data;
+    if (!file || typeof file !== 'object' || file.format !== TEMPLATE_LIBRARY_FORMAT) {
+        return { templates: [], errors: ['Not an ArtyColors template library file'] };
+    }
+    const version = file.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        return { templates: [], errors: ['Missing or invalid schema version'] };
+    }
+    if (version > TEMPLATE_LIBRARY_VERSION) {
+        return { templates: [], errors: [`File uses schema version ${version}, this plugin supports up to ${TEMPLATE_LIBRARY_VERSION}. Please update ArtyColors.`] };
+    }
+    if (!Array.isArray(file.templates)) {
+        return { templates: [], errors: ['File does not contain a templates list'] };
+    }
+    let rawTemplates = file.templates;
+    for (let v = version; v < TEMPLATE_LIBRARY_VERSION; v++) {
+        rawTemplates = TEMPLATE_LIBRARY_MIGRATIONS[v](rawTemplates);
+    }
+    const templates = [];
+    const errors = [];
+    rawTemplates.forEach((raw, index) => {
+        const templateErrors = validateTemplate(raw);
+        if (templateErrors.length > 0) {
+            const name = (raw === null || raw === void 0 ? void 0 : raw.name) || `#${index + 1}`;
+            errors.push(...templateErrors.map(error => `Template "${name}": ${error}`));
+        }
+        else {
+            templates.push(raw);
+        }
+    });
+    // Templates repeated inside the same file get fresh ids
+    const seenIds = new Set();
+    for (const template of templates) {
+        if (seenIds.has(template.id)) {
+            template.id = generateId();
+        }
+        seenIds.add(template.id);
+    }
+    return { templates, errors };
+}
+/**
+ * Check an imported value against the Template shape
+ * @returns Every problem found, empty when the template is valid
+ */
+function validateTemplate(raw) {
+    const errors = [];
+    const template = raw;
+    if (!template || typeof template !== 'object') {
+        return ['not an object'];
+    }
+    if (typeof template.id !== 'string' || !template.id) {
+        errors.push('missing id');
+    }
+    if (typeof template.name !== 'string' || !template.name.trim()) {
+        errors.push('missing name');
+    }
+    if (template.colorSpace !== undefined && template.colorSpace !== 'srgb' && template.colorSpace !== 'display-p3') {
+        errors.push(`unknown color space "${String(template.colorSpace)}"`);
+    }
+    if (template.contrastPairs !== undefined) {
+        if (!Array.isArray(template.contrastPairs)) {
+            errors.push('contrastPairs is not a list');
+        }
+        else {
+            for (const pair of template.contrastPairs) {
+                const error = validateContrastPair(pair);
+                if (error)
+                    errors.push(error);
+            }
+        }
+    }
+    const isRecord = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+    if (!isRecord(template.originalColors)) {
+        errors.push('missing originalColors');
+    }
+    else {
+        const originalColors = template.originalColors;
+        if (!originalColors['Base']) {
+            errors.push('originalColors has no Base color');
+        }
+        for (const [role, color] of Object.entries(originalColors)) {
+            if (typeof color !== 'string' || !/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(color)) {
+                errors.push(`${role} has malformed hex color "${String(color)}", expected #rrggbb or #rrggbbaa`);
+            }
+        }
+    }
+    if (!isRecord(template.colorNames)) {
+        errors.push('missing colorNames');
+    }
+    else {
+        for (const [role, name] of Object.entries(template.colorNames)) {
+            if (typeof name !== 'string') {
+                errors.push(`${role} has a non-text color name`);
+            }
+        }
+    }
+    if (!isRecord(template.roles)) {
+        errors.push('missing roles');
+    }
+    else {
+        for (const [role, rule] of Object.entries(template.roles)) {
+            if (!isRecord(rule)) {
+                errors.push(`${role} rule is not an object`);
+                continue;
+            }
+            const fields = ['Lmode', 'k', 'Cmul', 'Cabs', 'hDelta'];
+            const optionalFields = ['Lchannel', 'Labs', 'Cchannel', 'Cdelta', 'Hchannel', 'Habs', 'Amul'];
+            for (const field of [...fields, ...optionalFields.filter(field => field in rule)]) {
+                const error = validateRuleField(field, rule[field]);
+                if (error) {
+                    errors.push(`${role}: ${error}`);
+                }
+            }
+        }
+    }
+    return errors;
+}
+// =============================================================================
+// ENGINE CONFIGURATION
+// =============================================================================
+/**
+ * Set the working space and gamut mapping method outside the plugin, where
+ * they are normally read from the document and settings on startup
+ */
+function configureEngine(options) {
+    if (options.space)
+        workingSpace = options.space;
+    if (options.gamutMapping)
+        gamutMapping = options.gamutMapping;
+}
+if (typeof module !== 'undefined') {
+    module.exports = {
+        configureEngine,
+        naturalSort,
+        rgbToHex,
+        hexToRgb,
+        hexToOKLCH,
+        oklchToHex,
+        gamutClamp,
+        gamutMapChroma,
+        isInGamut,
+        parseColor,
+        hexAlpha,
+        withAlpha,
+        compositeOver,
+        resetGamutReport,
+        gamutReportNote,
+        deltaEOK,
+        toSrgbHex,
+        formatOklch,
+        computeRelativeRule,
+        ruleChannels,
+        applyRule,
+        invertRule,
+        solveBaseColor,
+        resolveColorChanges,
+        wcagContrast,
+        apcaContrast,
+        measureContrast,
+        meetsContrast,
+        enforceContrast,
+        validateContrastPair,
+        computeColorsWithAnchor,
+        computeColorsWithChanges,
+        computeVariantColors,
+        fitRoleToColor,
+        computeTemplateRoles,
+        validateRuleField,
+        validateTemplate,
+        parseTemplateLibrary,
+        TEMPLATE_LIBRARY_FORMAT,
+        TEMPLATE_LIBRARY_VERSION
+    };
+}
+// ArtyColors - Figma Plugin for Color Relationship Management
+// Main thread code with access to Figma API and document
+// Color math lives in color-engine.ts, which is compiled into the same code.js
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
+// Message types for UI communication
+var MessageType;
+(function (MessageType) {
+    MessageType["ANALYZE_SELECTION"] = "analyze-selection";
+    MessageType["UPDATE_ROLE"] = "update-role";
+    MessageType["CREATE_TEMPLATE"] = "create-template";
+    MessageType["APPLY_TEMPLATE"] = "apply-template";
+    MessageType["BATCH_GENERATE"] = "batch-generate";
+    MessageType["UPDATE_VARIANTS"] = "update-variants";
+    MessageType["GET_TEMPLATES"] = "get-templates";
+    MessageType["RENAME_TEMPLATE"] = "rename-template";
+    MessageType["DUPLICATE_TEMPLATE"] = "duplicate-template";
+    MessageType["DELETE_TEMPLATE"] = "delete-template";
+    MessageType["UPDATE_TEMPLATE_RULE"] = "update-template-rule";
+    MessageType["UPDATE_COLOR_NAME"] = "update-color-name";
+    MessageType["UPDATE_ORIGINAL_COLOR"] = "update-original-color";
+    MessageType["EXPORT_TEMPLATES"] = "export-templates";
+    MessageType["IMPORT_TEMPLATES"] = "import-templates";
+    MessageType["COPY_TEMPLATE_TO_STORE"] = "copy-template-to-store";
+    MessageType["EXPORT_DESIGN_TOKENS"] = "export-design-tokens";
+    MessageType["GET_SETTINGS"] = "get-settings";
+    MessageType["UPDATE_SETTINGS"] = "update-settings";
+    MessageType["UPDATE_CONTRAST_PAIRS"] = "update-contrast-pairs";
+    MessageType["PREVIEW"] = "preview";
+    MessageType["PREVIEW_SCALE"] = "preview-scale";
+    MessageType["CREATE_SCALE"] = "create-scale";
+    MessageType["SUGGEST_VARIANTS"] = "suggest-variants";
+    MessageType["GENERATE_MATRIX"] = "generate-matrix";
+    MessageType["CANCEL_OPERATION"] = "cancel-operation";
+    MessageType["DRY_RUN_APPLY"] = "dry-run-apply";
+    MessageType["DRY_RUN_UPDATE_VARIANTS"] = "dry-run-update-variants";
+    MessageType["CHECK_DRIFT"] = "check-drift";
+    MessageType["REPAIR_DRIFT"] = "repair-drift";
+    MessageType["UPDATE_TEMPLATE_FROM_LAYER"] = "update-template-from-layer";
+})(MessageType || (MessageType = {}));
+// Fields belonging to each channel, recomputed together when its mode changes
+const CHANNEL_FIELDS = {
+    Lchannel: ['Lchannel', 'Lmode', 'k', 'Labs'],
+    Cchannel: ['Cchannel', 'Cmul', 'Cabs', 'Cdelta'],
+    Hchannel: ['Hchannel', 'hDelta', 'Habs']
+};
+const TEMPLATE_STORES = ['personal', 'document'];
+const DOCUMENT_TEMPLATES_NAMESPACE = 'artycolors';
+// Milliseconds of work between yields to the UI
+const OPERATION_CHUNK_MS = 50;
+// ΔE OK a layer may differ from its template before it counts as drifted
+const DEFAULT_DRIFT_TOLERANCE = 0.02;
+const DEFAULT_BATCH_LAYOUT = { columns: 0, columnGap: 50, rowGap: 50, fillOrder: 'rows', placement: 'beside-source' };
+// Variant property that batch-generated component variants are told apart by
+const VARIANT_PROPERTY = 'Color';
+const MAX_MATRIX_CELLS = 200;
+// =============================================================================
+// COLOR SPACE DETECTION
+// =============================================================================
+/**
+ * Read the document color profile, unmanaged legacy files behave as sRGB
+ */
+function detectColorSpace() {
+    return figma.root.documentColorProfile === 'DISPLAY_P3' ? 'display-p3' : 'srgb';
+}
+// =============================================================================
+// ROLE MANAGEMENT FUNCTIONS
+// =============================================================================
+/**
+ * Mark a paint slot of a node with a color role
+ */
+function markRole(node, role, slot = FILL_SLOT) {
+    node.setPluginData(slotRoleKey(slot), role);
+}
+/**
+ * Get the color role of a paint slot of a node
+ */
+function getRole(node, slot = FILL_SLOT) {
+    const role = node.getPluginData(slotRoleKey(slot));
+    return role || null;
+}
+/**
+ * Infer role from layer name patterns like [Base], [A], [B], [C]
+ */
+function inferRoleFromName(name) {
+    if (/\[Base\]/i.test(name))
+        return 'Base';
+    // Any number of colors, analysis can assign Color6 and up
+    const numbered = name.match(/\[Color(\d+)\]/i);
+    if (numbered && Number(numbered[1]) > 0)
+        return `Color${Number(numbered[1])}`;
+    const patterns = [
+        // Legacy support
+        { regex: /\[A\]/i, role: 'Color1' },
+        { regex: /\[B\]/i, role: 'Color2' },
+        { regex: /\[C\]/i, role: 'Color3' }
+    ];
+    for (const pattern of patterns) {
+        if (pattern.regex.test(name)) {
+            return pattern.role;
+        }
+    }
+    return null;
+}
+/**
+ * Index all nodes by their color roles within a root node
+ * @param readOnly - Leave roles inferred from layer names unsaved, for lookups that must not change the file
+ */
+function indexRoles(root, readOnly = false) {
+    const roleIndex = {};
+    const traverse = (node) => {
+        for (const slot of listPaintSlots(node)) {
+            // Check explicit role assignment first
+            let role = getRole(node, slot);
+            // Fallback to name-based detection, which always targets the first fill
+            if (!role && isFillSlot(slot)) {
+                role = inferRoleFromName(node.name);
+                if (role && !readOnly) {
+                    markRole(node, role); // Save inferred role
+                }
+            }
+            if (role) {
+                if (!roleIndex[role]) {
+                    roleIndex[role] = [];
+                }
+                roleIndex[role].push({ node, slot });
+            }
+        }
+        // Recursively traverse children
+        if ('children' in node) {
+            for (const child of node.children) {
+                traverse(child);
+            }
+        }
+    };
+    traverse(root);
+    return roleIndex;
+}
+// =============================================================================
+// PAINT SLOT FUNCTIONS
+// =============================================================================
+const FILL_SLOT = { kind: 'fills', index: 0 };
+function isFillSlot(slot) {
+    return slot.kind === FILL_SLOT.kind && slot.index === FILL_SLOT.index && slot.stop === undefined;
+}
+/**
+ * Plugin data key holding the role of a slot
+ * The first fill keeps the original 'colorRole' key so older files still resolve
+ */
+function slotRoleKey(slot) {
+    if (isFillSlot(slot))
+        return 'colorRole';
+    return slot.stop === undefined
+        ? `colorRole:${slot.kind}:${slot.index}`
+        : `colorRole:${slot.kind}:${slot.index}:${slot.stop}`;
+}
+function getSlotPaints(node, kind) {
+    if (!(kind in node))
+        return [];
+    const paints = node[kind];
+    return Array.isArray(paints) ? paints : [];
+}
+function isGradientPaint(paint) {
+    return paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL' ||
+        paint.type === 'GRADIENT_ANGULAR' || paint.type === 'GRADIENT_DIAMOND';
+}
+function isShadowEffect(effect) {
+    return effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW';
+}
+/**
+ * List every slot of a node that can carry a role
+ */
+function listPaintSlots(node) {
+    const slots = [];
+    // Gradients expose one slot per stop on top of the paint itself
+    const pushPaintSlots = (kind, index) => {
+        slots.push({ kind, index });
+        const paint = getSlotPaints(node, kind)[index];
+        if (paint && isGradientPaint(paint)) {
+            paint.gradientStops.forEach((_stop, stop) => slots.push({ kind, index, stop }));
+        }
+    };
+    // Nodes with fills always expose the first fill so name tags keep working on empty fills
+    if ('fills' in node) {
+        const fillCount = Math.max(1, getSlotPaints(node, 'fills').length);
+        for (let index = 0; index < fillCount; index++) {
+            pushPaintSlots('fills', index);
+        }
+    }
+    getSlotPaints(node, 'strokes').forEach((_paint, index) => pushPaintSlots('strokes', index));
+    getSlotPaints(node, 'effects').forEach((effect, index) => {
+        if (isShadowEffect(effect)) {
+            slots.push({ kind: 'effects', index });
+        }
+    });
+    return slots;
+}
+/**
+ * Read the solid color of a slot with its opacity: paint opacity for solids,
+ * color alpha for gradient stops and shadows
+ * @returns null when the slot is missing or holds no single color
+ */
+function getSlotColor(node, slot) {
+    var _a;
+    const paint = getSlotPaints(node, slot.kind)[slot.index];
+    if (!paint)
+        return null;
+    if (slot.kind === 'effects') {
+        return isShadowEffect(paint) ? paint.color : null;
+    }
+    if (slot.stop !== undefined) {
+        const gradientStop = isGradientPaint(paint) ? paint.gradientStops[slot.stop] : undefined;
+        return gradientStop ? gradientStop.color : null;
+    }
+    return paint.type === 'SOLID' ? Object.assign(Object.assign({}, paint.color), { a: (_a = paint.opacity) !== null && _a !== void 0 ? _a : 1 }) : null;
+}
+/**
+ * Describe a slot for the UI, e.g. "Fill 2" or "Shadow 1"
+ */
+function describeSlot(node, slot) {
+    if (slot.kind === 'effects') {
+        const effect = getSlotPaints(node, 'effects')[slot.index];
+        const label = effect && effect.type === 'INNER_SHADOW' ? 'Inner shadow' : 'Shadow';
+        return `${label} ${slot.index + 1}`;
+    }
+    const label = `${slot.kind === 'fills' ? 'Fill' : 'Stroke'} ${slot.index + 1}`;
+    return slot.stop === undefined ? label : `${label} stop ${slot.stop + 1}`;
+}
+// =============================================================================
+// COLOR ANALYSIS FUNCTIONS
+// =============================================================================
+// Colors closer than this ΔE OK share a role during analysis, loaded from settings on startup
+let clusterThreshold = 0.02;
+/**
+ * Area a paint slot covers, used to weigh colors when suggesting the base
+ */
+function slotArea(node, slot) {
+    if (!('width' in node))
+        return 0;
+    if (slot.kind === 'strokes') {
+        const weight = 'strokeWeight' in node && typeof node.strokeWeight === 'number' ? node.strokeWeight : 1;
+        return 2 * (node.width + node.height) * weight;
+    }
+    if (slot.kind === 'effects')
+        return 0;
+    return node.width * node.height;
+}
+/**
+ * Analyze one or more roots and extract all colors with smart role assignment:
+ * - Colors within the ΔE OK threshold of each other and with the same opacity are clustered and share a role
+ * - Roles already stored in plugin data or tagged in layer names ([Base], [Color2]) are kept
+ * - Without a tagged Base, the cluster covering the most area (then used most often) becomes Base
+ */
+function analyzeNodeColors(roots, threshold = clusterThreshold) {
+    const entries = [];
+    // First pass: collect all colors from every fill, stroke and shadow with their existing tags
+    const traverse = (node) => {
+        for (const slot of listPaintSlots(node)) {
+            const color = getSlotColor(node, slot);
+            if (color) {
+                const hexColor = rgbToHex(color, color.a);
+                entries.push({
+                    node,
+                    slot,
+                    color: hexColor,
+                    oklch: hexToOKLCH(hexColor),
+                    alpha: color.a,
+                    area: slotArea(node, slot),
+                    taggedRole: getRole(node, slot) || (isFillSlot(slot) ? inferRoleFromName(node.name) : null)
+                });
+            }
+        }
+        if ('children' in node) {
+            for (const child of node.children) {
+                traverse(child);
+            }
+        }
+    };
+    roots.forEach(root => traverse(root));
+    if (entries.length === 0) {
+        return [];
+    }
+    // Tagged colors form one cluster per role, the largest use of each cluster is its center
+    const clusters = [];
+    const byWeight = [...entries].sort((a, b) => b.area - a.area);
+    for (const entry of byWeight.filter(e => e.taggedRole)) {
+        const cluster = clusters.find(c => c.role === entry.taggedRole);
+        if (cluster) {
+            cluster.entries.push(entry);
+        }
+        else {
+            clusters.push({ entries: [entry], center: entry, role: entry.taggedRole, area: 0 });
+        }
+    }
+    // Untagged colors join the closest cluster within the threshold, or start their own
+    // Overlays never merge with the solid version of their color
+    for (const entry of byWeight.filter(e => !e.taggedRole)) {
+        let closest = null;
+        let closestDistance = threshold;
+        for (const cluster of clusters) {
+            if (Math.abs(entry.alpha - cluster.center.alpha) > 0.01)
+                continue;
+            const distance = deltaEOK(entry.oklch, cluster.center.oklch);
+            if (distance <= closestDistance) {
+                closest = cluster;
+                closestDistance = distance;
+            }
+        }
+        if (closest) {
+            closest.entries.push(entry);
+        }
+        else {
+            clusters.push({ entries: [entry], center: entry, role: null, area: 0 });
+        }
+    }
+    clusters.forEach(cluster => {
+        cluster.area = cluster.entries.reduce((total, entry) => total + entry.area, 0);
+    });
+    const totalArea = clusters.reduce((total, cluster) => total + cluster.area, 0);
+    // Suggest the base by covered area, then by how often the color is used
+    if (!clusters.some(cluster => cluster.role === 'Base')) {
+        const untagged = clusters.filter(cluster => !cluster.role);
+        const base = untagged.sort((a, b) => (b.area - a.area) || (b.entries.length - a.entries.length))[0];
+        if (base)
+            base.role = 'Base';
+    }
+    // Remaining clusters are numbered in layer name order, skipping numbers already taken
+    const usedRoles = new Set(clusters.map(cluster => cluster.role).filter(Boolean));
+    let nextNumber = 1;
+    clusters
+        .filter(cluster => !cluster.role)
+        .sort((a, b) => naturalSort(a.center.node.name, b.center.node.name))
+        .forEach(cluster => {
+        while (usedRoles.has(`Color${nextNumber}`))
+            nextNumber++;
+        cluster.role = `Color${nextNumber}`;
+        usedRoles.add(cluster.role);
+    });
+    const layerColors = [];
+    for (const cluster of clusters) {
+        const role = cluster.role;
+        const { node, slot, color } = cluster.center;
+        // Tag every near-duplicate so applying recolors them all, leaving existing tags alone
+        for (const entry of cluster.entries) {
+            if (!entry.taggedRole) {
+                markRole(entry.node, role, entry.slot);
+            }
+        }
+        layerColors.push({
+            nodeId: node.id,
+            layerName: isFillSlot(slot) ? node.name : `${node.name} (${describeSlot(node, slot)})`,
+            color,
+            role,
+            slot,
+            frequency: cluster.entries.length,
+            coverage: totalArea > 0 ? cluster.area / totalArea : 0
+        });
+    }
+    // Base first, then roles in natural order
+    return layerColors.sort((a, b) => a.role === 'Base' ? -1 : b.role === 'Base' ? 1 : naturalSort(a.role, b.role));
+}
+// =============================================================================
+// MAIN PLUGIN LOGIC
+// =============================================================================
+// Show UI for all editor types
+figma.showUI(__html__, { width: 320, height: 480 });
+loadSettings();
+workingSpace = detectColorSpace();
+// The apply or batch currently running, at most one at a time
+let activeOperation = null;
+// Handle messages from UI
+figma.ui.onmessage = async (msg) => {
+    try {
+        // Every message is a new operation for gamut mapping reports, unless one is still running
+        if (!activeOperation) {
+            resetGamutReport();
+        }
+        switch (msg.type) {
+            case MessageType.ANALYZE_SELECTION:
+                handleAnalyzeSelection();
+                break;
+            case MessageType.UPDATE_ROLE:
+                await handleUpdateRole(msg.nodeId, msg.role, msg.slot);
+                break;
+            case MessageType.CREATE_TEMPLATE:
+                await handleCreateTemplate(msg.templateName, msg.layerColors);
+                break;
+            case MessageType.APPLY_TEMPLATE:
+                await handleApplyTemplate(msg.templateId, msg.colorChanges, msg.tokenMode, msg.tokenName, msg.driverRole, msg.instanceMode, msg.rootIds);
+                break;
+            case MessageType.BATCH_GENERATE:
+                await handleBatchGenerate(msg.templateId, msg.variants, msg.tokenMode, msg.derivation, msg.layout);
+                break;
+            case MessageType.UPDATE_VARIANTS:
+                await handleUpdateVariants(msg.templateId, msg.scope, msg.rootIds);
+                break;
+            case MessageType.GET_TEMPLATES:
+                await handleGetTemplates();
+                break;
+            case MessageType.RENAME_TEMPLATE:
+                await handleRenameTemplate(msg.templateId, msg.name, msg.store);
+                break;
+            case MessageType.DUPLICATE_TEMPLATE:
+                await handleDuplicateTemplate(msg.templateId, msg.store);
+                break;
+            case MessageType.DELETE_TEMPLATE:
+                await handleDeleteTemplate(msg.templateId, msg.store);
+                break;
+            case MessageType.UPDATE_TEMPLATE_RULE:
+                await handleUpdateTemplateRule(msg.templateId, msg.role, msg.field, msg.value, msg.store);
+                break;
+            case MessageType.UPDATE_COLOR_NAME:
+                await handleUpdateColorName(msg.templateId, msg.role, msg.name, msg.store);
+                break;
+            case MessageType.UPDATE_ORIGINAL_COLOR:
+                await handleUpdateOriginalColor(msg.templateId, msg.role, msg.color, msg.recomputeRoles, msg.store);
+                break;
+            case MessageType.EXPORT_TEMPLATES:
+                await handleExportTemplates(msg.templateIds);
+                break;
+            case MessageType.IMPORT_TEMPLATES:
+                await handleImportTemplates(msg.json, msg.mode, msg.store);
+                break;
+            case MessageType.COPY_TEMPLATE_TO_STORE:
+                await handleCopyTemplateToStore(msg.templateId, msg.from, msg.to, msg.move);
+                break;
+            case MessageType.GET_SETTINGS:
+                handleGetSettings();
+                break;
+            case MessageType.UPDATE_SETTINGS:
+                await handleUpdateSettings(msg.settings);
+                break;
+            case MessageType.PREVIEW:
+                await handlePreview(msg.templateId, msg.colorChanges, msg.requestId, msg.driverRole);
+                break;
+            case MessageType.PREVIEW_SCALE:
+                handlePreviewScale(msg.options);
+                break;
+            case MessageType.CREATE_SCALE:
+                await handleCreateScale(msg.options, msg.name, msg.saveTemplate);
+                break;
+            case MessageType.GENERATE_MATRIX:
+                await handleGenerateMatrix(msg.spec, msg.tokenMode, msg.layout);
+                break;
+            case MessageType.SUGGEST_VARIANTS:
+                await handleSuggestVariants(msg.templateId, msg.anchorRole, msg.anchorColor);
+                break;
+            case MessageType.UPDATE_CONTRAST_PAIRS:
+                await handleUpdateContrastPairs(msg.templateId, msg.pairs, msg.store);
+                break;
+            case MessageType.EXPORT_DESIGN_TOKENS:
+                await handleExportDesignTokens(msg.templateId, msg.palettes, msg.useOklch);
+                break;
+            case MessageType.CANCEL_OPERATION:
+                handleCancelOperation();
+                break;
+            case MessageType.DRY_RUN_APPLY:
+                await handleDryRunApply(msg.templateId, msg.colorChanges, msg.driverRole, msg.instanceMode);
+                break;
+            case MessageType.DRY_RUN_UPDATE_VARIANTS:
+                await handleDryRunUpdateVariants(msg.templateId, msg.scope);
+                break;
+            case MessageType.CHECK_DRIFT:
+                await handleCheckDrift(msg.templateId, msg.scope, msg.tolerance);
+                break;
+            case MessageType.REPAIR_DRIFT:
+                await handleRepairDrift(msg.templateId, msg.targets);
+                break;
+            case MessageType.UPDATE_TEMPLATE_FROM_LAYER:
+                await handleUpdateTemplateFromLayer(msg.templateId, msg.target);
+                break;
+            default:
+                figma.notify('Unknown message type', { error: true });
+        }
+    }
+    catch (error) {
+        figma.notify(`Error: ${error.message}`, { error: true });
+        console.error('ArtyColors Error:', error);
+    }
+};
+// =============================================================================
+// MESSAGE HANDLERS
+// =============================================================================
+function handleAnalyzeSelection() {
+    const selection = figma.currentPage.selection;
+    if (selection.length === 0) {
+        figma.notify('Please select a component or group to analyze');
+        return;
+    }
+    const layerColors = analyzeNodeColors(selection);
     if (layerColors.length === 0) {
-        figma.notify('No layers with solid fills found in selection');
+        figma.notify('No solid, gradient or shadow colors found in selection');
+        return;
+    }
+    // Send analysis results to UI
+    figma.ui.postMessage({
+        type: 'selection-analyzed',
+        layerColors
+    });
+}
+async function handleUpdateRole(nodeId, role, slot = FILL_SLOT) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (node) {
+        markRole(node, role, slot);
+        figma.notify(`Updated ${node.name} (${describeSlot(node, slot)}) to role ${role}`);
+    }
+}
+async function handleCreateTemplate(templateName, layerColors) {
+    if (layerColors.length === 0) {
+        figma.notify('No colors to create template from');
+        return;
+    }
+    // Find the base color
+    const baseColor = layerColors.find(lc => lc.role === 'Base');
+    if (!baseColor) {
+        figma.notify('No Base color found. Please assign a Base role.');
+        return;
+    }
+    const template = {
+        id: generateId(),
+        name: templateName,
+        colorNames: {},
+        originalColors: {},
+        roles: {},
+        colorSpace: workingSpace
+    };
+    // Store display names, original colors, and compute rules for each color
+    for (const layerColor of layerColors) {
+        const displayName = layerColor.displayName || layerColor.layerName;
+        template.colorNames[layerColor.role] = displayName;
+        template.originalColors[layerColor.role] = layerColor.color;
+        if (layerColor.role !== 'Base') {
+            template.roles[layerColor.role] = computeRelativeRule(baseColor.color, layerColor.color);
+        }
+    }
+    // Store template
+    await storeTemplate(template);
+    figma.notify(`Template "${templateName}" created successfully`);
+    // Send success message to UI for toast
+    figma.ui.postMessage({
+        type: 'template-created',
+        templateName
+    });
+    await handleGetTemplates(); // Refresh UI
+}
+/**
+ * @param rootIds - Layers the user reviewed in the dry run, applied instead of the current selection
+ */
+async function handleApplyTemplate(templateId, requestedChanges, tokenMode = 'none', tokenName = 'Default', driverRole, instanceMode = 'override', rootIds) {
+    const prepared = await prepareApply(templateId, requestedChanges, driverRole, rootIds);
+    if (!prepared)
+        return;
+    const { template, selection, colorChanges } = prepared;
+    const contrastReport = [];
+    const finalColors = computeColorsWithChanges(template, colorChanges, contrastReport);
+    postContrastReport(template, [{ name: tokenName, results: contrastReport }]);
+    // Each root is recolored completely or not at all; a cancel keeps the roots already done
+    const targets = [];
+    let switched = 0;
+    let mainComponents = 0;
+    const result = await runOperation(`Apply "${template.name}"`, selection.length, false, async (operation) => {
+        for (const root of selection) {
+            if (operation.cancelled) {
+                operation.roots.push(rootResult(root, 'cancelled'));
+                continue;
+            }
+            try {
+                // Instances switch variants or recolor their main component instead of collecting overrides
+                const target = await instanceApplyTarget(root, finalColors, instanceMode, false, operation.rollback);
+                if (!target) {
+                    switched++;
+                    operation.roots.push(rootResult(root, 'switched', `Switched to a matching ${VARIANT_PROPERTY} variant`));
+                }
+                else if (targets.indexOf(target) !== -1) {
+                    operation.roots.push(rootResult(root, 'applied', `Recolored through main component "${target.name}"`)); // Several instances of one main component
+                }
+                else {
+                    const restore = snapshotRoot(target);
+                    try {
+                        applyTemplateToRootWithChanges(target, template, colorChanges);
+                    }
+                    catch (error) {
+                        restore();
+                        throw error;
+                    }
+                    operation.rollback.push(restore);
+                    targets.push(target);
+                    if (target !== root)
+                        mainComponents++;
+                    operation.roots.push(rootResult(root, 'applied', target !== root ? `Recolored through main component "${target.name}"` : undefined));
+                }
+            }
+            catch (error) {
+                operation.roots.push(rootResult(root, 'failed', errorMessage(error)));
+            }
+            await advanceOperation(operation);
+        }
+        const tokenSet = targets.length > 0 && await syncRoleTokens(template, tokenName, finalColors, tokenMode, operation.rollback);
+        if (tokenSet) {
+            for (const target of targets) {
+                await bindRoleTokens(target, tokenSet);
+            }
+        }
+    });
+    if (!result || result.status !== 'completed')
+        return;
+    const notes = [];
+    if (switched > 0)
+        notes.push(`${switched} ${switched === 1 ? 'instance' : 'instances'} switched to a matching ${VARIANT_PROPERTY} variant`);
+    if (mainComponents > 0)
+        notes.push(`${mainComponents} main ${mainComponents === 1 ? 'component' : 'components'} recolored`);
+    figma.notify(`Template applied successfully${notes.length > 0 ? ` (${notes.join(', ')})` : ''}${gamutReportNote()}`);
+}
+/**
+ * Send the UI what an apply would change on every selected layer, without writing anything
+ */
+async function handleDryRunApply(templateId, requestedChanges, driverRole, instanceMode = 'override') {
+    const prepared = await prepareApply(templateId, requestedChanges, driverRole);
+    if (!prepared)
+        return;
+    const { template, selection, colorChanges } = prepared;
+    const finalColors = computeColorsWithChanges(template, colorChanges);
+    const targets = [];
+    const roots = [];
+    for (const root of selection) {
+        const target = await instanceApplyTarget(root, finalColors, instanceMode, true);
+        if (!target) {
+            roots.push({ rootId: root.id, rootName: root.name, note: `Switches to a matching ${VARIANT_PROPERTY} variant`, slots: [], missingRoles: [] });
+        }
+        else if (targets.indexOf(target) !== -1) {
+            roots.push({ rootId: root.id, rootName: root.name, note: `Recolored through main component "${target.name}" above`, slots: [], missingRoles: [] });
+        }
+        else {
+            targets.push(target);
+            const diff = dryRunTemplateOnRootWithChanges(target, template, colorChanges);
+            roots.push(target === root ? diff : Object.assign(Object.assign({}, diff), { rootId: root.id, rootName: root.name, note: `Recolors main component "${target.name}"` }));
+        }
+    }
+    figma.ui.postMessage({ type: 'apply-diff', action: 'apply-template', templateName: template.name, roots });
+}
+/**
+ * Send the UI the exact colors applyTemplateToRootWithChanges would write for these changes
+ */
+async function handlePreview(templateId, requestedChanges, requestId, driverRole) {
+    const template = await getTemplate(templateId);
+    if (!template)
+        return;
+    // Typing errors go back to the UI instead of a notification on every keystroke
+    const requested = parseColorInputs(requestedChanges, template.colorNames);
+    if (requested.error) {
+        figma.ui.postMessage({ type: 'preview-colors', templateId, requestId, error: requested.error });
+        return;
+    }
+    const colorChanges = resolveColorChanges(template, requested.colors, driverRole);
+    if (!colorChanges)
+        return;
+    figma.ui.postMessage({
+        type: 'preview-colors',
+        templateId,
+        requestId,
+        colors: computeColorsWithChanges(template, colorChanges)
+    });
+}
+function handlePreviewScale(requested) {
+    const { options, error } = parseScaleOptions(requested);
+    figma.ui.postMessage({
+        type: 'scale-preview',
+        error,
+        steps: options ? generateScale(options) : []
+    });
+}
+async function handleCreateScale(requested, name, saveTemplate) {
+    const { options, error } = parseScaleOptions(requested);
+    if (!options) {
+        figma.notify(error || 'Scale options are missing', { error: true });
+        return;
+    }
+    const scaleName = (name || '').trim() || 'Scale';
+    const steps = generateScale(options);
+    const frame = await placeScale(scaleName, steps);
+    if (saveTemplate) {
+        const template = createScaleTemplate(scaleName, steps);
+        await storeTemplate(template);
+        frame.setPluginData('templateId', template.id);
+        frame.setPluginData('baseColor', template.originalColors['Base']);
+        await handleGetTemplates();
+    }
+    figma.currentPage.selection = [frame];
+    figma.viewport.scrollAndZoomIntoView([frame]);
+    figma.notify(`Created ${steps.length}-step scale "${scaleName}"${saveTemplate ? ' and saved it as a template' : ''}${gamutReportNote()}`);
+}
+async function handleSuggestVariants(templateId, anchorRole, anchorColor) {
+    const template = await getTemplate(templateId);
+    if (!template || !template.originalColors[anchorRole]) {
+        figma.notify('Pick a template color to build suggestions from');
+        return;
+    }
+    // Without a color typed in, suggestions start from the template's own
+    const parsed = anchorColor ? parseColor(anchorColor) : null;
+    if (parsed && parsed.hex === null) {
+        figma.notify(parsed.error, { error: true });
+        return;
+    }
+    const color = parsed ? parsed.hex : template.originalColors[anchorRole];
+    figma.ui.postMessage({
+        type: 'variant-suggestions',
+        anchorRole,
+        suggestions: suggestHarmonyVariants(anchorRole, color)
+    });
+}
+async function handleBatchGenerate(templateId, variants, tokenMode = 'none', derivation = 'shift', layout = DEFAULT_BATCH_LAYOUT) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const selection = figma.currentPage.selection;
+    if (selection.length === 0) {
+        figma.notify('Please select a component to duplicate');
+        return;
+    }
+    if (variants.length === 0) {
+        figma.notify('Please add variants to generate');
+        return;
+    }
+    const layoutError = validateBatchLayout(layout);
+    if (layoutError) {
+        figma.notify(layoutError, { error: true });
+        return;
+    }
+    // Variant colors can be typed in any CSS syntax
+    const parsedVariants = [];
+    for (const variant of variants) {
+        const parsed = parseColor(variant.hexColor);
+        if (parsed.hex === null) {
+            figma.notify(`Variant "${variant.name}": ${parsed.error}`, { error: true });
+            return;
+        }
+        // Reject variants the template can't derive colors for before anything is cloned
+        const anchorName = template.colorNames[variant.anchorColor] || variant.anchorColor;
+        const underivable = derivation === 'rules'
+            ? !resolveColorChanges(template, { [variant.anchorColor]: parsed.hex }, variant.anchorColor) && `${anchorName} has no rule to derive the palette from`
+            : !template.originalColors[variant.anchorColor] && `no original color found for ${anchorName}`;
+        if (underivable) {
+            figma.notify(`Variant "${variant.name}": ${underivable}`, { error: true });
+            return;
+        }
+        parsedVariants.push(Object.assign(Object.assign({}, variant), { hexColor: parsed.hex }));
+    }
+    variants = parsedVariants;
+    // Every selected source gets its own set of variants
+    const sources = [...selection];
+    const containers = [];
+    let outputPage;
+    const contrastReports = [];
+    let generated = 0;
+    // All or nothing: a failure or a cancel removes every clone the batch created
+    const result = await runOperation(`Generate "${template.name}" variants`, sources.length * variants.length, true, async (operation) => {
+        for (const sourceComponent of sources) {
+            if (operation.cancelled) {
+                operation.roots.push(rootResult(sourceComponent, 'cancelled'));
+                continue;
+            }
+            try {
+                // Components become a component set with one variant per color, anything else an auto-layout frame
+                // Sources placed on a new page share one
+                if (layout.placement === 'new-page' && !outputPage) {
+                    outputPage = await createOutputPage(`${template.name} variants`, operation.rollback);
+                }
+                const { duplicates, container } = await createBatchOutput(sourceComponent, variants.map(variant => variant.name), layout, operation.rollback, outputPage);
+                containers.push(container);
+                // Apply template with different anchor colors to each duplicate
+                for (let i = 0; i < duplicates.length && i < variants.length && !operation.cancelled; i++) {
+                    const duplicate = duplicates[i];
+                    const variant = variants[i];
+                    // Shift every color with the anchor, or solve Base from it and derive the rest through the rules
+                    const contrastReport = [];
+                    let variantColors;
+                    if (derivation === 'rules') {
+                        const colorChanges = resolveColorChanges(template, { [variant.anchorColor]: variant.hexColor }, variant.anchorColor);
+                        if (colorChanges) {
+                            applyTemplateToRootWithChanges(duplicate, template, colorChanges);
+                        }
+                        variantColors = colorChanges && computeColorsWithChanges(template, colorChanges, contrastReport);
+                    }
+                    else {
+                        applyTemplateToRootWithAnchor(duplicate, template, variant.anchorColor, variant.hexColor);
+                        variantColors = computeColorsWithAnchor(template, variant.anchorColor, variant.hexColor, contrastReport);
+                    }
+                    // Each variant becomes a variable mode or its own set of styles
+                    contrastReports.push({ name: sources.length > 1 ? `${sourceComponent.name} / ${variant.name}` : variant.name, results: contrastReport });
+                    const tokenSet = variantColors && await syncRoleTokens(template, variant.name, variantColors, tokenMode, operation.rollback);
+                    if (tokenSet) {
+                        await bindRoleTokens(duplicate, tokenSet);
+                    }
+                    await advanceOperation(operation);
+                }
+                generated += duplicates.length;
+                operation.roots.push(operation.cancelled
+                    ? rootResult(sourceComponent, 'cancelled')
+                    : rootResult(sourceComponent, 'applied', `${duplicates.length} variants`));
+            }
+            catch (error) {
+                operation.roots.push(rootResult(sourceComponent, 'failed', errorMessage(error)));
+                throw error;
+            }
+        }
+    });
+    if (!result || result.status !== 'completed')
+        return;
+    postContrastReport(template, contrastReports);
+    // Select the new component sets or wrappers
+    const visible = containers.filter(container => pageOf(container) === figma.currentPage);
+    figma.currentPage.selection = visible;
+    figma.viewport.scrollAndZoomIntoView(visible);
+    const kind = containers.every(container => container.type === 'COMPONENT_SET') ? 'component variants' : 'variants';
+    figma.notify(`Generated ${generated} ${kind}${sources.length > 1 ? ` for ${sources.length} sources` : ''}${gamutReportNote()}`);
+}
+async function handleGenerateMatrix(spec, tokenMode = 'none', layout = DEFAULT_BATCH_LAYOUT) {
+    const selection = figma.currentPage.selection;
+    if (selection.length === 0) {
+        figma.notify('Please select a component to duplicate');
+        return;
+    }
+    // Load every template the matrix can use up front
+    const templates = {};
+    for (const store of TEMPLATE_STORES) {
+        Object.assign(templates, await getAllTemplates(store));
+    }
+    const error = validateMatrixSpec(spec, templates) || validateBatchLayout(layout);
+    if (error) {
+        figma.notify(error, { error: true });
+        return;
+    }
+    const source = selection[0];
+    const cells = matrixCells(spec.axes);
+    const contrastReports = [];
+    const skipped = [];
+    let container = null; // Set inside the operation
+    // Like a batch, a failed or cancelled matrix removes everything it created
+    const result = await runOperation(`Generate "${templates[spec.templateId].name}" matrix`, cells.length, true, async (operation) => {
+        try {
+            const output = await createMatrixOutput(source, spec.axes, cells, layout, operation.rollback);
+            container = output.container;
+            for (let i = 0; i < cells.length && !operation.cancelled; i++) {
+                const cell = cells[i];
+                const name = cell.map(value => value.label).join(' / ');
+                const templateAxis = spec.axes.map((axis, index) => axis.kind === 'template' ? cell[index].templateId : undefined).filter(Boolean).pop();
+                const template = templates[templateAxis || spec.templateId];
+                // Role axes set their roles explicitly; the first one drives Base when no axis sets it
+                const overrides = {};
+                let driverRole;
+                spec.axes.forEach((axis, index) => {
+                    if (axis.kind === 'role' && axis.role && template.originalColors[axis.role]) {
+                        const parsed = parseColor(cell[index].color || '');
+                        if (parsed.hex === null) {
+                            throw new Error(`"${cell[index].label}" on axis "${axis.name}": ${parsed.error}`);
+                        }
+                        overrides[axis.role] = parsed.hex;
+                        driverRole = driverRole || axis.role;
+                    }
+                });
+                const colorChanges = resolveColorChanges(template, Object.keys(overrides).length > 0 ? overrides : { Base: template.originalColors['Base'] }, driverRole);
+                if (colorChanges) {
+                    applyTemplateToRootWithChanges(output.duplicates[i], template, colorChanges);
+                    const contrastReport = [];
+                    const cellColors = computeColorsWithChanges(template, colorChanges, contrastReport);
+                    if (contrastReport.length > 0) {
+                        contrastReports.push({ name, results: contrastReport });
+                    }
+                    const tokenSet = await syncRoleTokens(template, name, cellColors, tokenMode, operation.rollback);
+                    if (tokenSet) {
+                        await bindRoleTokens(output.duplicates[i], tokenSet);
+                    }
+                }
+                else {
+                    skipped.push(name); // No role of the cell has a rule to solve Base from, the clone keeps the source colors
+                }
+                await advanceOperation(operation);
+            }
+            const skippedNote = skipped.length > 0 ? `, ${skipped.length} left uncolored: ${skipped.join(', ')}` : '';
+            operation.roots.push(rootResult(source, operation.cancelled ? 'cancelled' : 'applied', `${cells.length} variants${skippedNote}`));
+        }
+        catch (error) {
+            operation.roots.push(rootResult(source, 'failed', errorMessage(error)));
+            throw error;
+        }
+    });
+    if (!result || result.status !== 'completed' || !container)
+        return;
+    if (contrastReports.length > 0) {
+        figma.ui.postMessage({ type: 'contrast-report', templateName: templates[spec.templateId].name, variants: contrastReports });
+    }
+    figma.currentPage.selection = [container];
+    figma.viewport.scrollAndZoomIntoView([container]);
+    const skippedNote = skipped.length > 0 ? ` (${skipped.length} ${skipped.length === 1 ? 'cell' : 'cells'} left uncolored, no role with a rule to derive ${skipped.join(', ')} from)` : '';
+    figma.notify(`Generated a ${spec.axes.map(axis => axis.values.length).join(' × ')} matrix${skippedNote}${gamutReportNote()}`, { error: skipped.length > 0 });
+}
+async function handleUpdateVariants(templateId, scope = 'page', rootIds) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    // Only the variants reviewed in the dry run, not ones stamped since
+    const roots = (await findTemplateRoots(templateId, scope)).filter(root => !rootIds || rootIds.indexOf(root.id) !== -1);
+    if (roots.length === 0) {
+        figma.notify(`No variants of "${template.name}" found on this ${scope}`);
+        return;
+    }
+    // Like an apply, each variant is updated completely or not at all and a cancel keeps the ones already done
+    const result = await runOperation(`Update "${template.name}" variants`, roots.length, false, async (operation) => {
+        for (const root of roots) {
+            if (operation.cancelled) {
+                operation.roots.push(rootResult(root, 'cancelled'));
+                continue;
+            }
+            const restore = snapshotRoot(root);
+            try {
+                if (reapplyTemplateToRoot(root, template)) {
+                    operation.rollback.push(restore);
+                    operation.roots.push(rootResult(root, 'applied'));
+                }
+                else {
+                    operation.roots.push(rootResult(root, 'skipped', 'No stored color to derive from'));
+                }
+            }
+            catch (error) {
+                restore();
+                operation.roots.push(rootResult(root, 'failed', errorMessage(error)));
+            }
+            await advanceOperation(operation);
+        }
+    });
+    if (!result)
+        return;
+    const count = (status) => result.roots.filter(root => root.status === status).length;
+    const summary = { updated: count('applied'), skipped: count('skipped'), failed: count('failed') };
+    if (result.status === 'completed') {
+        figma.notify(`Updated ${summary.updated} variants (${summary.skipped} skipped)${gamutReportNote()}`);
+    }
+    figma.ui.postMessage({
+        type: 'variants-updated',
+        templateName: template.name,
+        summary
+    });
+}
+/**
+ * Send the UI what Update variants would change on every stamped root, without writing anything
+ */
+async function handleDryRunUpdateVariants(templateId, scope = 'page') {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const roots = await findTemplateRoots(templateId, scope);
+    if (roots.length === 0) {
+        figma.notify(`No variants of "${template.name}" found on this ${scope}`);
+        return;
+    }
+    const diffs = roots.map(root => dryRunReapplyTemplateToRoot(root, template) ||
+        { rootId: root.id, rootName: root.name, note: 'Skipped, no stored color to derive from', slots: [], missingRoles: [] });
+    figma.ui.postMessage({ type: 'apply-diff', action: 'update-variants', templateName: template.name, roots: diffs });
+}
+/**
+ * List every layer of the template's stamped roots whose color no longer matches
+ * what the template derives from the root's stored base or anchor
+ */
+async function handleCheckDrift(templateId, scope = 'page', tolerance = DEFAULT_DRIFT_TOLERANCE) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const roots = await findTemplateRoots(templateId, scope);
+    const drifted = [];
+    for (const root of roots) {
+        const diff = dryRunReapplyTemplateToRoot(root, template);
+        const slots = diff ? diff.slots.filter(slot => slot.current && slot.next && isDrifted(slot.current, slot.next, tolerance)) : [];
+        if (diff && slots.length > 0) {
+            drifted.push(Object.assign(Object.assign({}, diff), { slots, missingRoles: [] }));
+        }
+    }
+    figma.ui.postMessage({ type: 'drift-report', templateId, templateName: template.name, checked: roots.length, roots: drifted });
+}
+/**
+ * Recolor drifted layers back to what their template derives for their root, as one undo step
+ */
+async function handleRepairDrift(templateId, targets) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const result = await runOperation(`Repair "${template.name}"`, targets.length, false, async (operation) => {
+        for (const target of targets) {
+            const root = await figma.getNodeByIdAsync(target.rootId);
+            const node = await figma.getNodeByIdAsync(target.nodeId);
+            if (!root || !node) {
+                operation.roots.push({ nodeId: target.nodeId, name: target.nodeId, status: 'failed', detail: 'The layer no longer exists' });
+                continue;
+            }
+            if (operation.cancelled) {
+                operation.roots.push(rootResult(node, 'cancelled'));
+                continue;
+            }
+            const color = expectedSlotColor(root, node, target.slot, template);
+            if (color) {
+                applyColorToNode(node, color, target.slot);
+                operation.roots.push(rootResult(node, 'applied', `${describeSlot(node, target.slot)} back to ${color}`));
+            }
+            else {
+                operation.roots.push(rootResult(node, 'failed', `"${root.name}" no longer derives a color for this layer`));
+            }
+            await advanceOperation(operation);
+        }
+    });
+    if (!result || result.status !== 'completed')
+        return;
+    figma.notify(`Repaired ${targets.length} ${targets.length === 1 ? 'layer' : 'layers'}`);
+}
+/**
+ * Change the template so it derives a drifted layer's current color for that layer's root.
+ * Other variants of the template then drift until they are updated
+ */
+async function handleUpdateTemplateFromLayer(templateId, target) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const root = await figma.getNodeByIdAsync(target.rootId);
+    const node = await figma.getNodeByIdAsync(target.nodeId);
+    const role = node && getRole(node, target.slot);
+    const color = node && getSlotColor(node, target.slot);
+    const source = root && variantSource(root);
+    if (!root || !node || !role || !color || !source) {
+        figma.notify('That layer no longer has a role color to read', { error: true });
+        return;
+    }
+    const roleName = template.colorNames[role] || role;
+    const fit = fitRoleToColor(template, role, rgbToHex(color, color.a), source);
+    if (!fit) {
+        figma.notify(`${roleName} is not derived by the rules on "${root.name}", repair it or apply the template again instead`, { error: true });
+        return;
+    }
+    template.roles[role] = fit.rule;
+    template.originalColors[role] = fit.originalColor;
+    await storeTemplate(template);
+    await handleGetTemplates();
+    figma.notify(`${roleName} in "${template.name}" now follows ${node.name}, update the other variants to match${gamutReportNote()}`);
+}
+async function handleGetTemplates() {
+    const templates = await getAllTemplates('personal');
+    const documentTemplates = await getAllTemplates('document');
+    figma.ui.postMessage({
+        type: 'templates-updated',
+        templates,
+        documentTemplates
+    });
+}
+async function handleCopyTemplateToStore(templateId, from, to, move = false) {
+    const template = await getTemplate(templateId, from);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    if (from === to) {
+        figma.notify('Template is already in that library');
+        return;
+    }
+    // A move keeps the id so stamped variants follow it; a copy gets its own id,
+    // since lookups without a store would always find the personal one
+    if (move) {
+        await storeTemplate(template, to);
+        await deleteTemplate(templateId, from);
+    }
+    else {
+        await storeTemplate(Object.assign(Object.assign({}, template), { id: generateId() }), to);
+    }
+    const destination = to === 'document' ? 'this document' : 'your templates';
+    figma.notify(`${move ? 'Moved' : 'Copied'} "${template.name}" to ${destination}`);
+    await handleGetTemplates();
+}
+async function handleRenameTemplate(templateId, name, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const trimmedName = (name || '').trim();
+    if (!trimmedName) {
+        figma.notify('Template name cannot be empty');
+        return;
+    }
+    template.name = trimmedName;
+    await storeTemplate(template, store);
+    figma.notify(`Template renamed to "${trimmedName}"`);
+    await handleGetTemplates();
+}
+async function handleDuplicateTemplate(templateId, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    // Deep copy so edits to the duplicate never touch the source rules
+    const duplicate = Object.assign(Object.assign({}, JSON.parse(JSON.stringify(template))), { id: generateId(), name: `${template.name} copy` });
+    const targetStore = store || await findTemplateStore(templateId) || 'personal';
+    await storeTemplate(duplicate, targetStore);
+    figma.notify(`Template duplicated as "${duplicate.name}"`);
+    figma.ui.postMessage({
+        type: 'template-duplicated',
+        templateId: duplicate.id,
+        store: targetStore
+    });
+    await handleGetTemplates();
+}
+async function handleDeleteTemplate(templateId, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    await deleteTemplate(templateId, store);
+    figma.notify(`Template "${template.name}" deleted`);
+    await handleGetTemplates();
+}
+async function handleUpdateTemplateRule(templateId, role, field, value, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    const rule = template.roles[role];
+    if (!rule) {
+        figma.notify(`No rule found for ${role}`);
+        return;
+    }
+    const error = validateRuleField(field, value);
+    if (error) {
+        figma.notify(error, { error: true });
+        await handleGetTemplates(); // Reset the UI to the stored value
+        return;
+    }
+    // Switching a channel's mode recomputes its values so the original colors still match
+    const baseColor = template.originalColors['Base'];
+    const roleColor = template.originalColors[role];
+    if (field in CHANNEL_FIELDS && baseColor && roleColor) {
+        const channel = field;
+        const fresh = computeRelativeRule(baseColor, roleColor, Object.assign(Object.assign({}, ruleChannels(rule)), { [channel]: value }), template.colorSpace || 'srgb');
+        const updated = Object.assign({}, rule);
+        for (const channelField of CHANNEL_FIELDS[channel]) {
+            updated[channelField] = fresh[channelField];
+        }
+        template.roles[role] = updated;
+    }
+    else {
+        template.roles[role] = Object.assign(Object.assign({}, rule), { [field]: value });
+    }
+    await storeTemplate(template, store);
+    await handleGetTemplates();
+}
+async function handleUpdateColorName(templateId, role, name, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    if (!(role in template.originalColors)) {
+        figma.notify(`Role ${role} is not part of this template`);
+        return;
+    }
+    template.colorNames[role] = (name || '').trim() || role;
+    await storeTemplate(template, store);
+    await handleGetTemplates();
+}
+async function handleUpdateOriginalColor(templateId, role, color, recomputeRoles = true, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    if (!(role in template.originalColors)) {
+        figma.notify(`Role ${role} is not part of this template`);
+        return;
+    }
+    // Original colors are kept in the space the template was captured in
+    const templateSpace = template.colorSpace || 'srgb';
+    const parsed = parseColor(color, templateSpace);
+    if (parsed.hex === null) {
+        figma.notify(parsed.error, { error: true });
+        return;
+    }
+    template.originalColors[role] = parsed.hex;
+    if (recomputeRoles) {
+        template.roles = computeTemplateRoles(template.originalColors, templateSpace);
+    }
+    await storeTemplate(template, store);
+    await handleGetTemplates();
+}
+async function handleExportTemplates(templateIds) {
+    const selected = [];
+    for (const id of templateIds || []) {
+        const template = await getTemplate(id);
+        if (template)
+            selected.push(template);
+    }
+    if (selected.length === 0) {
+        figma.notify('Please select templates to export');
+        return;
+    }
+    const file = {
+        format: TEMPLATE_LIBRARY_FORMAT,
+        version: TEMPLATE_LIBRARY_VERSION,
+        exportedAt: new Date().toISOString(),
+        templates: selected
+    };
+    figma.ui.postMessage({
+        type: 'templates-exported',
+        json: JSON.stringify(file, null, 2),
+        count: selected.length
+    });
+}
+async function handleImportTemplates(json, mode = 'merge', store = 'personal') {
+    let parsed;
+    try {
+        parsed = JSON.parse(json);
+    }
+    catch (_a) {
+        postImportErrors(['File is not valid JSON']);
+        return;
+    }
+    const { templates: imported, errors } = parseTemplateLibrary(parsed);
+    if (errors.length > 0) {
+        postImportErrors(errors);
+        return;
+    }
+    const templates = mode === 'replace' ? {} : await getAllTemplates(store);
+    const otherStore = store === 'document' ? 'personal' : 'document';
+    const otherTemplates = await getAllTemplates(otherStore);
+    let remapped = 0;
+    for (const template of imported) {
+        // Never overwrite an existing template or shadow one in the other store, give the incoming one a fresh id instead
+        if (templates[template.id] || otherTemplates[template.id]) {
+            template.id = generateId();
+            remapped++;
+        }
+        templates[template.id] = template;
+    }
+    await storeAllTemplates(templates, store);
+    figma.notify(`Imported ${imported.length} templates${remapped > 0 ? ` (${remapped} renumbered)` : ''}`);
+    figma.ui.postMessage({
+        type: 'templates-imported',
+        count: imported.length,
+        remapped
+    });
+    await handleGetTemplates();
+}
+function postImportErrors(errors) {
+    figma.notify(`Import failed: ${errors[0]}`, { error: true });
+    figma.ui.postMessage({
+        type: 'template-import-failed',
+        errors
+    });
+}
+async function handleExportDesignTokens(templateId, palettes, useOklch = false) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return;
+    }
+    // Without explicit palettes, export the template's own colors
+    const requested = palettes && palettes.length > 0
+        ? palettes
+        : [{ name: 'Default', anchorColor: 'Base', hexColor: template.originalColors['Base'] }];
+    const computed = [];
+    for (const requestedPalette of requested) {
+        const parsed = parseColor(requestedPalette.hexColor);
+        if (parsed.hex === null) {
+            figma.notify(`Palette "${requestedPalette.name}": ${parsed.error}`, { error: true });
+            return;
+        }
+        const palette = Object.assign(Object.assign({}, requestedPalette), { hexColor: parsed.hex });
+        const colors = computePaletteColors(template, palette);
+        if (!colors) {
+            figma.notify(`No original color found for ${palette.anchorColor}`, { error: true });
+            return;
+        }
+        computed.push({ name: palette.name, colors });
+    }
+    figma.ui.postMessage({
+        type: 'design-tokens-exported',
+        fileName: tokenSlug(template.name) || 'tokens',
+        dtcg: formatDtcgTokens(template, computed),
+        css: formatCssVariables(template, computed, useOklch),
+        tailwind: formatTailwindTheme(template, computed),
+        gamutMapped: gamutMappedCount
+    });
+}
+async function handleUpdateContrastPairs(templateId, pairs, store) {
+    const template = await getTemplate(templateId, store);
+    if (!template) {
+        figma.notify('Template not found');
         return;
     }
-    // Send analysis results to UI
+    for (const pair of pairs || []) {
+        const error = validateContrastPair(pair, template);
+        if (error) {
+            figma.notify(error, { error: true });
+            await handleGetTemplates(); // Reset the UI to the stored pairs
+            return;
+        }
+    }
+    template.contrastPairs = pairs || [];
+    await storeTemplate(template, store);
+    await handleGetTemplates();
+}
+function postContrastReport(template, variants) {
+    if (!template.contrastPairs || template.contrastPairs.length === 0)
+        return;
     figma.ui.postMessage({
-        type: 'selection-analyzed',
-        layerColors
+        type: 'contrast-report',
+        templateName: template.name,
+        variants
+    });
+}
+function handleGetSettings() {
+    figma.ui.postMessage({
+        type: 'settings-updated',
+        settings: currentSettings(),
+        colorSpace: workingSpace
+    });
+}
+async function handleUpdateSettings(settings) {
+    if (settings.gamutMapping !== undefined) {
+        if (settings.gamutMapping !== 'chroma' && settings.gamutMapping !== 'estimate') {
+            figma.notify(`Unknown gamut mapping "${settings.gamutMapping}"`, { error: true });
+            return;
+        }
+        gamutMapping = settings.gamutMapping;
+    }
+    if (settings.clusterThreshold !== undefined) {
+        const threshold = settings.clusterThreshold;
+        if (typeof threshold !== 'number' || !isFinite(threshold) || threshold < 0 || threshold > 0.2) {
+            figma.notify('Color merge threshold must be between 0 and 0.2', { error: true });
+            handleGetSettings(); // Reset the UI to the stored value
+            return;
+        }
+        clusterThreshold = threshold;
+    }
+    await figma.clientStorage.setAsync('settings', currentSettings());
+    handleGetSettings();
+}
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+/**
+ * Read colors entered in the UI, in any CSS syntax, as canonical hex
+ * @param labels - Names used for each key in error messages, the key itself when missing
+ * @returns The parsed colors, or the first problem found
+ */
+function parseColorInputs(inputs, labels = {}) {
+    const colors = {};
+    for (const [key, input] of Object.entries(inputs || {})) {
+        const result = parseColor(input);
+        if (result.hex === null) {
+            return { colors, error: `${labels[key] || key}: ${result.error}` };
+        }
+        colors[key] = result.hex;
+    }
+    return { colors, error: null };
+}
+/**
+ * Work out what an apply writes: the template, the selected roots and the color changes,
+ * with Base solved from another role when it wasn't picked
+ * @param rootIds - Roots to use instead of the current selection, skipping any deleted since
+ * @returns null, after telling the user why, when there is nothing to apply
+ */
+async function prepareApply(templateId, requestedChanges, driverRole, rootIds) {
+    const template = await getTemplate(templateId);
+    if (!template) {
+        figma.notify('Template not found');
+        return null;
+    }
+    const selection = rootIds ? await findRootsById(rootIds) : figma.currentPage.selection;
+    if (selection.length === 0) {
+        figma.notify(rootIds ? 'The reviewed layers no longer exist' : 'Please select nodes to apply template to');
+        return null;
+    }
+    const requested = parseColorInputs(requestedChanges, template.colorNames);
+    if (requested.error) {
+        figma.notify(requested.error, { error: true });
+        return null;
+    }
+    // Base drives the calculations, solve it from another role when it wasn't picked
+    const colorChanges = resolveColorChanges(template, requested.colors, driverRole);
+    if (!colorChanges) {
+        figma.notify('Pick a Base color or a color with a rule to build the palette from', { error: true });
+        return null;
+    }
+    return { template, selection, colorChanges };
+}
+/**
+ * Look up roots by node id, leaving out any that were deleted
+ */
+async function findRootsById(rootIds) {
+    const roots = [];
+    for (const id of rootIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE' && !node.removed) {
+            roots.push(node);
+        }
+    }
+    return roots;
+}
+/**
+ * Find every root stamped with a template on the current page or across the document
+ */
+async function findTemplateRoots(templateId, scope) {
+    const isStamped = (node) => node.getPluginData('templateId') === templateId;
+    if (scope === 'page') {
+        return figma.currentPage.findAll(isStamped);
+    }
+    // Other pages are not loaded with dynamic page access
+    await figma.loadAllPagesAsync();
+    const roots = [];
+    for (const page of figma.root.children) {
+        roots.push(...page.findAll(isStamped));
+    }
+    return roots;
+}
+/**
+ * Pick variants per line when the user leaves it on automatic
+ */
+function autoBatchColumns(count) {
+    if (count <= 4)
+        return 2;
+    if (count <= 9)
+        return 3;
+    return 4; // Max 4 columns for readability
+}
+function validateBatchLayout(layout) {
+    const isCount = (value, max) => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+    if (!layout || !isCount(layout.columns, 50))
+        return 'Columns must be a whole number up to 50, or 0 for automatic';
+    if (!isCount(layout.columnGap, 2000) || !isCount(layout.rowGap, 2000))
+        return 'Gaps must be whole numbers of pixels up to 2000';
+    if (layout.fillOrder !== 'rows' && layout.fillOrder !== 'columns')
+        return `Unknown fill order "${String(layout.fillOrder)}"`;
+    if (layout.placement !== 'beside-source' && layout.placement !== 'new-page')
+        return `Unknown placement "${String(layout.placement)}"`;
+    return null;
+}
+/**
+ * Variant names usable as property values: no separators and no repeats
+ */
+function uniqueVariantNames(names) {
+    const used = new Set();
+    return names.map((name, index) => {
+        const clean = (name || '').replace(/[=,]/g, '-').trim() || String(index + 1);
+        let unique = clean;
+        for (let n = 2; used.has(unique); n++) {
+            unique = `${clean} ${n}`;
+        }
+        used.add(unique);
+        return unique;
+    });
+}
+/**
+ * Clone a source once per variant name and arrange the clones
+ * - ComponentNode: a new ComponentSetNode with a Color variant property
+ * - Variant inside a component set: added to that set with a Color property
+ * - Anything else: an auto-layout wrapper frame with one auto-layout frame per line
+ * @param page - Page for new-page placement, shared by every source of a batch; one is created when missing
+ * @returns The clones in variant order and the node holding them
+ */
+async function createBatchOutput(source, names, layout, rollback, page) {
+    const variantNames = uniqueVariantNames(names);
+    const columns = layout.columns || autoBatchColumns(names.length);
+    const parentSet = source.parent && source.parent.type === 'COMPONENT_SET' ? source.parent : null;
+    const anchor = parentSet || source;
+    let targetParent = anchor.parent || figma.currentPage;
+    if (layout.placement === 'new-page') {
+        targetParent = page || await createOutputPage(`${source.name} variants`, rollback);
+    }
+    const duplicates = variantNames.map(() => source.clone());
+    duplicates.forEach(duplicate => rollback.push(removeNode(duplicate)));
+    if (source.type === 'COMPONENT' && parentSet && layout.placement === 'beside-source') {
+        // Grow the existing set below its current variants
+        duplicates.forEach((duplicate, index) => {
+            duplicate.name = mergedVariantName(source, { [VARIANT_PROPERTY]: variantNames[index] });
+        });
+        positionInGrid(duplicates, columns, layout, 0, parentSet.height + layout.rowGap);
+        const { width, height } = parentSet;
+        rollback.push(() => parentSet.resizeWithoutConstraints(width, height));
+        const right = Math.max(parentSet.width, ...duplicates.map(d => d.x + d.width));
+        const bottom = Math.max(...duplicates.map(d => d.y + d.height));
+        parentSet.resizeWithoutConstraints(right + layout.columnGap, bottom + layout.rowGap);
+        return { duplicates, container: parentSet };
+    }
+    if (source.type === 'COMPONENT') {
+        duplicates.forEach((duplicate, index) => {
+            duplicate.name = mergedVariantName(source, { [VARIANT_PROPERTY]: variantNames[index] });
+            targetParent.appendChild(duplicate); // Clones of a variant start out inside its set
+        });
+        positionInGrid(duplicates, columns, layout, 0, 0);
+        const componentSet = figma.combineAsVariants(duplicates, targetParent);
+        rollback.push(removeNode(componentSet));
+        componentSet.name = `${source.name} colors`;
+        placeBatchContainer(componentSet, anchor, layout);
+        return { duplicates, container: componentSet };
+    }
+    duplicates.forEach((duplicate, index) => {
+        duplicate.name = variantNames[index];
+    });
+    const wrapper = createAutoLayoutFrame(`${source.name} variants`, layout.fillOrder === 'rows' ? 'VERTICAL' : 'HORIZONTAL', layout.fillOrder === 'rows' ? layout.rowGap : layout.columnGap);
+    rollback.push(removeNode(wrapper));
+    targetParent.appendChild(wrapper);
+    for (let start = 0; start < duplicates.length; start += columns) {
+        const lineNumber = start / columns + 1;
+        const line = layout.fillOrder === 'rows'
+            ? createAutoLayoutFrame(`Row ${lineNumber}`, 'HORIZONTAL', layout.columnGap)
+            : createAutoLayoutFrame(`Column ${lineNumber}`, 'VERTICAL', layout.rowGap);
+        rollback.push(removeNode(line));
+        duplicates.slice(start, start + columns).forEach(duplicate => line.appendChild(duplicate));
+        wrapper.appendChild(line);
+    }
+    placeBatchContainer(wrapper, anchor, layout);
+    return { duplicates, container: wrapper };
+}
+/**
+ * Variant name for a clone of a source component: a variant from an existing set keeps
+ * its other properties, with the given ones set or added
+ */
+function mergedVariantName(source, properties) {
+    const merged = Object.assign(Object.assign({}, (source.variantProperties || {})), properties);
+    return Object.entries(merged).map(([property, value]) => `${property}=${value}`).join(', ');
+}
+/**
+ * Position nodes on a grid of equal cells, filling rows or columns first.
+ * Like the wrapper frames, `columns` is the number of nodes per line in the fill direction
+ */
+function positionInGrid(nodes, columns, layout, originX, originY) {
+    const cellWidth = Math.max(...nodes.map(node => node.width));
+    const cellHeight = Math.max(...nodes.map(node => node.height));
+    nodes.forEach((node, index) => {
+        const row = layout.fillOrder === 'rows' ? Math.floor(index / columns) : index % columns;
+        const col = layout.fillOrder === 'rows' ? index % columns : Math.floor(index / columns);
+        node.x = originX + col * (cellWidth + layout.columnGap);
+        node.y = originY + row * (cellHeight + layout.rowGap);
+    });
+}
+function createAutoLayoutFrame(name, direction, spacing) {
+    const frame = figma.createFrame();
+    frame.name = name;
+    frame.layoutMode = direction;
+    frame.primaryAxisSizingMode = 'AUTO';
+    frame.counterAxisSizingMode = 'AUTO';
+    frame.itemSpacing = spacing;
+    frame.fills = [];
+    frame.clipsContent = false;
+    return frame;
+}
+/**
+ * Open a new page for batch output; rolling back returns to the current page and deletes it
+ */
+async function createOutputPage(name, rollback) {
+    const previousPage = figma.currentPage;
+    const page = figma.createPage();
+    page.name = name;
+    rollback.push(async () => {
+        if (figma.currentPage === page) {
+            await figma.setCurrentPageAsync(previousPage);
+        }
+        if (!page.removed)
+            page.remove();
+    });
+    await figma.setCurrentPageAsync(page);
+    return page;
+}
+function pageOf(node) {
+    let current = node;
+    while (current && current.type !== 'PAGE') {
+        current = current.parent;
+    }
+    return current;
+}
+/**
+ * Put batch output to the right of its source, or at the origin of a new page
+ */
+function placeBatchContainer(container, anchor, layout) {
+    if (layout.placement === 'new-page') {
+        // Outputs sharing the page stack top to bottom
+        const others = container.parent ? container.parent.children.filter(node => node !== container) : [];
+        container.x = 0;
+        container.y = others.length > 0 ? Math.max(...others.map(node => node.y + node.height)) + Math.max(layout.rowGap, 100) : 0;
+        return;
+    }
+    container.x = anchor.x + anchor.width + Math.max(layout.columnGap, 100);
+    container.y = anchor.y;
+}
+/**
+ * Validate a matrix spec against the templates it refers to
+ * @returns An error message, or null when the matrix can be generated
+ */
+function validateMatrixSpec(spec, templates) {
+    if (!spec || !templates[spec.templateId])
+        return 'Template not found';
+    if (!Array.isArray(spec.axes) || spec.axes.length === 0 || spec.axes.length > 4)
+        return 'A matrix needs between 1 and 4 axes';
+    const axisNames = new Set();
+    for (const axis of spec.axes) {
+        const name = (axis.name || '').trim();
+        if (!name || /[=,]/.test(name))
+            return 'Every axis needs a name without "=" or ","';
+        if (axisNames.has(name))
+            return `Two axes are called "${name}"`;
+        axisNames.add(name);
+        if (!Array.isArray(axis.values) || axis.values.length === 0)
+            return `Axis "${name}" has no values`;
+        const labels = axis.values.map(value => (value.label || '').trim());
+        if (labels.some(label => !label || /[=,]/.test(label)))
+            return `Values of "${name}" need labels without "=" or ","`;
+        if (new Set(labels).size !== labels.length)
+            return `Values of "${name}" must have different labels`;
+        if (axis.kind === 'role') {
+            if (!axis.role)
+                return `Axis "${name}" needs a role`;
+            for (const value of axis.values) {
+                const color = parseColor(value.color || '');
+                if (color.hex === null)
+                    return `"${value.label}" on axis "${name}": ${color.error}`;
+            }
+        }
+        else if (axis.kind === 'template') {
+            const missing = axis.values.find(value => !value.templateId || !templates[value.templateId]);
+            if (missing)
+                return `Template "${missing.label}" on axis "${name}" was not found`;
+        }
+        else {
+            return `Unknown axis kind "${String(axis.kind)}"`;
+        }
+    }
+    // Every template a cell can use must have the roles the role axes set, or those axes would be dropped silently
+    const templateAxes = spec.axes.filter(axis => axis.kind === 'template');
+    const cellTemplates = templateAxes.length > 0
+        ? templateAxes[templateAxes.length - 1].values.map(value => templates[value.templateId])
+        : [templates[spec.templateId]];
+    for (const axis of spec.axes) {
+        const missing = axis.kind === 'role' && cellTemplates.find(template => !template.originalColors[axis.role]);
+        if (missing)
+            return `Template "${missing.name}" has no ${axis.role} color for axis "${axis.name.trim()}"`;
+    }
+    const count = spec.axes.reduce((total, axis) => total * axis.values.length, 1);
+    if (count > MAX_MATRIX_CELLS)
+        return `A matrix can have at most ${MAX_MATRIX_CELLS} cells, this one has ${count}`;
+    return null;
+}
+/**
+ * Every combination of one value per axis, the last axis changing fastest
+ */
+function matrixCells(axes) {
+    let cells = [[]];
+    for (const axis of axes) {
+        const next = [];
+        for (const cell of cells) {
+            for (const value of axis.values) {
+                next.push([...cell, value]);
+            }
+        }
+        cells = next;
+    }
+    return cells;
+}
+/**
+ * Clone a source once per matrix cell and lay the clones out as a labeled grid:
+ * the last axis along the columns, the other axes along the rows
+ * - ComponentNode: a component set with one variant property per axis, labels around it
+ * - Anything else: an auto-layout frame of labeled rows
+ */
+async function createMatrixOutput(source, axes, cells, layout, rollback) {
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+    const columns = axes[axes.length - 1].values.length;
+    const rowLabel = (row) => cells[row * columns].slice(0, -1).map(value => value.label).join(' / ');
+    const columnLabels = axes[axes.length - 1].values.map(value => value.label);
+    const rows = cells.length / columns;
+    const parentSet = source.parent && source.parent.type === 'COMPONENT_SET' ? source.parent : null;
+    const anchor = parentSet || source;
+    let targetParent = anchor.parent || figma.currentPage;
+    if (layout.placement === 'new-page') {
+        targetParent = await createOutputPage(`${source.name} matrix`, rollback);
+    }
+    const duplicates = cells.map(() => source.clone());
+    duplicates.forEach(duplicate => rollback.push(removeNode(duplicate)));
+    const createLabel = (text, width) => {
+        const label = figma.createText();
+        rollback.push(removeNode(label));
+        label.characters = text;
+        label.fontSize = 12;
+        label.textAutoResize = 'HEIGHT';
+        label.resize(Math.max(width, 1), label.height);
+        return label;
+    };
+    if (source.type === 'COMPONENT') {
+        duplicates.forEach((duplicate, index) => {
+            const properties = {};
+            cells[index].forEach((value, axis) => {
+                properties[axes[axis].name] = value.label;
+            });
+            duplicate.name = mergedVariantName(source, properties);
+            targetParent.appendChild(duplicate);
+        });
+        positionInGrid(duplicates, columns, Object.assign(Object.assign({}, layout), { fillOrder: 'rows' }), 0, 0);
+        const componentSet = figma.combineAsVariants(duplicates, targetParent);
+        rollback.push(removeNode(componentSet));
+        componentSet.name = `${source.name} matrix`;
+        placeBatchContainer(componentSet, anchor, layout);
+        // Component sets only hold components, so labels sit next to the set
+        const cellWidth = Math.max(...duplicates.map(d => d.width));
+        const cellHeight = Math.max(...duplicates.map(d => d.height));
+        const labels = [];
+        columnLabels.forEach((text, column) => {
+            const label = createLabel(text, cellWidth);
+            targetParent.appendChild(label);
+            label.x = componentSet.x + column * (cellWidth + layout.columnGap);
+            label.y = componentSet.y - label.height - 8;
+            labels.push(label);
+        });
+        if (axes.length > 1) {
+            for (let row = 0; row < rows; row++) {
+                const label = createLabel(rowLabel(row), 120);
+                targetParent.appendChild(label);
+                label.x = componentSet.x - 128;
+                label.y = componentSet.y + row * (cellHeight + layout.rowGap);
+                labels.push(label);
+            }
+        }
+        const group = figma.group([componentSet, ...labels], targetParent);
+        rollback.push(removeNode(group));
+        group.name = `${source.name} matrix`;
+        return { duplicates, container: componentSet };
+    }
+    duplicates.forEach((duplicate, index) => {
+        duplicate.name = cells[index].map(value => value.label).join(' / ');
+    });
+    const cellWidth = Math.max(...duplicates.map(d => d.width));
+    const labelWidth = axes.length > 1 ? 120 : 0;
+    const wrapper = createAutoLayoutFrame(`${source.name} matrix`, 'VERTICAL', layout.rowGap);
+    rollback.push(removeNode(wrapper));
+    targetParent.appendChild(wrapper);
+    const header = createAutoLayoutFrame('Columns', 'HORIZONTAL', layout.columnGap);
+    rollback.push(removeNode(header));
+    if (labelWidth)
+        header.appendChild(createLabel('', labelWidth));
+    columnLabels.forEach(text => header.appendChild(createLabel(text, cellWidth)));
+    wrapper.appendChild(header);
+    for (let row = 0; row < rows; row++) {
+        const line = createAutoLayoutFrame(rowLabel(row) || 'Row', 'HORIZONTAL', layout.columnGap);
+        rollback.push(removeNode(line));
+        if (labelWidth)
+            line.appendChild(createLabel(rowLabel(row), labelWidth));
+        duplicates.slice(row * columns, (row + 1) * columns).forEach(duplicate => line.appendChild(duplicate));
+        wrapper.appendChild(line);
+    }
+    placeBatchContainer(wrapper, anchor, layout);
+    return { duplicates, container: wrapper };
+}
+/**
+ * Pick the node an apply should write to when the root is an instance
+ * @param rollback - Receives a step switching the instance back when it is switched
+ * @returns The root, its main component, or null when the instance was switched
+ * to a variant that already has these colors
+ */
+async function instanceApplyTarget(root, finalColors, instanceMode, dryRun = false, rollback = []) {
+    if (root.type !== 'INSTANCE')
+        return root;
+    const mainComponent = await root.getMainComponentAsync();
+    if (!mainComponent)
+        return root;
+    if (switchToMatchingVariant(root, mainComponent, finalColors, dryRun, rollback))
+        return null;
+    // Library components can't be edited from this file
+    if (instanceMode === 'main-component' && !mainComponent.remote)
+        return mainComponent;
+    return root;
+}
+/**
+ * Switch an instance to the sibling variant whose role colors already match,
+ * through its exposed variant property. A dry run only reports whether it would
+ */
+function switchToMatchingVariant(instance, mainComponent, finalColors, dryRun = false, rollback = []) {
+    const componentSet = mainComponent.parent && mainComponent.parent.type === 'COMPONENT_SET' ? mainComponent.parent : null;
+    if (!componentSet || !(VARIANT_PROPERTY in componentSet.componentPropertyDefinitions))
+        return false;
+    const match = componentSet.children.find(variant => {
+        const colors = currentRoleColors(variant);
+        const shared = Object.keys(finalColors).filter(role => colors[role]);
+        return shared.length > 0 && shared.every(role => colors[role] === finalColors[role].toLowerCase());
+    });
+    const value = match && match.variantProperties && match.variantProperties[VARIANT_PROPERTY];
+    if (!value)
+        return false;
+    if (!dryRun) {
+        const previous = mainComponent.variantProperties && mainComponent.variantProperties[VARIANT_PROPERTY];
+        instance.setProperties({ [VARIANT_PROPERTY]: value });
+        if (previous) {
+            rollback.push(() => {
+                if (!instance.removed)
+                    instance.setProperties({ [VARIANT_PROPERTY]: previous });
+            });
+        }
+    }
+    return true;
+}
+/**
+ * Colors a root currently shows for each role, read from the first slot bound to it
+ */
+function currentRoleColors(root) {
+    const colors = {};
+    for (const [role, bindings] of Object.entries(indexRoles(root, true))) {
+        const color = bindings.length > 0 && getSlotColor(bindings[0].node, bindings[0].slot);
+        if (color) {
+            colors[role] = rgbToHex(color, color.a);
+        }
+    }
+    return colors;
+}
+/**
+ * Apply template to a component using anchor-based color changes
+ * Similar to the frontend logic but using backend OKLCH calculations
+ */
+function applyTemplateToRootWithAnchor(root, template, anchorRole, newAnchorColor) {
+    const finalColors = computeColorsWithAnchor(template, anchorRole, newAnchorColor);
+    if (!finalColors) {
+        console.warn('No original color found for anchor role:', anchorRole);
+        return;
+    }
+    applyRoleColors(root, finalColors);
+    // Store template reference
+    root.setPluginData('templateId', template.id);
+    root.setPluginData('anchorColor', anchorRole);
+    root.setPluginData('anchorValue', newAnchorColor);
+    root.setPluginData('baseColor', '');
+    root.setPluginData('colorChanges', '');
+}
+/**
+ * Dry run of applyTemplateToRootWithAnchor
+ * @returns null when the template has no original color for the anchor role
+ */
+function dryRunTemplateOnRootWithAnchor(root, template, anchorRole, newAnchorColor) {
+    const finalColors = computeColorsWithAnchor(template, anchorRole, newAnchorColor);
+    return finalColors && diffRoleColors(root, template, finalColors);
+}
+/**
+ * Re-apply a template's current rules to a root from the anchor stored on it
+ * @returns false when the root has no usable anchor for this template
+ */
+function reapplyTemplateToRoot(root, template) {
+    const source = variantSource(root);
+    if (!source)
+        return false;
+    if (source.shifted) {
+        if (!template.originalColors[source.role]) {
+            return false;
+        }
+        applyTemplateToRootWithAnchor(root, template, source.role, source.color);
+        return true;
+    }
+    applyTemplateToRootWithChanges(root, template, Object.assign(Object.assign({}, source.colorChanges), { Base: source.color }));
+    return true;
+}
+/**
+ * Read the base or anchor a root was last generated from
+ * @returns null when the root carries no stored color
+ */
+function variantSource(root) {
+    const anchorRole = root.getPluginData('anchorColor');
+    const anchorValue = root.getPluginData('anchorValue');
+    if (anchorRole && anchorValue) {
+        return { role: anchorRole, color: anchorValue, shifted: true };
+    }
+    const baseColor = root.getPluginData('baseColor');
+    if (!baseColor)
+        return null;
+    const stored = root.getPluginData('colorChanges');
+    let colorChanges = {};
+    try {
+        colorChanges = stored ? JSON.parse(stored) : {};
+    }
+    catch (error) {
+        console.warn('Ignoring unreadable color changes on', root.name, error);
+    }
+    return { role: 'Base', color: baseColor, shifted: false, colorChanges };
+}
+/**
+ * Color the template derives for one role-bound slot of a root
+ */
+function expectedSlotColor(root, node, slot, template) {
+    const role = getRole(node, slot);
+    const source = variantSource(root);
+    const colors = source && computeVariantColors(template, source);
+    return role && colors && colors[role] || null;
+}
+/**
+ * Whether a layer's color is further from the template's than the tolerance, in color or opacity
+ */
+function isDrifted(current, expected, tolerance) {
+    return deltaEOK(hexToOKLCH(current), hexToOKLCH(expected)) > tolerance ||
+        Math.abs(hexAlpha(current) - hexAlpha(expected)) > 0.01;
+}
+/**
+ * Dry run of reapplyTemplateToRoot
+ * @returns null when the root has no usable anchor for this template
+ */
+function dryRunReapplyTemplateToRoot(root, template) {
+    const source = variantSource(root);
+    if (!source)
+        return null;
+    return source.shifted
+        ? dryRunTemplateOnRootWithAnchor(root, template, source.role, source.color)
+        : dryRunTemplateOnRootWithChanges(root, template, Object.assign(Object.assign({}, source.colorChanges), { Base: source.color }));
+}
+function applyTemplateToRootWithChanges(root, template, colorChanges) {
+    const { Base: baseColor } = colorChanges, overrides = __rest(colorChanges, ["Base"]);
+    applyRoleColors(root, computeColorsWithChanges(template, colorChanges));
+    // Store template reference on root, with the roles the user set so re-applies keep them
+    root.setPluginData('templateId', template.id);
+    root.setPluginData('baseColor', baseColor);
+    root.setPluginData('colorChanges', Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : '');
+    root.setPluginData('anchorColor', '');
+    root.setPluginData('anchorValue', '');
+}
+/**
+ * Dry run of applyTemplateToRootWithChanges
+ */
+function dryRunTemplateOnRootWithChanges(root, template, colorChanges) {
+    return diffRoleColors(root, template, computeColorsWithChanges(template, colorChanges));
+}
+/**
+ * Write final role colors to every slot bound to those roles within a root
+ */
+function applyRoleColors(root, finalColors) {
+    const roleIndex = indexRoles(root);
+    Object.entries(finalColors).forEach(([role, color]) => {
+        const bindings = roleIndex[role] || [];
+        for (const { node, slot } of bindings) {
+            applyColorToNode(node, color, slot);
+        }
+    });
+}
+/**
+ * Compare what every role-bound slot in a root shows with what applyRoleColors would write,
+ * flagging slots it would skip and template roles nothing in the root is bound to
+ */
+function diffRoleColors(root, template, finalColors) {
+    const roleIndex = indexRoles(root, true);
+    const slots = [];
+    for (const [role, bindings] of Object.entries(roleIndex)) {
+        for (const { node, slot } of bindings) {
+            const color = getSlotColor(node, slot);
+            const current = color && rgbToHex(color, color.a);
+            const diff = { nodeId: node.id, nodeName: node.name, role, slot: describeSlot(node, slot), paintSlot: slot, current, next: null, deltaE: 0 };
+            const skipped = finalColors[role] ? slotSkipReason(node, slot) : `${role} is not in "${template.name}"`;
+            if (skipped) {
+                diff.skipped = skipped;
+            }
+            else {
+                // Plain #rrggbb keeps the slot's opacity, like applyColorToNode does
+                const next = finalColors[role];
+                diff.next = hasAlpha(next) || !current ? next : withAlpha(next, hexAlpha(current));
+                diff.deltaE = current ? deltaEOK(hexToOKLCH(current), hexToOKLCH(diff.next)) : 0;
+            }
+            slots.push(diff);
+        }
+    }
+    return {
+        rootId: root.id,
+        rootName: root.name,
+        slots,
+        missingRoles: Object.keys(finalColors).filter(role => !roleIndex[role])
+    };
+}
+/**
+ * Why applyColorToNode would leave a slot unchanged
+ * @returns null when it recolors the slot
+ */
+function slotSkipReason(node, slot) {
+    const label = describeSlot(node, slot);
+    if (!(slot.kind in node))
+        return `${node.type.toLowerCase()} layers have no ${slot.kind}`;
+    const paint = getSlotPaints(node, slot.kind)[slot.index];
+    if (!paint)
+        return `${label} is empty`;
+    if (slot.kind === 'effects') {
+        return isShadowEffect(paint) ? null : `${label} is no longer a shadow`;
+    }
+    if (slot.stop !== undefined) {
+        return isGradientPaint(paint) && paint.gradientStops[slot.stop] ? null : `${label} is no longer a gradient stop`;
+    }
+    if (paint.type === 'SOLID')
+        return null;
+    const kinds = {
+        GRADIENT_LINEAR: 'a linear gradient',
+        GRADIENT_RADIAL: 'a radial gradient',
+        GRADIENT_ANGULAR: 'an angular gradient',
+        GRADIENT_DIAMOND: 'a diamond gradient',
+        IMAGE: 'an image',
+        VIDEO: 'a video',
+        PATTERN: 'a pattern'
+    };
+    return `${label} is ${kinds[paint.type] || paint.type.toLowerCase()}, not a solid color`;
+}
+/**
+ * Recolor a single fill, stroke, gradient stop or effect slot, keeping its blend mode.
+ * An #rrggbbaa color also sets the slot's opacity; plain #rrggbb keeps the existing
+ * opacity so templates saved before opacity was captured don't flatten overlays
+ */
+/**
+ * Drop a paint's, stop's or shadow's color variable so a raw color written to it shows
+ */
+function unbindColor(value) {
+    if (!value.boundVariables || !value.boundVariables.color)
+        return value;
+    const _a = value.boundVariables, { color: _color } = _a, others = __rest(_a, ["color"]);
+    return Object.assign(Object.assign({}, value), { boundVariables: others });
+}
+function applyColorToNode(node, hexColor, slot = FILL_SLOT) {
+    if (!(slot.kind in node))
+        return;
+    const { r, g, b } = hexToRgb(hexColor);
+    const alpha = hasAlpha(hexColor) ? hexAlpha(hexColor) : null;
+    if (slot.kind === 'effects') {
+        const effects = [...getSlotPaints(node, 'effects')];
+        const effect = effects[slot.index];
+        if (effect && isShadowEffect(effect)) {
+            effects[slot.index] = Object.assign(Object.assign({}, unbindColor(effect)), { color: { r, g, b, a: alpha !== null && alpha !== void 0 ? alpha : effect.color.a } });
+            node.effects = effects;
+        }
+        return;
+    }
+    const paints = [...getSlotPaints(node, slot.kind)];
+    const paint = paints[slot.index];
+    let recolored = false;
+    if (paint && slot.stop !== undefined && isGradientPaint(paint) && paint.gradientStops[slot.stop]) {
+        // Only the stop color changes, position and the transform are kept
+        const gradientStops = paint.gradientStops.map((gradientStop, stop) => stop === slot.stop ? Object.assign(Object.assign({}, unbindColor(gradientStop)), { color: { r, g, b, a: alpha !== null && alpha !== void 0 ? alpha : gradientStop.color.a } }) : gradientStop);
+        paints[slot.index] = Object.assign(Object.assign({}, paint), { gradientStops });
+        recolored = true;
+    }
+    else if (paint && slot.stop === undefined && paint.type === 'SOLID') {
+        paints[slot.index] = Object.assign(Object.assign({}, unbindColor(paint)), { color: { r, g, b }, opacity: alpha !== null && alpha !== void 0 ? alpha : paint.opacity });
+        recolored = true;
+    }
+    if (recolored) {
+        if (slot.kind === 'fills') {
+            node.fills = paints;
+        }
+        else {
+            node.strokes = paints;
+        }
+    }
+}
+// =============================================================================
+// OPERATIONS
+// =============================================================================
+/**
+ * Run an apply or batch as one undo step, in chunks that report progress and can be cancelled.
+ * When the work throws, or is cancelled with rollbackOnCancel, every rollback step runs in reverse
+ * @returns The per-root result sent to the UI, or null when another operation is still running
+ */
+async function runOperation(label, total, rollbackOnCancel, work) {
+    if (activeOperation) {
+        figma.notify(`Wait for ${activeOperation.label} to finish or cancel it`, { error: true });
+        return null;
+    }
+    figma.commitUndo(); // Keep earlier edits out of this operation's undo step
+    const operation = { label, total, done: 0, cancelled: false, lastYield: Date.now(), roots: [], rollback: [] };
+    activeOperation = operation;
+    postOperationProgress(operation);
+    let error;
+    try {
+        await work(operation);
+    }
+    catch (workError) {
+        error = errorMessage(workError);
+        console.error('ArtyColors Error:', label, workError);
+    }
+    const rolledBack = error !== undefined || (operation.cancelled && rollbackOnCancel);
+    if (rolledBack) {
+        await rollBack(operation.rollback);
+        for (const root of operation.roots) {
+            if (root.status === 'applied')
+                root.status = 'rolled-back';
+        }
+    }
+    const failed = operation.roots.filter(root => root.status === 'failed').length;
+    let status = 'completed';
+    if (error !== undefined || (failed > 0 && failed === operation.roots.length)) {
+        status = 'failed';
+    }
+    else if (operation.cancelled) {
+        status = 'cancelled';
+    }
+    else if (failed > 0) {
+        status = 'partial';
+    }
+    activeOperation = null;
+    figma.commitUndo();
+    const result = { operation: label, status, roots: operation.roots, error };
+    figma.ui.postMessage({ type: 'operation-result', result });
+    if (status !== 'completed') {
+        figma.notify(describeOperationResult(result, rolledBack), { error: status !== 'cancelled' });
+    }
+    return result;
+}
+/**
+ * Count finished work; once a chunk's time is spent, report progress and yield
+ * so the UI can repaint and deliver a cancel
+ */
+async function advanceOperation(operation, units = 1) {
+    operation.done += units;
+    if (Date.now() - operation.lastYield < OPERATION_CHUNK_MS)
+        return;
+    postOperationProgress(operation);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    operation.lastYield = Date.now();
+}
+function postOperationProgress(operation) {
+    figma.ui.postMessage({ type: 'operation-progress', label: operation.label, done: operation.done, total: operation.total });
+}
+function handleCancelOperation() {
+    if (activeOperation) {
+        activeOperation.cancelled = true;
+    }
+}
+/**
+ * Run rollback steps newest first, continuing past steps that fail
+ */
+async function rollBack(steps) {
+    for (let i = steps.length - 1; i >= 0; i--) {
+        try {
+            await steps[i]();
+        }
+        catch (error) {
+            console.error('ArtyColors Error: rollback step failed', error);
+        }
+    }
+}
+function removeNode(node) {
+    return () => {
+        if (!node.removed)
+            node.remove();
+    };
+}
+/**
+ * Capture the paints of every layer bound to a role within a root, the root's template stamp
+ * and the role assignments of its whole subtree
+ * @returns A step that puts them back
+ */
+function snapshotRoot(root) {
+    const nodes = [root];
+    for (const bindings of Object.values(indexRoles(root, true))) {
+        for (const { node } of bindings) {
+            if (nodes.indexOf(node) === -1)
+                nodes.push(node);
+        }
+    }
+    const saved = nodes.map(node => ({
+        node,
+        fills: 'fills' in node && node.fills !== figma.mixed ? node.fills : null, // Text with mixed fills is left alone
+        strokes: 'strokes' in node ? node.strokes : [],
+        effects: 'effects' in node ? node.effects : []
+    }));
+    const stampKeys = ['templateId', 'baseColor', 'colorChanges', 'anchorColor', 'anchorValue'];
+    const stamp = stampKeys.map(key => root.getPluginData(key));
+    // Roles inferred from layer names are saved while applying, anywhere in the subtree
+    const subtree = [root, ...('findAll' in root ? root.findAll() : [])];
+    const roles = subtree.map(node => {
+        const keys = roleDataKeys(node);
+        return { node, keys, values: keys.map(key => node.getPluginData(key)) };
     });
+    return () => {
+        for (const { node, fills, strokes, effects } of saved) {
+            if (node.removed)
+                continue;
+            if ('fills' in node && fills)
+                node.fills = fills;
+            if ('strokes' in node)
+                node.strokes = strokes;
+            if ('effects' in node)
+                node.effects = effects;
+        }
+        stampKeys.forEach((key, index) => root.setPluginData(key, stamp[index]));
+        for (const { node, keys, values } of roles) {
+            if (node.removed)
+                continue;
+            for (const key of roleDataKeys(node)) {
+                if (keys.indexOf(key) === -1)
+                    node.setPluginData(key, '');
+            }
+            keys.forEach((key, index) => node.setPluginData(key, values[index]));
+        }
+    };
 }
-async function handleUpdateRole(nodeId, role) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (node) {
-        markRole(node, role);
-        figma.notify(`Updated ${node.name} to role ${role}`);
+/**
+ * Plugin data keys holding the role of one of a node's paint slots
+ */
+function roleDataKeys(node) {
+    return node.getPluginDataKeys().filter(key => key === 'colorRole' || key.indexOf('colorRole:') === 0);
+}
+function rootResult(node, status, detail) {
+    return { nodeId: node.id, name: node.name, status, detail };
+}
+function errorMessage(error) {
+    return error instanceof Error ? error.message : String(error);
+}
+/**
+ * One-line summary of an operation that did not complete
+ */
+function describeOperationResult(result, rolledBack) {
+    const count = (status) => result.roots.filter(root => root.status === status).length;
+    const firstFailure = result.roots.find(root => root.status === 'failed');
+    const undone = rolledBack ? ', nothing was changed' : '';
+    if (result.status === 'cancelled') {
+        return `${result.operation} cancelled${undone || `, ${count('applied') + count('switched')} of ${result.roots.length} layers done`}`;
+    }
+    if (result.status === 'partial') {
+        return `${result.operation}: ${count('failed')} of ${result.roots.length} layers failed (${firstFailure && firstFailure.detail})`;
     }
+    return `${result.operation} failed: ${result.error || (firstFailure && firstFailure.detail)}${undone}`;
 }
-async function handleCreateTemplate(templateName, layerColors) {
-    if (layerColors.length === 0) {
-        figma.notify('No colors to create template from');
-        return;
+// =============================================================================
+// DESIGN TOKEN BINDING
+// =============================================================================
+/**
+ * Create or update the Variables or Paint Styles holding one variant's role colors
+ * @param variantName - Variable mode name, or the style group name for styles
+ * @param rollback - Receives steps deleting what was created and restoring what was changed
+ * @returns null when colors should stay raw values
+ */
+async function syncRoleTokens(template, variantName, colors, tokenMode, rollback = []) {
+    if (tokenMode === 'none')
+        return null;
+    if (figma.editorType !== 'figma') {
+        figma.notify('Variables and styles are only available in Figma design files, colors were applied as raw values');
+        return null;
     }
-    // Find the base color
-    const baseColor = layerColors.find(lc => lc.role === 'Base');
-    if (!baseColor) {
-        figma.notify('No Base color found. Please assign a Base role.');
-        return;
+    return tokenMode === 'variables'
+        ? await syncColorVariables(template, variantName, colors, rollback)
+        : await syncColorStyles(template, variantName, colors, rollback);
+}
+/**
+ * One local collection per template, one mode per variant and one variable per role
+ */
+async function syncColorVariables(template, modeName, colors, rollback) {
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    let collection = collections.find(c => c.getPluginData('templateId') === template.id);
+    // Deleting a new collection takes its modes and variables with it
+    let created = false;
+    if (!collection) {
+        const newCollection = figma.variables.createVariableCollection(`ArtyColors / ${template.name}`);
+        newCollection.setPluginData('templateId', template.id);
+        newCollection.renameMode(newCollection.modes[0].modeId, modeName);
+        rollback.push(() => newCollection.remove());
+        collection = newCollection;
+        created = true;
     }
-    const template = {
-        id: generateId(),
-        name: templateName,
-        colorNames: {},
-        originalColors: {},
-        roles: {}
-    };
-    // Store display names, original colors, and compute rules for each color
-    for (const layerColor of layerColors) {
-        const displayName = layerColor.displayName || layerColor.layerName;
-        template.colorNames[layerColor.role] = displayName;
-        template.originalColors[layerColor.role] = layerColor.color;
-        if (layerColor.role !== 'Base') {
-            template.roles[layerColor.role] = computeRelativeRule(baseColor.color, layerColor.color);
+    const existingMode = collection.modes.find(mode => mode.name === modeName);
+    const modeId = existingMode ? existingMode.modeId : collection.addMode(modeName);
+    if (!existingMode) {
+        const target = collection;
+        rollback.push(() => target.removeMode(modeId));
+    }
+    // Variables remember their role so renamed colors keep the same variable
+    const variablesByRole = {};
+    for (const variableId of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        const role = variable && variable.getPluginData('role');
+        if (variable && role) {
+            variablesByRole[role] = variable;
         }
     }
-    // Store template
-    await storeTemplate(template);
-    figma.notify(`Template "${templateName}" created successfully`);
-    // Send success message to UI for toast
-    figma.ui.postMessage({
-        type: 'template-created',
-        templateName
-    });
-    await handleGetTemplates(); // Refresh UI
-}
-async function handleApplyTemplate(templateId, colorChanges) {
-    const template = await getTemplate(templateId);
-    if (!template) {
-        figma.notify('Template not found');
-        return;
+    const tokens = {};
+    for (const [role, color] of Object.entries(colors)) {
+        let variable = variablesByRole[role];
+        if (!variable) {
+            const newVariable = figma.variables.createVariable(tokenName(template, role), collection, 'COLOR');
+            newVariable.setPluginData('role', role);
+            if (!created) {
+                // Removing the variable takes back the values written to every mode
+                rollback.push(() => newVariable.remove());
+            }
+            // Variants already on other modes get this color too instead of Figma's default
+            for (const mode of collection.modes) {
+                newVariable.setValueForMode(mode.modeId, Object.assign(Object.assign({}, hexToRgb(color)), { a: hexAlpha(color) }));
+            }
+            variable = newVariable;
+        }
+        else if (existingMode) {
+            const existing = variable;
+            const previous = existing.valuesByMode[modeId];
+            if (previous !== undefined) {
+                rollback.push(() => existing.setValueForMode(modeId, previous));
+            }
+        }
+        variable.setValueForMode(modeId, Object.assign(Object.assign({}, hexToRgb(color)), { a: hexAlpha(color) }));
+        tokens[role] = variable;
     }
-    const selection = figma.currentPage.selection;
-    if (selection.length === 0) {
-        figma.notify('Please select nodes to apply template to');
-        return;
+    return { mode: 'variables', tokens, collection, modeId };
+}
+/**
+ * One local paint style per role, grouped as "ArtyColors/<template>/<variant>/<color>"
+ */
+async function syncColorStyles(template, variantName, colors, rollback) {
+    const styles = await figma.getLocalPaintStylesAsync();
+    const tokens = {};
+    for (const [role, color] of Object.entries(colors)) {
+        const name = `ArtyColors/${template.name}/${variantName}/${tokenName(template, role)}`;
+        let style = styles.find(existing => existing.name === name);
+        if (!style) {
+            const newStyle = figma.createPaintStyle();
+            newStyle.name = name;
+            rollback.push(() => newStyle.remove());
+            style = newStyle;
+        }
+        else {
+            const existing = style;
+            const previous = existing.paints;
+            rollback.push(() => {
+                existing.paints = previous;
+            });
+        }
+        style.paints = [{ type: 'SOLID', color: hexToRgb(color), opacity: hexAlpha(color) }];
+        tokens[role] = style;
     }
-    // Extract base color (required for calculations)
-    const baseColor = colorChanges['Base'];
-    if (!baseColor) {
-        figma.notify('Base color is required');
-        return;
+    return { mode: 'styles', tokens };
+}
+/**
+ * Bind every role slot within a root to its Variable or Paint Style
+ * Slots a token cannot represent without losing alpha or blending keep their raw color
+ */
+async function bindRoleTokens(root, tokenSet) {
+    if (tokenSet.collection && tokenSet.modeId && 'setExplicitVariableModeForCollection' in root) {
+        root.setExplicitVariableModeForCollection(tokenSet.collection, tokenSet.modeId);
     }
-    for (const root of selection) {
-        applyTemplateToRootWithChanges(root, template, colorChanges);
+    const roleIndex = indexRoles(root);
+    for (const [role, token] of Object.entries(tokenSet.tokens)) {
+        for (const { node, slot } of roleIndex[role] || []) {
+            if (tokenSet.mode === 'variables') {
+                bindVariableToSlot(node, slot, token);
+            }
+            else {
+                await bindStyleToSlot(node, slot, token);
+            }
+        }
     }
-    figma.notify('Template applied successfully');
 }
-async function handleBatchGenerate(templateId, variants) {
-    const template = await getTemplate(templateId);
-    if (!template) {
-        figma.notify('Template not found');
+function bindVariableToSlot(node, slot, variable) {
+    if (slot.kind === 'effects') {
+        const effects = [...getSlotPaints(node, 'effects')];
+        const effect = effects[slot.index];
+        // Variables carry their own alpha, so translucent shadows stay raw
+        if (effect && isShadowEffect(effect) && effect.color.a === 1) {
+            effects[slot.index] = figma.variables.setBoundVariableForEffect(effect, 'color', variable);
+            node.effects = effects;
+        }
         return;
     }
-    const selection = figma.currentPage.selection;
-    if (selection.length === 0) {
-        figma.notify('Please select a component to duplicate');
+    const paints = [...getSlotPaints(node, slot.kind)];
+    const paint = paints[slot.index];
+    if (paint && slot.stop !== undefined && isGradientPaint(paint)) {
+        const gradientStop = paint.gradientStops[slot.stop];
+        if (!gradientStop || gradientStop.color.a !== 1)
+            return;
+        const gradientStops = paint.gradientStops.map((existing, stop) => stop === slot.stop ? Object.assign(Object.assign({}, existing), { boundVariables: { color: figma.variables.createVariableAlias(variable) } }) : existing);
+        paints[slot.index] = Object.assign(Object.assign({}, paint), { gradientStops });
+    }
+    else if (paint && slot.stop === undefined && paint.type === 'SOLID' && (paint.opacity === undefined || paint.opacity === 1)) {
+        // Translucent solids stay raw too, the variable's alpha would stack on the paint opacity
+        paints[slot.index] = figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+    }
+    else {
         return;
     }
-    if (variants.length === 0) {
-        figma.notify('Please add variants to generate');
+    if (slot.kind === 'fills') {
+        node.fills = paints;
+    }
+    else {
+        node.strokes = paints;
+    }
+}
+/**
+ * Styles replace the whole fill or stroke list, so only bind nodes whose single
+ * solid paint is exactly the style at full opacity
+ */
+async function bindStyleToSlot(node, slot, style) {
+    if (slot.kind === 'effects' || slot.index !== 0 || slot.stop !== undefined)
         return;
+    const paints = getSlotPaints(node, slot.kind);
+    const paint = paints[0];
+    const isPlainSolid = paints.length === 1 && paint.type === 'SOLID' &&
+        (paint.opacity === undefined || paint.opacity === 1) &&
+        (paint.blendMode === undefined || paint.blendMode === 'NORMAL');
+    if (!isPlainSolid)
+        return;
+    if (slot.kind === 'fills' && 'setFillStyleIdAsync' in node) {
+        await node.setFillStyleIdAsync(style.id);
     }
-    const sourceComponent = selection[0];
-    // Create grid of duplicates with auto-calculated layout
-    const duplicates = duplicateInGrid(sourceComponent, variants.length);
-    // Apply template with different anchor colors to each duplicate
-    for (let i = 0; i < duplicates.length && i < variants.length; i++) {
-        const duplicate = duplicates[i];
-        const variant = variants[i];
-        // Apply template using anchor-based system
-        applyTemplateToRootWithAnchor(duplicate, template, variant.anchorColor, variant.hexColor);
-        // Set the component name to the variant name
-        duplicate.name = variant.name;
+    else if (slot.kind === 'strokes' && 'setStrokeStyleIdAsync' in node) {
+        await node.setStrokeStyleIdAsync(style.id);
     }
-    // Select all the new components
-    figma.currentPage.selection = duplicates;
-    figma.viewport.scrollAndZoomIntoView(duplicates);
-    figma.notify(`Generated ${duplicates.length} variants in auto-grid layout`);
 }
-async function handleGetTemplates() {
-    const templates = await getAllTemplates();
-    figma.ui.postMessage({
-        type: 'templates-updated',
-        templates
-    });
+/**
+ * Token name for a role, using its color name where one was given
+ */
+function tokenName(template, role) {
+    // Variable names cannot contain dots or braces
+    return (template.colorNames[role] || role).replace(/[.{}]/g, '-').trim() || role;
 }
 // =============================================================================
-// UTILITY FUNCTIONS
+// DESIGN TOKEN EXPORT
 // =============================================================================
-function rgbToHex(color) {
-    const toHex = (c) => Math.round(c * 255).toString(16).padStart(2, '0');
-    return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
-}
-function generateId() {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+/**
+ * Compute every role color for one palette
+ * A Base driver goes through the relative rules, any other role uses the anchor shift
+ */
+function computePaletteColors(template, palette) {
+    if (palette.anchorColor === 'Base') {
+        return computeColorsWithChanges(template, { Base: palette.hexColor });
+    }
+    return computeColorsWithAnchor(template, palette.anchorColor, palette.hexColor);
 }
 /**
- * Duplicate a node in an automatically calculated grid layout
- * @param node - The node to duplicate
- * @param count - Total number of copies to create
- * @param columns - Number of columns (optional, will auto-calculate if not provided)
- * @param gap - Gap between items in pixels (optional, defaults to 50)
- * @returns Array of duplicated nodes
- */
-function duplicateInGrid(node, count, columns, gap = 50) {
-    const duplicates = [];
-    // Auto-calculate optimal columns if not provided
-    if (!columns) {
-        if (count <= 2)
-            columns = 2;
-        else if (count <= 4)
-            columns = 2;
-        else if (count <= 9)
-            columns = 3;
-        else
-            columns = 4; // Max 4 columns for readability
-    }
-    // Get node dimensions for positioning
-    const nodeWidth = 'width' in node ? node.width : 100;
-    const nodeHeight = 'height' in node ? node.height : 100;
-    // Calculate grid positions
-    for (let i = 0; i < count; i++) {
-        const clone = node.clone();
-        // Calculate grid position
-        const row = Math.floor(i / columns);
-        const col = i % columns;
-        // Position the clone
-        const x = node.x + col * (nodeWidth + gap);
-        const y = node.y + row * (nodeHeight + gap);
-        clone.x = x;
-        clone.y = y;
-        // Add to current page
-        figma.currentPage.appendChild(clone);
-        duplicates.push(clone);
-    }
-    return duplicates;
+ * Lowercase, dash-separated name usable in token paths, CSS and Tailwind keys
+ */
+function tokenSlug(name) {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
 }
 /**
- * Apply template to a component using anchor-based color changes
- * Similar to the frontend logic but using backend OKLCH calculations
+ * Number repeated slugs ("text", "text-2") so names that differ only in case or punctuation don't overwrite each other
  */
-function applyTemplateToRootWithAnchor(root, template, anchorRole, newAnchorColor) {
-    const roleIndex = indexRoles(root);
-    const originalAnchorColor = template.originalColors[anchorRole];
-    if (!originalAnchorColor) {
-        console.warn('No original color found for anchor role:', anchorRole);
-        return;
-    }
-    // Calculate color shift in OKLCH space
-    const originalOKLCH = hexToOKLCH(originalAnchorColor);
-    const newOKLCH = hexToOKLCH(newAnchorColor);
-    const shift = {
-        L: newOKLCH.L - originalOKLCH.L,
-        C: newOKLCH.C - originalOKLCH.C,
-        H: newOKLCH.H - originalOKLCH.H
-    };
-    // Handle hue wraparound
-    if (shift.H > 180)
-        shift.H -= 360;
-    if (shift.H < -180)
-        shift.H += 360;
-    // Apply shift to all colors in the template
-    Object.entries(template.originalColors).forEach(([role, originalColor]) => {
-        let finalColor;
-        if (role === anchorRole) {
-            // Use the exact anchor color
-            finalColor = newAnchorColor;
+function uniqueSlugs(slugs) {
+    const used = new Set();
+    return slugs.map(slug => {
+        let unique = slug;
+        for (let n = 2; used.has(unique); n++) {
+            unique = `${slug}-${n}`;
         }
-        else {
-            // Apply proportional shift to this color
-            const originalRoleOKLCH = hexToOKLCH(originalColor);
-            const shiftedOKLCH = {
-                L: Math.max(0, Math.min(1, originalRoleOKLCH.L + shift.L)),
-                C: Math.max(0, originalRoleOKLCH.C + shift.C),
-                H: (originalRoleOKLCH.H + shift.H + 360) % 360
-            };
-            finalColor = oklchToHex(gamutClamp(shiftedOKLCH));
+        used.add(unique);
+        return unique;
+    });
+}
+/**
+ * Ordered [slug, role] pairs with Base first, taken from the template's color names
+ */
+function tokenRoles(template) {
+    const roles = Object.keys(template.originalColors);
+    const ordered = [...roles.filter(role => role === 'Base'), ...roles.filter(role => role !== 'Base')];
+    const slugs = uniqueSlugs(ordered.map(role => tokenSlug(template.colorNames[role] || role) || tokenSlug(role)));
+    return ordered.map((role, index) => [slugs[index], role]);
+}
+/**
+ * Slugs for palette names, unique within one export
+ */
+function paletteSlugs(palettes) {
+    return uniqueSlugs(palettes.map(palette => tokenSlug(palette.name) || 'default'));
+}
+/**
+ * W3C Design Tokens Community Group format, grouped as template > palette > color
+ */
+function formatDtcgTokens(template, palettes) {
+    const group = { $type: 'color' };
+    const slugs = paletteSlugs(palettes);
+    palettes.forEach((palette, index) => {
+        const paletteGroup = {};
+        for (const [slug, role] of tokenRoles(template)) {
+            if (palette.colors[role]) {
+                paletteGroup[slug] = { $value: toSrgbHex(palette.colors[role]) };
+            }
         }
-        // Apply color to nodes with this role
-        const nodes = roleIndex[role] || [];
-        for (const node of nodes) {
-            applyColorToNode(node, finalColor);
+        group[slugs[index]] = paletteGroup;
+    });
+    return JSON.stringify({ [tokenSlug(template.name) || 'colors']: group }, null, 2);
+}
+/**
+ * CSS custom properties on :root, named --template-palette-color
+ */
+function formatCssVariables(template, palettes, useOklch) {
+    const prefix = tokenSlug(template.name) || 'colors';
+    const lines = [];
+    const slugs = paletteSlugs(palettes);
+    palettes.forEach((palette, index) => {
+        for (const [slug, role] of tokenRoles(template)) {
+            const color = palette.colors[role];
+            if (color) {
+                const value = useOklch ? formatOklch(color) : toSrgbHex(color);
+                lines.push(`  --${prefix}-${slugs[index]}-${slug}: ${value};`);
+            }
         }
     });
-    // Store template reference
-    root.setPluginData('templateId', template.id);
-    root.setPluginData('anchorColor', anchorRole);
-    root.setPluginData('anchorValue', newAnchorColor);
+    return `:root {\n${lines.join('\n')}\n}\n`;
 }
-function applyTemplateToRoot(root, template, baseHex) {
-    const roleIndex = indexRoles(root);
-    // Apply base color
-    for (const node of roleIndex.Base) {
-        applyColorToNode(node, baseHex);
-    }
-    // Apply derived colors
-    for (const [roleName, rule] of Object.entries(template.roles)) {
-        if (rule) {
-            const derivedColor = applyRule(rule, baseHex);
-            const nodes = roleIndex[roleName];
-            for (const node of nodes) {
-                applyColorToNode(node, derivedColor);
+/**
+ * Tailwind theme extension nesting colors as template > palette > color
+ */
+function formatTailwindTheme(template, palettes) {
+    const colors = {};
+    const slugs = paletteSlugs(palettes);
+    palettes.forEach((palette, index) => {
+        const paletteColors = {};
+        for (const [slug, role] of tokenRoles(template)) {
+            if (palette.colors[role]) {
+                paletteColors[slug] = toSrgbHex(palette.colors[role]);
             }
         }
-    }
-    // Store template reference on root
-    root.setPluginData('templateId', template.id);
-    root.setPluginData('baseColor', baseHex);
+        colors[slugs[index]] = paletteColors;
+    });
+    const theme = { theme: { extend: { colors: { [tokenSlug(template.name) || 'colors']: colors } } } };
+    return `module.exports = ${JSON.stringify(theme, null, 2)};\n`;
 }
-function applyTemplateToRootWithChanges(root, template, colorChanges) {
-    const roleIndex = indexRoles(root);
-    const baseColor = colorChanges['Base'];
-    // Calculate all colors based on user changes - start with all roles from template
-    const finalColors = {};
-    // Initialize with base color
-    finalColors['Base'] = baseColor;
-    // Handle direct color assignments (user picked specific colors)
-    Object.entries(colorChanges).forEach(([role, color]) => {
-        finalColors[role] = color;
+// =============================================================================
+// HARMONY SUGGESTIONS
+// =============================================================================
+/**
+ * Propose batch variants for an anchor role from color harmonies, rotating hue
+ * in OKLCH so lightness and chroma stay put, plus a ladder of lightness steps
+ */
+function suggestHarmonyVariants(anchorRole, anchorColor) {
+    const anchor = hexToOKLCH(anchorColor);
+    const signed = (degrees) => `${degrees > 0 ? '+' : '−'}${Math.abs(degrees)}°`;
+    const alpha = hexAlpha(anchorColor);
+    const rotate = (degrees) => withAlpha(oklchToHex(gamutClamp(Object.assign(Object.assign({}, anchor), { H: (anchor.H + degrees + 360) % 360 }))), alpha);
+    const hueFamily = (harmony, label, rotations, name) => ({
+        harmony,
+        label,
+        variants: rotations.map(degrees => ({ name: name(degrees), anchorColor: anchorRole, hexColor: rotate(degrees) }))
     });
-    // Calculate derived colors for roles not explicitly set
-    Object.entries(template.roles).forEach(([roleName, rule]) => {
-        if (rule && !(roleName in colorChanges)) {
-            // User didn't specify this color, so derive it from base
-            finalColors[roleName] = applyRule(rule, baseColor);
+    const ladder = [0.25, 0.4, 0.55, 0.7, 0.85, 0.95].filter(L => Math.abs(L - anchor.L) > 0.04);
+    return [
+        hueFamily('complementary', 'Complementary', [180], () => 'Complementary'),
+        hueFamily('triadic', 'Triadic', [120, -120], degrees => `Triadic ${signed(degrees)}`),
+        hueFamily('analogous', 'Analogous', [-30, 30], degrees => `Analogous ${signed(degrees)}`),
+        hueFamily('split-complementary', 'Split complementary', [150, -150], degrees => `Split ${signed(degrees)}`),
+        hueFamily('hue-sweep', 'Hue sweep (equal lightness)', [60, 120, 180, 240, 300], degrees => `Hue ${Math.round((anchor.H + degrees) % 360)}°`),
+        {
+            harmony: 'lightness-ladder',
+            label: 'Lightness ladder',
+            variants: ladder.map(L => ({
+                name: `Lightness ${Math.round(L * 100)}`,
+                anchorColor: anchorRole,
+                hexColor: withAlpha(oklchToHex(gamutClamp(Object.assign(Object.assign({}, anchor), { L }))), alpha)
+            }))
+        }
+    ];
+}
+// =============================================================================
+// TONAL SCALE
+// =============================================================================
+/**
+ * Generate a tonal ramp around a base color in OKLCH, every step keeping the base's opacity
+ */
+function generateScale(options) {
+    const base = hexToOKLCH(options.baseColor);
+    const alpha = hexAlpha(options.baseColor);
+    const count = options.steps.length;
+    const position = (index) => count === 1 ? 0 : index / (count - 1);
+    const lightness = (t) => options.lightest + (options.darkest - options.lightest) * Math.pow(t, options.curve);
+    // The base sits at the step whose lightness is closest to its own
+    let baseIndex = 0;
+    options.steps.forEach((_, index) => {
+        if (Math.abs(lightness(position(index)) - base.L) < Math.abs(lightness(position(baseIndex)) - base.L)) {
+            baseIndex = index;
         }
     });
-    // Apply all final colors
-    Object.entries(finalColors).forEach(([role, color]) => {
-        const nodes = roleIndex[role] || [];
-        for (const node of nodes) {
-            applyColorToNode(node, color);
+    const basePosition = position(baseIndex);
+    return options.steps.map((step, index) => {
+        if (options.pinBase && index === baseIndex) {
+            return { step, color: options.baseColor, isBase: true };
         }
+        const t = position(index);
+        // 0 at the base, 1 at either end of the ramp
+        const distance = t < basePosition
+            ? (basePosition - t) / (basePosition || 1)
+            : (t - basePosition) / ((1 - basePosition) || 1);
+        let H = (base.H + options.hueDrift * (t - basePosition)) % 360;
+        if (H < 0)
+            H += 360;
+        const color = withAlpha(oklchToHex(gamutClamp({
+            L: lightness(t),
+            C: base.C * (1 - options.chromaTaper * distance * distance),
+            H
+        })), alpha);
+        return { step, color, isBase: index === baseIndex };
     });
-    // Store template reference on root
-    root.setPluginData('templateId', template.id);
-    root.setPluginData('baseColor', baseColor);
 }
-function applyColorToNode(node, hexColor) {
-    if (!('fills' in node))
-        return;
-    // Convert hex to RGB
-    const hex = hexColor.replace('#', '');
-    const r = parseInt(hex.substr(0, 2), 16) / 255;
-    const g = parseInt(hex.substr(2, 2), 16) / 255;
-    const b = parseInt(hex.substr(4, 2), 16) / 255;
-    const fills = [...node.fills];
-    if (fills.length > 0 && fills[0].type === 'SOLID') {
-        fills[0] = Object.assign(Object.assign({}, fills[0]), { color: { r, g, b } });
-        node.fills = fills;
+/**
+ * Validate scale controls coming from the UI, reading the base color as canonical hex
+ * @returns The usable options, or the first problem found
+ */
+function parseScaleOptions(options) {
+    const inRange = (value, min, max) => typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+    const invalid = (error) => ({ options: null, error });
+    if (!options)
+        return invalid('Scale options are missing');
+    const baseColor = parseColor(options.baseColor);
+    if (baseColor.hex === null) {
+        return invalid(`Scale base color: ${baseColor.error}`);
+    }
+    if (!Array.isArray(options.steps) || options.steps.length < 2 || options.steps.length > 24) {
+        return invalid('A scale needs between 2 and 24 steps');
+    }
+    if (options.steps.some(step => !inRange(step, 0, 10000)) || new Set(options.steps).size !== options.steps.length) {
+        return invalid('Scale steps must be different numbers, e.g. 50, 100, 200');
+    }
+    if (!inRange(options.lightest, 0, 1) || !inRange(options.darkest, 0, 1) || options.lightest <= options.darkest) {
+        return invalid('Lightest step must be lighter than the darkest, both between 0 and 1');
+    }
+    if (!inRange(options.curve, 0.2, 5))
+        return invalid('Lightness curve must be between 0.2 and 5');
+    if (!inRange(options.chromaTaper, 0, 1))
+        return invalid('Chroma taper must be between 0 and 1');
+    if (!inRange(options.hueDrift, -180, 180))
+        return invalid('Hue drift must be between -180 and 180 degrees');
+    return { options: Object.assign(Object.assign({}, options), { baseColor: baseColor.hex }), error: null };
+}
+/**
+ * Place a scale on the current page as labeled swatches whose fills carry the step as their role
+ */
+async function placeScale(name, steps) {
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+    const frame = figma.createFrame();
+    frame.name = name;
+    frame.layoutMode = 'HORIZONTAL';
+    frame.primaryAxisSizingMode = 'AUTO';
+    frame.counterAxisSizingMode = 'AUTO';
+    frame.itemSpacing = 8;
+    frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = 16;
+    for (const { step, color, isBase } of steps) {
+        const swatch = figma.createFrame();
+        swatch.name = String(step);
+        swatch.layoutMode = 'VERTICAL';
+        swatch.primaryAxisSizingMode = 'AUTO';
+        swatch.counterAxisSizingMode = 'AUTO';
+        swatch.itemSpacing = 4;
+        swatch.fills = [];
+        const chip = figma.createRectangle();
+        chip.name = isBase ? `${step} [Base]` : String(step);
+        chip.resize(64, 64);
+        chip.cornerRadius = 4;
+        chip.fills = [{ type: 'SOLID', color: hexToRgb(color), opacity: hexAlpha(color) }];
+        markRole(chip, scaleStepRole({ step, color, isBase }));
+        swatch.appendChild(chip);
+        for (const text of [String(step), color.toUpperCase()]) {
+            const label = figma.createText();
+            label.characters = text;
+            label.fontSize = 11;
+            swatch.appendChild(label);
+        }
+        frame.appendChild(swatch);
+    }
+    figma.currentPage.appendChild(frame);
+    frame.x = Math.round(figma.viewport.center.x - frame.width / 2);
+    frame.y = Math.round(figma.viewport.center.y - frame.height / 2);
+    return frame;
+}
+/**
+ * Role a scale step is stored under: Base for the step at the base, the step name otherwise
+ */
+function scaleStepRole(step) {
+    return step.isBase ? 'Base' : String(step.step);
+}
+/**
+ * Build a template whose roles are the steps of a scale, relative to the step at its base.
+ * Without a pinned base that step's ramp color stands in for the base color, so Base is
+ * always a placed swatch
+ */
+function createScaleTemplate(name, steps) {
+    const originalColors = {};
+    const colorNames = {};
+    for (const step of steps) {
+        const role = scaleStepRole(step);
+        originalColors[role] = step.color;
+        colorNames[role] = String(step.step);
+    }
+    return {
+        id: generateId(),
+        name,
+        colorNames,
+        originalColors,
+        roles: computeTemplateRoles(originalColors),
+        colorSpace: workingSpace
+    };
+}
+// Settings storage functions
+function currentSettings() {
+    return { gamutMapping, clusterThreshold };
+}
+async function loadSettings() {
+    try {
+        const settings = await figma.clientStorage.getAsync('settings') || {};
+        if (settings.gamutMapping === 'chroma' || settings.gamutMapping === 'estimate') {
+            gamutMapping = settings.gamutMapping;
+        }
+        if (typeof settings.clusterThreshold === 'number' && settings.clusterThreshold >= 0 && settings.clusterThreshold <= 0.2) {
+            clusterThreshold = settings.clusterThreshold;
+        }
+    }
+    catch (_a) {
+        // Keep defaults when settings cannot be read
     }
 }
 // Template storage functions
-async function storeTemplate(template) {
-    const templates = await getAllTemplates();
+async function storeTemplate(template, store) {
+    // Without an explicit store, write back to wherever the template already lives
+    const target = store || await findTemplateStore(template.id) || 'personal';
+    const templates = await getAllTemplates(target);
     templates[template.id] = template;
-    await figma.clientStorage.setAsync('templates', templates);
+    await storeAllTemplates(templates, target);
+}
+/**
+ * Delete a template from one store, or from every store when none is given
+ */
+async function deleteTemplate(id, store) {
+    for (const target of store ? [store] : TEMPLATE_STORES) {
+        const templates = await getAllTemplates(target);
+        if (templates[id]) {
+            delete templates[id];
+            await storeAllTemplates(templates, target);
+        }
+    }
+}
+/**
+ * Look up a template, falling back to the other store when none is given
+ */
+async function getTemplate(id, store) {
+    for (const target of store ? [store] : TEMPLATE_STORES) {
+        const templates = await getAllTemplates(target);
+        if (templates[id]) {
+            return templates[id];
+        }
+    }
+    return null;
 }
-async function getTemplate(id) {
-    const templates = await getAllTemplates();
-    return templates[id] || null;
+async function findTemplateStore(id) {
+    for (const store of TEMPLATE_STORES) {
+        const templates = await getAllTemplates(store);
+        if (templates[id]) {
+            return store;
+        }
+    }
+    return null;
 }
-async function getAllTemplates() {
+async function getAllTemplates(store = 'personal') {
     try {
+        if (store === 'document') {
+            const json = figma.root.getSharedPluginData(DOCUMENT_TEMPLATES_NAMESPACE, 'templates');
+            return json ? JSON.parse(json) : {};
+        }
         return await figma.clientStorage.getAsync('templates') || {};
     }
     catch (_a) {
         return {};
     }
 }
+async function storeAllTemplates(templates, store = 'personal') {
+    if (store === 'document') {
+        figma.root.setSharedPluginData(DOCUMENT_TEMPLATES_NAMESPACE, 'templates', JSON.stringify(templates));
+    }
+    else {
+        await figma.clientStorage.setAsync('templates', templates);
+    }
+}
 console.log('ArtyColors plugin loaded successfully');
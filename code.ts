@@ -1,33 +1,16 @@
 // ArtyColors - Figma Plugin for Color Relationship Management
 // Main thread code with access to Figma API and document
+// Color math lives in color-engine.ts, which is compiled into the same code.js
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
 type ColorRole = string; // Dynamic roles like 'Base', 'Color1', 'Color2', etc.
-type HexColor = `#${string}`;
 
-interface OKLCH {
-  L: number; // Lightness [0, 1]
-  C: number; // Chroma [0, ~0.4]
-  H: number; // Hue [0, 360)
-}
-
-interface RelativeRule {
-  Lmode: 'lighten' | 'darken';
-  k: number;           // Lightness adjustment factor [0,1]
-  Cmul: number;        // Chroma multiplier
-  Cabs: number | null; // Absolute chroma (when base ~= 0)
-  hDelta: number;      // Hue angle delta in degrees
-}
-
-interface Template {
-  id: string;
-  name: string;
-  colorNames: Record<string, string>;     // Dynamic color names by role
-  originalColors: Record<string, HexColor>; // Dynamic original colors by role  
-  roles: Record<string, RelativeRule>;    // Dynamic rules for non-base roles
+interface PluginSettings {
+  gamutMapping: GamutMapping;
+  clusterThreshold: number; // ΔE OK under which analyzed colors share a role
 }
 
 // Message types for UI communication
@@ -38,213 +21,250 @@ enum MessageType {
   APPLY_TEMPLATE = 'apply-template',
   BATCH_GENERATE = 'batch-generate',
   UPDATE_VARIANTS = 'update-variants',
-  GET_TEMPLATES = 'get-templates'
+  GET_TEMPLATES = 'get-templates',
+  RENAME_TEMPLATE = 'rename-template',
+  DUPLICATE_TEMPLATE = 'duplicate-template',
+  DELETE_TEMPLATE = 'delete-template',
+  UPDATE_TEMPLATE_RULE = 'update-template-rule',
+  UPDATE_COLOR_NAME = 'update-color-name',
+  UPDATE_ORIGINAL_COLOR = 'update-original-color',
+  EXPORT_TEMPLATES = 'export-templates',
+  IMPORT_TEMPLATES = 'import-templates',
+  COPY_TEMPLATE_TO_STORE = 'copy-template-to-store',
+  EXPORT_DESIGN_TOKENS = 'export-design-tokens',
+  GET_SETTINGS = 'get-settings',
+  UPDATE_SETTINGS = 'update-settings',
+  UPDATE_CONTRAST_PAIRS = 'update-contrast-pairs',
+  PREVIEW = 'preview',
+  PREVIEW_SCALE = 'preview-scale',
+  CREATE_SCALE = 'create-scale',
+  SUGGEST_VARIANTS = 'suggest-variants',
+  GENERATE_MATRIX = 'generate-matrix',
+  CANCEL_OPERATION = 'cancel-operation',
+  DRY_RUN_APPLY = 'dry-run-apply',
+  DRY_RUN_UPDATE_VARIANTS = 'dry-run-update-variants',
+  CHECK_DRIFT = 'check-drift',
+  REPAIR_DRIFT = 'repair-drift',
+  UPDATE_TEMPLATE_FROM_LAYER = 'update-template-from-layer'
+}
+
+// Fields belonging to each channel, recomputed together when its mode changes
+const CHANNEL_FIELDS: Record<keyof RuleChannels, RuleField[]> = {
+  Lchannel: ['Lchannel', 'Lmode', 'k', 'Labs'],
+  Cchannel: ['Cchannel', 'Cmul', 'Cabs', 'Cdelta'],
+  Hchannel: ['Hchannel', 'hDelta', 'Habs']
+};
+
+// Personal templates live in clientStorage, document templates travel with the file
+type TemplateStore = 'personal' | 'document';
+const TEMPLATE_STORES: TemplateStore[] = ['personal', 'document'];
+const DOCUMENT_TEMPLATES_NAMESPACE = 'artycolors';
+
+type ImportMode = 'merge' | 'replace';
+
+// A single colorable paint on a node: fills[index], strokes[index] or effects[index]
+type PaintSlotKind = 'fills' | 'strokes' | 'effects';
+
+interface PaintSlot {
+  kind: PaintSlotKind;
+  index: number;
+  stop?: number; // Gradient stop index when the paint is a gradient
+}
+
+interface RoleBinding {
+  node: SceneNode;
+  slot: PaintSlot;
 }
 
 interface LayerColorInfo {
   nodeId: string;
   layerName: string;
   displayName?: string; // Custom name set by user
-  color: HexColor;
+  color: HexColor; // Carries the paint's opacity as #rrggbbaa when translucent
   role: string; // Dynamic role like 'Base', 'Color1', 'Color2', etc.
+  slot: PaintSlot; // Paint the color was found in
+  frequency?: number; // Paints that share this color after clustering
+  coverage?: number;  // Share of the analyzed area painted with this color [0,1]
 }
 
-interface VariantInfo {
-  name: string;       // User-provided name like "Dark Mode", "Accent Red"
-  anchorColor: string; // Which color role to change (Base, Color1, etc.)
-  hexColor: HexColor; // New color value for that role
+type VariantScope = 'page' | 'document';
+
+// Where colors go when applying to an instance that has no matching Color variant
+type InstanceMode = 'override' | 'main-component';
+
+interface UpdateVariantsSummary {
+  updated: number;
+  skipped: number;
+  failed: number;
 }
 
-// =============================================================================
-// UTILITY FUNCTIONS
-// =============================================================================
+// What happened to one selected root during an apply or batch
+type RootStatus = 'applied' | 'switched' | 'skipped' | 'failed' | 'cancelled' | 'rolled-back';
 
-/**
- * Natural sort that handles numbers correctly
- * "Rectangle 2" comes before "Rectangle 11"
- */
-function naturalSort(a: string, b: string): number {
-  const regex = /(\d+)/g;
-  
-  // Split strings into parts (text and numbers)
-  const aParts = a.split(regex);
-  const bParts = b.split(regex);
-  
-  const maxLength = Math.max(aParts.length, bParts.length);
-  
-  for (let i = 0; i < maxLength; i++) {
-    const aPart = aParts[i] || '';
-    const bPart = bParts[i] || '';
-    
-    // Check if both parts are numbers
-    const aNum = parseInt(aPart, 10);
-    const bNum = parseInt(bPart, 10);
-    
-    if (!isNaN(aNum) && !isNaN(bNum)) {
-      // Compare as numbers
-      if (aNum !== bNum) {
-        return aNum - bNum;
-      }
-    } else {
-      // Compare as strings
-      const comparison = aPart.localeCompare(bPart);
-      if (comparison !== 0) {
-        return comparison;
-      }
-    }
-  }
-  
-  return 0;
+interface RootResult {
+  nodeId: string;
+  name: string;
+  status: RootStatus;
+  detail?: string; // Error message, or how the root was recolored
 }
 
-// =============================================================================
-// OKLCH COLOR CONVERSION UTILITIES
-// =============================================================================
+type OperationStatus = 'completed' | 'partial' | 'cancelled' | 'failed';
 
-/**
- * Convert hex color to OKLCH color space
- * Uses accurate sRGB -> Linear RGB -> OKLab -> OKLCH conversion
- */
-function hexToOKLCH(hex: string): OKLCH {
-  // Remove # if present
-  hex = hex.replace('#', '');
-  
-  // Parse RGB values
-  const r = parseInt(hex.substr(0, 2), 16) / 255;
-  const g = parseInt(hex.substr(2, 2), 16) / 255;
-  const b = parseInt(hex.substr(4, 2), 16) / 255;
-  
-  // sRGB to Linear RGB
-  const toLinear = (c: number) => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-  const lr = toLinear(r);
-  const lg = toLinear(g);
-  const lb = toLinear(b);
-  
-  // Linear RGB to OKLab
-  const l = 0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb;
-  const m = 0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb;
-  const s = 0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb;
-  
-  const l_ = Math.cbrt(l);
-  const m_ = Math.cbrt(m);
-  const s_ = Math.cbrt(s);
-  
-  const L = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
-  const a = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
-  const b_ = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
-  
-  // OKLab to OKLCH
-  const C = Math.sqrt(a * a + b_ * b_);
-  let H = Math.atan2(b_, a) * 180 / Math.PI;
-  if (H < 0) H += 360;
-  
-  return { L: Math.max(0, Math.min(1, L)), C: Math.max(0, C), H };
+// Structured outcome the UI lists after an apply or batch
+interface OperationResult {
+  operation: string;
+  status: OperationStatus;
+  roots: RootResult[];
+  error?: string; // Failure outside any single root
 }
 
-/**
- * Convert OKLCH to hex color with gamut clamping
- */
-function oklchToHex(oklch: OKLCH): HexColor {
-  const { L, C, H } = oklch;
-  
-  // OKLCH to OKLab
-  const hRad = H * Math.PI / 180;
-  const a = C * Math.cos(hRad);
-  const b_oklab = C * Math.sin(hRad);
-  
-  // OKLab to Linear RGB
-  const l_ = L + 0.3963377774 * a + 0.2158037573 * b_oklab;
-  const m_ = L - 0.1055613458 * a - 0.0638541728 * b_oklab;
-  const s_ = L - 0.0894841775 * a - 1.2914855480 * b_oklab;
-  
-  const l = l_ * l_ * l_;
-  const m = m_ * m_ * m_;
-  const s = s_ * s_ * s_;
-  
-  let lr = +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
-  let lg = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
-  let lb = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
-  
-  // Gamut clamp in linear RGB
-  lr = Math.max(0, Math.min(1, lr));
-  lg = Math.max(0, Math.min(1, lg));
-  lb = Math.max(0, Math.min(1, lb));
-  
-  // Linear RGB to sRGB
-  const fromLinear = (c: number) => c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
-  const r = fromLinear(lr);
-  const g = fromLinear(lg);
-  const b_srgb = fromLinear(lb);
-  
-  // Convert to hex
-  const toHex = (c: number) => Math.round(Math.max(0, Math.min(255, c * 255))).toString(16).padStart(2, '0');
-  
-  return `#${toHex(r)}${toHex(g)}${toHex(b_srgb)}` as HexColor;
+// Puts back something an operation created or changed
+type RollbackStep = () => void | Promise<void>;
+
+// An apply or batch in progress, worked through in chunks so it can report progress and be cancelled
+interface Operation {
+  label: string;
+  total: number;
+  done: number;
+  cancelled: boolean;
+  lastYield: number;
+  roots: RootResult[];
+  rollback: RollbackStep[]; // Run in reverse when the operation fails
 }
 
-/**
- * Additional gamut clamping for edge cases
- */
-function gamutClamp(oklch: OKLCH): OKLCH {
-  // Simple chroma clamping - can be enhanced with more sophisticated algorithms
-  const maxChroma = oklch.L * (1 - oklch.L) * 0.4; // Rough estimate
-  return {
-    ...oklch,
-    C: Math.min(oklch.C, maxChroma)
-  };
+// Milliseconds of work between yields to the UI
+const OPERATION_CHUNK_MS = 50;
+
+// One role-bound slot in a dry run: what it shows now and what an apply would write
+interface SlotDiff {
+  nodeId: string;
+  nodeName: string;
+  role: string;
+  slot: string; // e.g. "Fill 1" or "Shadow 2"
+  paintSlot: PaintSlot;
+  current: HexColor | null;
+  next: HexColor | null; // null when the slot keeps its color
+  deltaE: number;
+  skipped?: string; // Why an apply leaves the slot alone
 }
 
-// =============================================================================
-// RELATIVE COLOR RULE FUNCTIONS
-// =============================================================================
+// Dry run of an apply on one selected root
+interface RootDiff {
+  rootId: string;
+  rootName: string;
+  note?: string; // Set when the root is switched or recolored through its main component
+  slots: SlotDiff[];
+  missingRoles: string[]; // Template roles no layer in the root is bound to
+}
 
-/**
- * Compute relative rule between base color and role color
- */
-function computeRelativeRule(baseColor: HexColor, roleColor: HexColor): RelativeRule {
-  const baseOKLCH = hexToOKLCH(baseColor);
-  const roleOKLCH = hexToOKLCH(roleColor);
-  
-  // Lightness relationship
-  const deltaL = roleOKLCH.L - baseOKLCH.L;
-  const Lmode: 'lighten' | 'darken' = deltaL >= 0 ? 'lighten' : 'darken';
-  const k = Math.abs(deltaL);
-  
-  // Chroma relationship
-  const Cmul = baseOKLCH.C > 0.01 ? roleOKLCH.C / baseOKLCH.C : 1;
-  const Cabs = baseOKLCH.C <= 0.01 ? roleOKLCH.C : null;
-  
-  // Hue relationship
-  let hDelta = roleOKLCH.H - baseOKLCH.H;
-  if (hDelta > 180) hDelta -= 360;
-  if (hDelta < -180) hDelta += 360;
-  
-  return { Lmode, k, Cmul, Cabs, hDelta };
+// A drifted slot the UI asks to repair or to copy into the template
+interface DriftTarget {
+  rootId: string;
+  nodeId: string;
+  slot: PaintSlot;
+}
+
+// ΔE OK a layer may differ from its template before it counts as drifted
+const DEFAULT_DRIFT_TOLERANCE = 0.02;
+
+// How generated colors are written: raw values, or bound to local Variables / Paint Styles
+type ColorTokenMode = 'none' | 'variables' | 'styles';
+
+interface RoleTokenSet {
+  mode: Exclude<ColorTokenMode, 'none'>;
+  tokens: Record<ColorRole, Variable | PaintStyle>;
+  collection?: VariableCollection;
+  modeId?: string;
+}
+
+// How batch output is arranged: fill order, spacing and where it goes
+type BatchFillOrder = 'rows' | 'columns';
+type BatchPlacement = 'beside-source' | 'new-page';
+
+interface BatchLayout {
+  columns: number;         // Variants per row (or per column when filling columns), 0 picks automatically
+  columnGap: number;
+  rowGap: number;
+  fillOrder: BatchFillOrder;
+  placement: BatchPlacement;
+}
+
+const DEFAULT_BATCH_LAYOUT: BatchLayout = { columns: 0, columnGap: 50, rowGap: 50, fillOrder: 'rows', placement: 'beside-source' };
+
+// Variant property that batch-generated component variants are told apart by
+const VARIANT_PROPERTY = 'Color';
+
+// A variant matrix: every combination of one value per axis becomes a clone
+type MatrixAxisKind = 'role' | 'template';
+
+interface MatrixAxisValue {
+  label: string;
+  color?: string;       // Role axes: the color the role takes, in any CSS syntax
+  templateId?: string;  // Template axes: the template applied
+}
+
+interface MatrixAxis {
+  name: string;         // Also the variant property name for components
+  kind: MatrixAxisKind;
+  role?: string;        // Role axes: which role the values set
+  values: MatrixAxisValue[];
+}
+
+interface MatrixSpec {
+  templateId: string;   // Template used until a template axis picks another
+  axes: MatrixAxis[];   // The last axis runs along the columns, the others along the rows
+}
+
+const MAX_MATRIX_CELLS = 200;
+
+// A family of suggested anchor colors, e.g. the two triadic partners of the anchor
+interface HarmonySuggestion {
+  harmony: string;
+  label: string;
+  variants: VariantInfo[];
 }
 
+// Controls for generating a tonal ramp from a single color
+interface ScaleOptions {
+  baseColor: HexColor;
+  steps: number[];      // Step names from lightest to darkest, e.g. 50…950
+  lightest: number;     // OKLCH lightness of the first step
+  darkest: number;      // OKLCH lightness of the last step
+  curve: number;        // Lightness easing exponent, 1 is linear
+  chromaTaper: number;  // Share of the base chroma lost at the ends of the ramp [0,1]
+  hueDrift: number;     // Hue change in degrees across the ramp, light and dark ends turn opposite ways
+  pinBase: boolean;     // Use the exact base color for the step closest to it
+}
+
+interface ScaleStep {
+  step: number;
+  color: HexColor;
+  isBase: boolean;       // The step the base sits at, the exact base color when pinned
+}
+
+// Every role color of one exported palette
+interface ComputedPalette {
+  name: string;
+  colors: Record<string, HexColor>;
+}
+
+type DerivationMode = 'shift' | 'rules'; // Move every color by the anchor's shift, or solve Base through the rules
+
+interface VariantInfo {
+  name: string;       // User-provided name like "Dark Mode", "Accent Red"
+  anchorColor: string; // Which color role to change (Base, Color1, etc.)
+  hexColor: HexColor; // New color value for that role
+}
+
+// =============================================================================
+// COLOR SPACE DETECTION
+// =============================================================================
+
 /**
- * Apply relative rule to a new base color
+ * Read the document color profile, unmanaged legacy files behave as sRGB
  */
-function applyRule(rule: RelativeRule, newBaseColor: HexColor): HexColor {
-  const baseOKLCH = hexToOKLCH(newBaseColor);
-  
-  // Apply lightness transformation
-  let newL = baseOKLCH.L;
-  if (rule.Lmode === 'lighten') {
-    newL = Math.min(1, baseOKLCH.L + rule.k);
-  } else {
-    newL = Math.max(0, baseOKLCH.L - rule.k);
-  }
-  
-  // Apply chroma transformation
-  let newC = rule.Cabs !== null ? rule.Cabs : baseOKLCH.C * rule.Cmul;
-  
-  // Apply hue transformation
-  let newH = (baseOKLCH.H + rule.hDelta) % 360;
-  if (newH < 0) newH += 360;
-  
-  const newOKLCH = gamutClamp({ L: newL, C: newC, H: newH });
-  return oklchToHex(newOKLCH);
+function detectColorSpace(): ColorSpace {
+  return figma.root.documentColorProfile === 'DISPLAY_P3' ? 'display-p3' : 'srgb';
 }
 
 // =============================================================================
@@ -252,17 +272,17 @@ function applyRule(rule: RelativeRule, newBaseColor: HexColor): HexColor {
 // =============================================================================
 
 /**
- * Mark a node with a color role
+ * Mark a paint slot of a node with a color role
  */
-function markRole(node: SceneNode, role: string): void {
-  node.setPluginData('colorRole', role);
+function markRole(node: SceneNode, role: string, slot: PaintSlot = FILL_SLOT): void {
+  node.setPluginData(slotRoleKey(slot), role);
 }
 
 /**
- * Get the color role of a node
+ * Get the color role of a paint slot of a node
  */
-function getRole(node: SceneNode): string | null {
-  const role = node.getPluginData('colorRole');
+function getRole(node: SceneNode, slot: PaintSlot = FILL_SLOT): string | null {
+  const role = node.getPluginData(slotRoleKey(slot));
   return role || null;
 }
 
@@ -270,13 +290,13 @@ function getRole(node: SceneNode): string | null {
  * Infer role from layer name patterns like [Base], [A], [B], [C]
  */
 function inferRoleFromName(name: string): string | null {
+  if (/\[Base\]/i.test(name)) return 'Base';
+  
+  // Any number of colors, analysis can assign Color6 and up
+  const numbered = name.match(/\[Color(\d+)\]/i);
+  if (numbered && Number(numbered[1]) > 0) return `Color${Number(numbered[1])}`;
+  
   const patterns = [
-    { regex: /\[Base\]/i, role: 'Base' },
-    { regex: /\[Color1\]/i, role: 'Color1' },
-    { regex: /\[Color2\]/i, role: 'Color2' },
-    { regex: /\[Color3\]/i, role: 'Color3' },
-    { regex: /\[Color4\]/i, role: 'Color4' },
-    { regex: /\[Color5\]/i, role: 'Color5' },
     // Legacy support
     { regex: /\[A\]/i, role: 'Color1' },
     { regex: /\[B\]/i, role: 'Color2' },
@@ -294,28 +314,30 @@ function inferRoleFromName(name: string): string | null {
 
 /**
  * Index all nodes by their color roles within a root node
+ * @param readOnly - Leave roles inferred from layer names unsaved, for lookups that must not change the file
  */
-function indexRoles(root: SceneNode): Record<string, SceneNode[]> {
-  const roleIndex: Record<string, SceneNode[]> = {};
+function indexRoles(root: SceneNode, readOnly: boolean = false): Record<string, RoleBinding[]> {
+  const roleIndex: Record<string, RoleBinding[]> = {};
   
   const traverse = (node: SceneNode) => {
-    // Check explicit role assignment first
-    let role = getRole(node);
-    
-    // Fallback to name-based detection
-    if (!role) {
-      role = inferRoleFromName(node.name);
-      if (role) {
-        markRole(node, role); // Save inferred role
+    for (const slot of listPaintSlots(node)) {
+      // Check explicit role assignment first
+      let role = getRole(node, slot);
+      
+      // Fallback to name-based detection, which always targets the first fill
+      if (!role && isFillSlot(slot)) {
+        role = inferRoleFromName(node.name);
+        if (role && !readOnly) {
+          markRole(node, role); // Save inferred role
+        }
       }
-    }
-    
-    // Add to index if role found and node has fills
-    if (role && 'fills' in node) {
-      if (!roleIndex[role]) {
-        roleIndex[role] = [];
+      
+      if (role) {
+        if (!roleIndex[role]) {
+          roleIndex[role] = [];
+        }
+        roleIndex[role].push({ node, slot });
       }
-      roleIndex[role].push(node);
     }
     
     // Recursively traverse children
@@ -330,26 +352,155 @@ function indexRoles(root: SceneNode): Record<string, SceneNode[]> {
   return roleIndex;
 }
 
+// =============================================================================
+// PAINT SLOT FUNCTIONS
+// =============================================================================
+
+const FILL_SLOT: PaintSlot = { kind: 'fills', index: 0 };
+
+function isFillSlot(slot: PaintSlot): boolean {
+  return slot.kind === FILL_SLOT.kind && slot.index === FILL_SLOT.index && slot.stop === undefined;
+}
+
+/**
+ * Plugin data key holding the role of a slot
+ * The first fill keeps the original 'colorRole' key so older files still resolve
+ */
+function slotRoleKey(slot: PaintSlot): string {
+  if (isFillSlot(slot)) return 'colorRole';
+  return slot.stop === undefined
+    ? `colorRole:${slot.kind}:${slot.index}`
+    : `colorRole:${slot.kind}:${slot.index}:${slot.stop}`;
+}
+
+function getSlotPaints(node: SceneNode, kind: PaintSlotKind): readonly (Paint | Effect)[] {
+  if (!(kind in node)) return [];
+  const paints = (node as unknown as Record<PaintSlotKind, unknown>)[kind];
+  return Array.isArray(paints) ? paints : [];
+}
+
+function isGradientPaint(paint: Paint): paint is GradientPaint {
+  return paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL' ||
+    paint.type === 'GRADIENT_ANGULAR' || paint.type === 'GRADIENT_DIAMOND';
+}
+
+function isShadowEffect(effect: Effect): effect is DropShadowEffect | InnerShadowEffect {
+  return effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW';
+}
+
+/**
+ * List every slot of a node that can carry a role
+ */
+function listPaintSlots(node: SceneNode): PaintSlot[] {
+  const slots: PaintSlot[] = [];
+  
+  // Gradients expose one slot per stop on top of the paint itself
+  const pushPaintSlots = (kind: PaintSlotKind, index: number) => {
+    slots.push({ kind, index });
+    const paint = getSlotPaints(node, kind)[index] as Paint | undefined;
+    if (paint && isGradientPaint(paint)) {
+      paint.gradientStops.forEach((_stop, stop) => slots.push({ kind, index, stop }));
+    }
+  };
+  
+  // Nodes with fills always expose the first fill so name tags keep working on empty fills
+  if ('fills' in node) {
+    const fillCount = Math.max(1, getSlotPaints(node, 'fills').length);
+    for (let index = 0; index < fillCount; index++) {
+      pushPaintSlots('fills', index);
+    }
+  }
+  
+  getSlotPaints(node, 'strokes').forEach((_paint, index) => pushPaintSlots('strokes', index));
+  
+  getSlotPaints(node, 'effects').forEach((effect, index) => {
+    if (isShadowEffect(effect as Effect)) {
+      slots.push({ kind: 'effects', index });
+    }
+  });
+  
+  return slots;
+}
+
+/**
+ * Read the solid color of a slot with its opacity: paint opacity for solids,
+ * color alpha for gradient stops and shadows
+ * @returns null when the slot is missing or holds no single color
+ */
+function getSlotColor(node: SceneNode, slot: PaintSlot): RGBA | null {
+  const paint = getSlotPaints(node, slot.kind)[slot.index];
+  if (!paint) return null;
+  
+  if (slot.kind === 'effects') {
+    return isShadowEffect(paint as Effect) ? (paint as DropShadowEffect | InnerShadowEffect).color : null;
+  }
+  
+  if (slot.stop !== undefined) {
+    const gradientStop = isGradientPaint(paint as Paint) ? (paint as GradientPaint).gradientStops[slot.stop] : undefined;
+    return gradientStop ? gradientStop.color : null;
+  }
+  return paint.type === 'SOLID' ? { ...paint.color, a: paint.opacity ?? 1 } : null;
+}
+
+/**
+ * Describe a slot for the UI, e.g. "Fill 2" or "Shadow 1"
+ */
+function describeSlot(node: SceneNode, slot: PaintSlot): string {
+  if (slot.kind === 'effects') {
+    const effect = getSlotPaints(node, 'effects')[slot.index] as Effect | undefined;
+    const label = effect && effect.type === 'INNER_SHADOW' ? 'Inner shadow' : 'Shadow';
+    return `${label} ${slot.index + 1}`;
+  }
+  const label = `${slot.kind === 'fills' ? 'Fill' : 'Stroke'} ${slot.index + 1}`;
+  return slot.stop === undefined ? label : `${label} stop ${slot.stop + 1}`;
+}
+
 // =============================================================================
 // COLOR ANALYSIS FUNCTIONS
 // =============================================================================
 
+// Colors closer than this ΔE OK share a role during analysis, loaded from settings on startup
+let clusterThreshold = 0.02;
+
 /**
- * Analyze a node and extract all colors with smart role assignment
+ * Area a paint slot covers, used to weigh colors when suggesting the base
  */
-function analyzeNodeColors(root: SceneNode): LayerColorInfo[] {
-  const layerColors: LayerColorInfo[] = [];
-  const colorFrequency = new Map<string, number>();
-  const allColorNodes: { node: SceneNode, color: HexColor }[] = [];
+function slotArea(node: SceneNode, slot: PaintSlot): number {
+  if (!('width' in node)) return 0;
+  if (slot.kind === 'strokes') {
+    const weight = 'strokeWeight' in node && typeof node.strokeWeight === 'number' ? node.strokeWeight : 1;
+    return 2 * (node.width + node.height) * weight;
+  }
+  if (slot.kind === 'effects') return 0;
+  return node.width * node.height;
+}
+
+/**
+ * Analyze one or more roots and extract all colors with smart role assignment:
+ * - Colors within the ΔE OK threshold of each other and with the same opacity are clustered and share a role
+ * - Roles already stored in plugin data or tagged in layer names ([Base], [Color2]) are kept
+ * - Without a tagged Base, the cluster covering the most area (then used most often) becomes Base
+ */
+function analyzeNodeColors(roots: readonly SceneNode[], threshold: number = clusterThreshold): LayerColorInfo[] {
+  type ColorEntry = { node: SceneNode, slot: PaintSlot, color: HexColor, oklch: OKLCH, alpha: number, area: number, taggedRole: string | null };
+  type ColorCluster = { entries: ColorEntry[], center: ColorEntry, role: string | null, area: number };
+  const entries: ColorEntry[] = [];
   
-  // First pass: collect all colors and count frequency
+  // First pass: collect all colors from every fill, stroke and shadow with their existing tags
   const traverse = (node: SceneNode) => {
-    if ('fills' in node && node.fills && Array.isArray(node.fills) && node.fills.length > 0) {
-      const fill = node.fills[0];
-      if (fill && fill.type === 'SOLID') {
-        const hexColor = rgbToHex(fill.color);
-        allColorNodes.push({ node, color: hexColor });
-        colorFrequency.set(hexColor, (colorFrequency.get(hexColor) || 0) + 1);
+    for (const slot of listPaintSlots(node)) {
+      const color = getSlotColor(node, slot);
+      if (color) {
+        const hexColor = rgbToHex(color, color.a);
+        entries.push({
+          node,
+          slot,
+          color: hexColor,
+          oklch: hexToOKLCH(hexColor),
+          alpha: color.a,
+          area: slotArea(node, slot),
+          taggedRole: getRole(node, slot) || (isFillSlot(slot) ? inferRoleFromName(node.name) : null)
+        });
       }
     }
     
@@ -360,49 +511,93 @@ function analyzeNodeColors(root: SceneNode): LayerColorInfo[] {
     }
   };
   
-  traverse(root);
+  roots.forEach(root => traverse(root));
   
-  if (allColorNodes.length === 0) {
+  if (entries.length === 0) {
     return [];
   }
   
-  // Sort colors by layer name (alphabetical)
-  const sortedColors = allColorNodes
-    .reduce((acc, { node, color }) => {
-      if (!acc.find(item => item.color === color)) {
-        const oklch = hexToOKLCH(color);
-        acc.push({ 
-          node, 
-          color, 
-          frequency: colorFrequency.get(color) || 1,
-          lightness: oklch.L 
-        });
+  // Tagged colors form one cluster per role, the largest use of each cluster is its center
+  const clusters: ColorCluster[] = [];
+  const byWeight = [...entries].sort((a, b) => b.area - a.area);
+  for (const entry of byWeight.filter(e => e.taggedRole)) {
+    const cluster = clusters.find(c => c.role === entry.taggedRole);
+    if (cluster) {
+      cluster.entries.push(entry);
+    } else {
+      clusters.push({ entries: [entry], center: entry, role: entry.taggedRole, area: 0 });
+    }
+  }
+  
+  // Untagged colors join the closest cluster within the threshold, or start their own
+  // Overlays never merge with the solid version of their color
+  for (const entry of byWeight.filter(e => !e.taggedRole)) {
+    let closest: ColorCluster | null = null;
+    let closestDistance = threshold;
+    for (const cluster of clusters) {
+      if (Math.abs(entry.alpha - cluster.center.alpha) > 0.01) continue;
+      const distance = deltaEOK(entry.oklch, cluster.center.oklch);
+      if (distance <= closestDistance) {
+        closest = cluster;
+        closestDistance = distance;
       }
-      return acc;
-    }, [] as { node: SceneNode, color: HexColor, frequency: number, lightness: number }[])
-    .sort((a, b) => {
-      // Natural sort by layer name (handles numbers correctly)
-      return naturalSort(a.node.name, b.node.name);
+    }
+    if (closest) {
+      closest.entries.push(entry);
+    } else {
+      clusters.push({ entries: [entry], center: entry, role: null, area: 0 });
+    }
+  }
+  
+  clusters.forEach(cluster => {
+    cluster.area = cluster.entries.reduce((total, entry) => total + entry.area, 0);
+  });
+  const totalArea = clusters.reduce((total, cluster) => total + cluster.area, 0);
+  
+  // Suggest the base by covered area, then by how often the color is used
+  if (!clusters.some(cluster => cluster.role === 'Base')) {
+    const untagged = clusters.filter(cluster => !cluster.role);
+    const base = untagged.sort((a, b) => (b.area - a.area) || (b.entries.length - a.entries.length))[0];
+    if (base) base.role = 'Base';
+  }
+  
+  // Remaining clusters are numbered in layer name order, skipping numbers already taken
+  const usedRoles = new Set(clusters.map(cluster => cluster.role).filter(Boolean));
+  let nextNumber = 1;
+  clusters
+    .filter(cluster => !cluster.role)
+    .sort((a, b) => naturalSort(a.center.node.name, b.center.node.name))
+    .forEach(cluster => {
+      while (usedRoles.has(`Color${nextNumber}`)) nextNumber++;
+      cluster.role = `Color${nextNumber}`;
+      usedRoles.add(cluster.role);
     });
   
-  // Smart role assignment - dynamic number of colors
-  for (let i = 0; i < sortedColors.length; i++) {
-    const { node, color } = sortedColors[i];
-    // First color is Base, others are Color1, Color2, Color3, etc.
-    const role = i === 0 ? 'Base' : `Color${i}`;
+  const layerColors: LayerColorInfo[] = [];
+  for (const cluster of clusters) {
+    const role = cluster.role as string;
+    const { node, slot, color } = cluster.center;
     
-    // Auto-assign role to node
-    markRole(node, role);
+    // Tag every near-duplicate so applying recolors them all, leaving existing tags alone
+    for (const entry of cluster.entries) {
+      if (!entry.taggedRole) {
+        markRole(entry.node, role, entry.slot);
+      }
+    }
     
     layerColors.push({
       nodeId: node.id,
-      layerName: node.name,
+      layerName: isFillSlot(slot) ? node.name : `${node.name} (${describeSlot(node, slot)})`,
       color,
-      role
+      role,
+      slot,
+      frequency: cluster.entries.length,
+      coverage: totalArea > 0 ? cluster.area / totalArea : 0
     });
   }
   
-  return layerColors;
+  // Base first, then roles in natural order
+  return layerColors.sort((a, b) => a.role === 'Base' ? -1 : b.role === 'Base' ? 1 : naturalSort(a.role, b.role));
 }
 
 // =============================================================================
@@ -412,16 +607,27 @@ function analyzeNodeColors(root: SceneNode): LayerColorInfo[] {
 // Show UI for all editor types
 figma.showUI(__html__, { width: 320, height: 480 });
 
+loadSettings();
+workingSpace = detectColorSpace();
+
+// The apply or batch currently running, at most one at a time
+let activeOperation: Operation | null = null;
+
 // Handle messages from UI
 figma.ui.onmessage = async (msg: { type: string; [key: string]: any }) => {
   try {
+    // Every message is a new operation for gamut mapping reports, unless one is still running
+    if (!activeOperation) {
+      resetGamutReport();
+    }
+    
     switch (msg.type) {
       case MessageType.ANALYZE_SELECTION:
         handleAnalyzeSelection();
         break;
         
       case MessageType.UPDATE_ROLE:
-        await handleUpdateRole(msg.nodeId, msg.role);
+        await handleUpdateRole(msg.nodeId, msg.role, msg.slot);
         break;
         
       case MessageType.CREATE_TEMPLATE:
@@ -429,17 +635,117 @@ figma.ui.onmessage = async (msg: { type: string; [key: string]: any }) => {
         break;
         
       case MessageType.APPLY_TEMPLATE:
-        await handleApplyTemplate(msg.templateId, msg.colorChanges);
+        await handleApplyTemplate(msg.templateId, msg.colorChanges, msg.tokenMode, msg.tokenName, msg.driverRole, msg.instanceMode, msg.rootIds);
         break;
         
       case MessageType.BATCH_GENERATE:
-        await handleBatchGenerate(msg.templateId, msg.variants);
+        await handleBatchGenerate(msg.templateId, msg.variants, msg.tokenMode, msg.derivation, msg.layout);
+        break;
+        
+      case MessageType.UPDATE_VARIANTS:
+        await handleUpdateVariants(msg.templateId, msg.scope, msg.rootIds);
         break;
         
       case MessageType.GET_TEMPLATES:
         await handleGetTemplates();
         break;
         
+      case MessageType.RENAME_TEMPLATE:
+        await handleRenameTemplate(msg.templateId, msg.name, msg.store);
+        break;
+        
+      case MessageType.DUPLICATE_TEMPLATE:
+        await handleDuplicateTemplate(msg.templateId, msg.store);
+        break;
+        
+      case MessageType.DELETE_TEMPLATE:
+        await handleDeleteTemplate(msg.templateId, msg.store);
+        break;
+        
+      case MessageType.UPDATE_TEMPLATE_RULE:
+        await handleUpdateTemplateRule(msg.templateId, msg.role, msg.field, msg.value, msg.store);
+        break;
+        
+      case MessageType.UPDATE_COLOR_NAME:
+        await handleUpdateColorName(msg.templateId, msg.role, msg.name, msg.store);
+        break;
+        
+      case MessageType.UPDATE_ORIGINAL_COLOR:
+        await handleUpdateOriginalColor(msg.templateId, msg.role, msg.color, msg.recomputeRoles, msg.store);
+        break;
+        
+      case MessageType.EXPORT_TEMPLATES:
+        await handleExportTemplates(msg.templateIds);
+        break;
+        
+      case MessageType.IMPORT_TEMPLATES:
+        await handleImportTemplates(msg.json, msg.mode, msg.store);
+        break;
+        
+      case MessageType.COPY_TEMPLATE_TO_STORE:
+        await handleCopyTemplateToStore(msg.templateId, msg.from, msg.to, msg.move);
+        break;
+        
+      case MessageType.GET_SETTINGS:
+        handleGetSettings();
+        break;
+        
+      case MessageType.UPDATE_SETTINGS:
+        await handleUpdateSettings(msg.settings);
+        break;
+        
+      case MessageType.PREVIEW:
+        await handlePreview(msg.templateId, msg.colorChanges, msg.requestId, msg.driverRole);
+        break;
+        
+      case MessageType.PREVIEW_SCALE:
+        handlePreviewScale(msg.options);
+        break;
+        
+      case MessageType.CREATE_SCALE:
+        await handleCreateScale(msg.options, msg.name, msg.saveTemplate);
+        break;
+        
+      case MessageType.GENERATE_MATRIX:
+        await handleGenerateMatrix(msg.spec, msg.tokenMode, msg.layout);
+        break;
+        
+      case MessageType.SUGGEST_VARIANTS:
+        await handleSuggestVariants(msg.templateId, msg.anchorRole, msg.anchorColor);
+        break;
+        
+      case MessageType.UPDATE_CONTRAST_PAIRS:
+        await handleUpdateContrastPairs(msg.templateId, msg.pairs, msg.store);
+        break;
+        
+      case MessageType.EXPORT_DESIGN_TOKENS:
+        await handleExportDesignTokens(msg.templateId, msg.palettes, msg.useOklch);
+        break;
+        
+      case MessageType.CANCEL_OPERATION:
+        handleCancelOperation();
+        break;
+        
+      case MessageType.DRY_RUN_APPLY:
+        await handleDryRunApply(msg.templateId, msg.colorChanges, msg.driverRole, msg.instanceMode);
+        break;
+        
+      case MessageType.DRY_RUN_UPDATE_VARIANTS:
+        await handleDryRunUpdateVariants(msg.templateId, msg.scope);
+        break;
+        
+      case MessageType.CHECK_DRIFT:
+        await handleCheckDrift(msg.templateId, msg.scope, msg.tolerance);
+        break;
+        
+      case MessageType.REPAIR_DRIFT:
+        await handleRepairDrift(msg.templateId, msg.targets);
+        break;
+        
+      case MessageType.UPDATE_TEMPLATE_FROM_LAYER:
+        await handleUpdateTemplateFromLayer(msg.templateId, msg.target);
+        break;
+        
       default:
         figma.notify('Unknown message type', { error: true });
     }
@@ -461,11 +767,10 @@ function handleAnalyzeSelection(): void {
     return;
   }
   
-  const root = selection[0];
-  const layerColors = analyzeNodeColors(root);
+  const layerColors = analyzeNodeColors(selection);
   
   if (layerColors.length === 0) {
-    figma.notify('No layers with solid fills found in selection');
+    figma.notify('No solid, gradient or shadow colors found in selection');
     return;
   }
   
@@ -476,11 +781,11 @@ function handleAnalyzeSelection(): void {
   });
 }
 
-async function handleUpdateRole(nodeId: string, role: string): Promise<void> {
+async function handleUpdateRole(nodeId: string, role: string, slot: PaintSlot = FILL_SLOT): Promise<void> {
   const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
   if (node) {
-    markRole(node, role);
-    figma.notify(`Updated ${node.name} to role ${role}`);
+    markRole(node, role, slot);
+    figma.notify(`Updated ${node.name} (${describeSlot(node, slot)}) to role ${role}`);
   }
 }
 
@@ -502,7 +807,8 @@ async function handleCreateTemplate(templateName: string, layerColors: LayerColo
     name: templateName,
     colorNames: {},
     originalColors: {},
-    roles: {}
+    roles: {},
+    colorSpace: workingSpace
   };
   
   // Store display names, original colors, and compute rules for each color
@@ -530,34 +836,178 @@ async function handleCreateTemplate(templateName: string, layerColors: LayerColo
   await handleGetTemplates(); // Refresh UI
 }
 
-async function handleApplyTemplate(templateId: string, colorChanges: Record<string, HexColor>): Promise<void> {
-  const template = await getTemplate(templateId);
-  if (!template) {
-    figma.notify('Template not found');
-    return;
+/**
+ * @param rootIds - Layers the user reviewed in the dry run, applied instead of the current selection
+ */
+async function handleApplyTemplate(templateId: string, requestedChanges: Record<string, string>, tokenMode: ColorTokenMode = 'none', tokenName: string = 'Default', driverRole?: string, instanceMode: InstanceMode = 'override', rootIds?: string[]): Promise<void> {
+  const prepared = await prepareApply(templateId, requestedChanges, driverRole, rootIds);
+  if (!prepared) return;
+  const { template, selection, colorChanges } = prepared;
+  
+  const contrastReport: ContrastResult[] = [];
+  const finalColors = computeColorsWithChanges(template, colorChanges, contrastReport);
+  postContrastReport(template, [{ name: tokenName, results: contrastReport }]);
+  
+  // Each root is recolored completely or not at all; a cancel keeps the roots already done
+  const targets: SceneNode[] = [];
+  let switched = 0;
+  let mainComponents = 0;
+  const result = await runOperation(`Apply "${template.name}"`, selection.length, false, async operation => {
+    for (const root of selection) {
+      if (operation.cancelled) {
+        operation.roots.push(rootResult(root, 'cancelled'));
+        continue;
+      }
+      
+      try {
+        // Instances switch variants or recolor their main component instead of collecting overrides
+        const target = await instanceApplyTarget(root, finalColors, instanceMode, false, operation.rollback);
+        if (!target) {
+          switched++;
+          operation.roots.push(rootResult(root, 'switched', `Switched to a matching ${VARIANT_PROPERTY} variant`));
+        } else if (targets.indexOf(target) !== -1) {
+          operation.roots.push(rootResult(root, 'applied', `Recolored through main component "${target.name}"`)); // Several instances of one main component
+        } else {
+          const restore = snapshotRoot(target);
+          try {
+            applyTemplateToRootWithChanges(target, template, colorChanges);
+          } catch (error) {
+            restore();
+            throw error;
+          }
+          operation.rollback.push(restore);
+          targets.push(target);
+          if (target !== root) mainComponents++;
+          operation.roots.push(rootResult(root, 'applied', target !== root ? `Recolored through main component "${target.name}"` : undefined));
+        }
+      } catch (error) {
+        operation.roots.push(rootResult(root, 'failed', errorMessage(error)));
+      }
+      await advanceOperation(operation);
+    }
+    
+    const tokenSet = targets.length > 0 && await syncRoleTokens(template, tokenName, finalColors, tokenMode, operation.rollback);
+    if (tokenSet) {
+      for (const target of targets) {
+        await bindRoleTokens(target, tokenSet);
+      }
+    }
+  });
+  if (!result || result.status !== 'completed') return;
+  
+  const notes: string[] = [];
+  if (switched > 0) notes.push(`${switched} ${switched === 1 ? 'instance' : 'instances'} switched to a matching ${VARIANT_PROPERTY} variant`);
+  if (mainComponents > 0) notes.push(`${mainComponents} main ${mainComponents === 1 ? 'component' : 'components'} recolored`);
+  figma.notify(`Template applied successfully${notes.length > 0 ? ` (${notes.join(', ')})` : ''}${gamutReportNote()}`);
+}
+
+/**
+ * Send the UI what an apply would change on every selected layer, without writing anything
+ */
+async function handleDryRunApply(templateId: string, requestedChanges: Record<string, string>, driverRole?: string, instanceMode: InstanceMode = 'override'): Promise<void> {
+  const prepared = await prepareApply(templateId, requestedChanges, driverRole);
+  if (!prepared) return;
+  const { template, selection, colorChanges } = prepared;
+  
+  const finalColors = computeColorsWithChanges(template, colorChanges);
+  const targets: SceneNode[] = [];
+  const roots: RootDiff[] = [];
+  for (const root of selection) {
+    const target = await instanceApplyTarget(root, finalColors, instanceMode, true);
+    if (!target) {
+      roots.push({ rootId: root.id, rootName: root.name, note: `Switches to a matching ${VARIANT_PROPERTY} variant`, slots: [], missingRoles: [] });
+    } else if (targets.indexOf(target) !== -1) {
+      roots.push({ rootId: root.id, rootName: root.name, note: `Recolored through main component "${target.name}" above`, slots: [], missingRoles: [] });
+    } else {
+      targets.push(target);
+      const diff = dryRunTemplateOnRootWithChanges(target, template, colorChanges);
+      roots.push(target === root ? diff : { ...diff, rootId: root.id, rootName: root.name, note: `Recolors main component "${target.name}"` });
+    }
   }
   
-  const selection = figma.currentPage.selection;
-  if (selection.length === 0) {
-    figma.notify('Please select nodes to apply template to');
+  figma.ui.postMessage({ type: 'apply-diff', action: 'apply-template', templateName: template.name, roots });
+}
+
+/**
+ * Send the UI the exact colors applyTemplateToRootWithChanges would write for these changes
+ */
+async function handlePreview(templateId: string, requestedChanges: Record<string, string>, requestId: number, driverRole?: string): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) return;
+  
+  // Typing errors go back to the UI instead of a notification on every keystroke
+  const requested = parseColorInputs(requestedChanges, template.colorNames);
+  if (requested.error) {
+    figma.ui.postMessage({ type: 'preview-colors', templateId, requestId, error: requested.error });
     return;
   }
   
-  // Extract base color (required for calculations)
-  const baseColor = colorChanges['Base'];
-  if (!baseColor) {
-    figma.notify('Base color is required');
+  const colorChanges = resolveColorChanges(template, requested.colors, driverRole);
+  if (!colorChanges) return;
+  
+  figma.ui.postMessage({
+    type: 'preview-colors',
+    templateId,
+    requestId,
+    colors: computeColorsWithChanges(template, colorChanges)
+  });
+}
+
+function handlePreviewScale(requested: ScaleOptions): void {
+  const { options, error } = parseScaleOptions(requested);
+  figma.ui.postMessage({
+    type: 'scale-preview',
+    error,
+    steps: options ? generateScale(options) : []
+  });
+}
+
+async function handleCreateScale(requested: ScaleOptions, name: string, saveTemplate: boolean): Promise<void> {
+  const { options, error } = parseScaleOptions(requested);
+  if (!options) {
+    figma.notify(error || 'Scale options are missing', { error: true });
     return;
   }
   
-  for (const root of selection) {
-    applyTemplateToRootWithChanges(root, template, colorChanges);
+  const scaleName = (name || '').trim() || 'Scale';
+  const steps = generateScale(options);
+  const frame = await placeScale(scaleName, steps);
+  
+  if (saveTemplate) {
+    const template = createScaleTemplate(scaleName, steps);
+    await storeTemplate(template);
+    frame.setPluginData('templateId', template.id);
+    frame.setPluginData('baseColor', template.originalColors['Base']);
+    await handleGetTemplates();
+  }
+  
+  figma.currentPage.selection = [frame];
+  figma.viewport.scrollAndZoomIntoView([frame]);
+  figma.notify(`Created ${steps.length}-step scale "${scaleName}"${saveTemplate ? ' and saved it as a template' : ''}${gamutReportNote()}`);
+}
+
+async function handleSuggestVariants(templateId: string, anchorRole: string, anchorColor?: string): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template || !template.originalColors[anchorRole]) {
+    figma.notify('Pick a template color to build suggestions from');
+    return;
   }
   
-  figma.notify('Template applied successfully');
+  // Without a color typed in, suggestions start from the template's own
+  const parsed = anchorColor ? parseColor(anchorColor) : null;
+  if (parsed && parsed.hex === null) {
+    figma.notify(parsed.error, { error: true });
+    return;
+  }
+  const color = parsed ? parsed.hex as HexColor : template.originalColors[anchorRole];
+  figma.ui.postMessage({
+    type: 'variant-suggestions',
+    anchorRole,
+    suggestions: suggestHarmonyVariants(anchorRole, color)
+  });
 }
 
-async function handleBatchGenerate(templateId: string, variants: VariantInfo[]): Promise<void> {
+async function handleBatchGenerate(templateId: string, variants: VariantInfo[], tokenMode: ColorTokenMode = 'none', derivation: DerivationMode = 'shift', layout: BatchLayout = DEFAULT_BATCH_LAYOUT): Promise<void> {
   const template = await getTemplate(templateId);
   if (!template) {
     figma.notify('Template not found');
@@ -575,254 +1025,2260 @@ async function handleBatchGenerate(templateId: string, variants: VariantInfo[]):
     return;
   }
 
-  const sourceComponent = selection[0];
-  
-  // Create grid of duplicates with auto-calculated layout
-  const duplicates = duplicateInGrid(sourceComponent, variants.length);
+  const layoutError = validateBatchLayout(layout);
+  if (layoutError) {
+    figma.notify(layoutError, { error: true });
+    return;
+  }
   
-  // Apply template with different anchor colors to each duplicate
-  for (let i = 0; i < duplicates.length && i < variants.length; i++) {
-    const duplicate = duplicates[i];
-    const variant = variants[i];
-    
-    // Apply template using anchor-based system
-    applyTemplateToRootWithAnchor(duplicate, template, variant.anchorColor, variant.hexColor);
+  // Variant colors can be typed in any CSS syntax
+  const parsedVariants: VariantInfo[] = [];
+  for (const variant of variants) {
+    const parsed = parseColor(variant.hexColor);
+    if (parsed.hex === null) {
+      figma.notify(`Variant "${variant.name}": ${parsed.error}`, { error: true });
+      return;
+    }
     
-    // Set the component name to the variant name
-    duplicate.name = variant.name;
+    // Reject variants the template can't derive colors for before anything is cloned
+    const anchorName = template.colorNames[variant.anchorColor] || variant.anchorColor;
+    const underivable = derivation === 'rules'
+      ? !resolveColorChanges(template, { [variant.anchorColor]: parsed.hex }, variant.anchorColor) && `${anchorName} has no rule to derive the palette from`
+      : !template.originalColors[variant.anchorColor] && `no original color found for ${anchorName}`;
+    if (underivable) {
+      figma.notify(`Variant "${variant.name}": ${underivable}`, { error: true });
+      return;
+    }
+    parsedVariants.push({ ...variant, hexColor: parsed.hex });
   }
-
-  // Select all the new components
-  figma.currentPage.selection = duplicates;
-  figma.viewport.scrollAndZoomIntoView(duplicates);
-  
-  figma.notify(`Generated ${duplicates.length} variants in auto-grid layout`);
-}
-
-async function handleGetTemplates(): Promise<void> {
-  const templates = await getAllTemplates();
-  figma.ui.postMessage({
-    type: 'templates-updated',
-    templates
+  variants = parsedVariants;
+  
+  // Every selected source gets its own set of variants
+  const sources = [...selection];
+  const containers: SceneNode[] = [];
+  let outputPage: PageNode | undefined;
+  const contrastReports: { name: string, results: ContrastResult[] }[] = [];
+  let generated = 0;
+  
+  // All or nothing: a failure or a cancel removes every clone the batch created
+  const result = await runOperation(`Generate "${template.name}" variants`, sources.length * variants.length, true, async operation => {
+    for (const sourceComponent of sources) {
+      if (operation.cancelled) {
+        operation.roots.push(rootResult(sourceComponent, 'cancelled'));
+        continue;
+      }
+      
+      try {
+        // Components become a component set with one variant per color, anything else an auto-layout frame
+        // Sources placed on a new page share one
+        if (layout.placement === 'new-page' && !outputPage) {
+          outputPage = await createOutputPage(`${template.name} variants`, operation.rollback);
+        }
+        const { duplicates, container } = await createBatchOutput(sourceComponent, variants.map(variant => variant.name), layout, operation.rollback, outputPage);
+        containers.push(container);
+        
+        // Apply template with different anchor colors to each duplicate
+        for (let i = 0; i < duplicates.length && i < variants.length && !operation.cancelled; i++) {
+          const duplicate = duplicates[i];
+          const variant = variants[i];
+          
+          // Shift every color with the anchor, or solve Base from it and derive the rest through the rules
+          const contrastReport: ContrastResult[] = [];
+          let variantColors: Record<string, HexColor> | null;
+          if (derivation === 'rules') {
+            const colorChanges = resolveColorChanges(template, { [variant.anchorColor]: variant.hexColor }, variant.anchorColor);
+            if (colorChanges) {
+              applyTemplateToRootWithChanges(duplicate, template, colorChanges);
+            }
+            variantColors = colorChanges && computeColorsWithChanges(template, colorChanges, contrastReport);
+          } else {
+            applyTemplateToRootWithAnchor(duplicate, template, variant.anchorColor, variant.hexColor);
+            variantColors = computeColorsWithAnchor(template, variant.anchorColor, variant.hexColor, contrastReport);
+          }
+          
+          // Each variant becomes a variable mode or its own set of styles
+          contrastReports.push({ name: sources.length > 1 ? `${sourceComponent.name} / ${variant.name}` : variant.name, results: contrastReport });
+          const tokenSet = variantColors && await syncRoleTokens(template, variant.name, variantColors, tokenMode, operation.rollback);
+          if (tokenSet) {
+            await bindRoleTokens(duplicate, tokenSet);
+          }
+          await advanceOperation(operation);
+        }
+        
+        generated += duplicates.length;
+        operation.roots.push(operation.cancelled
+          ? rootResult(sourceComponent, 'cancelled')
+          : rootResult(sourceComponent, 'applied', `${duplicates.length} variants`));
+      } catch (error) {
+        operation.roots.push(rootResult(sourceComponent, 'failed', errorMessage(error)));
+        throw error;
+      }
+    }
   });
-}
+  if (!result || result.status !== 'completed') return;
 
-// =============================================================================
-// UTILITY FUNCTIONS
-// =============================================================================
+  postContrastReport(template, contrastReports);
 
-function rgbToHex(color: RGB): HexColor {
-  const toHex = (c: number) => Math.round(c * 255).toString(16).padStart(2, '0');
-  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}` as HexColor;
+  // Select the new component sets or wrappers
+  const visible = containers.filter(container => pageOf(container) === figma.currentPage);
+  figma.currentPage.selection = visible;
+  figma.viewport.scrollAndZoomIntoView(visible);
+  
+  const kind = containers.every(container => container.type === 'COMPONENT_SET') ? 'component variants' : 'variants';
+  figma.notify(`Generated ${generated} ${kind}${sources.length > 1 ? ` for ${sources.length} sources` : ''}${gamutReportNote()}`);
 }
 
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+async function handleGenerateMatrix(spec: MatrixSpec, tokenMode: ColorTokenMode = 'none', layout: BatchLayout = DEFAULT_BATCH_LAYOUT): Promise<void> {
+  const selection = figma.currentPage.selection;
+  if (selection.length === 0) {
+    figma.notify('Please select a component to duplicate');
+    return;
+  }
+  
+  // Load every template the matrix can use up front
+  const templates: Record<string, Template> = {};
+  for (const store of TEMPLATE_STORES) {
+    Object.assign(templates, await getAllTemplates(store));
+  }
+  
+  const error = validateMatrixSpec(spec, templates) || validateBatchLayout(layout);
+  if (error) {
+    figma.notify(error, { error: true });
+    return;
+  }
+  
+  const source = selection[0];
+  const cells = matrixCells(spec.axes);
+  const contrastReports: { name: string, results: ContrastResult[] }[] = [];
+  const skipped: string[] = [];
+  let container = null as SceneNode | null; // Set inside the operation
+  
+  // Like a batch, a failed or cancelled matrix removes everything it created
+  const result = await runOperation(`Generate "${templates[spec.templateId].name}" matrix`, cells.length, true, async operation => {
+    try {
+      const output = await createMatrixOutput(source, spec.axes, cells, layout, operation.rollback);
+      container = output.container;
+      
+      for (let i = 0; i < cells.length && !operation.cancelled; i++) {
+        const cell = cells[i];
+        const name = cell.map(value => value.label).join(' / ');
+        const templateAxis = spec.axes.map((axis, index) => axis.kind === 'template' ? cell[index].templateId : undefined).filter(Boolean).pop();
+        const template = templates[templateAxis || spec.templateId];
+        
+        // Role axes set their roles explicitly; the first one drives Base when no axis sets it
+        const overrides: Record<string, HexColor> = {};
+        let driverRole: string | undefined;
+        spec.axes.forEach((axis, index) => {
+          if (axis.kind === 'role' && axis.role && template.originalColors[axis.role]) {
+            const parsed = parseColor(cell[index].color || '');
+            if (parsed.hex === null) {
+              throw new Error(`"${cell[index].label}" on axis "${axis.name}": ${parsed.error}`);
+            }
+            overrides[axis.role] = parsed.hex;
+            driverRole = driverRole || axis.role;
+          }
+        });
+        const colorChanges = resolveColorChanges(template, Object.keys(overrides).length > 0 ? overrides : { Base: template.originalColors['Base'] }, driverRole);
+        if (colorChanges) {
+          applyTemplateToRootWithChanges(output.duplicates[i], template, colorChanges);
+          
+          const contrastReport: ContrastResult[] = [];
+          const cellColors = computeColorsWithChanges(template, colorChanges, contrastReport);
+          if (contrastReport.length > 0) {
+            contrastReports.push({ name, results: contrastReport });
+          }
+          const tokenSet = await syncRoleTokens(template, name, cellColors, tokenMode, operation.rollback);
+          if (tokenSet) {
+            await bindRoleTokens(output.duplicates[i], tokenSet);
+          }
+        } else {
+          skipped.push(name); // No role of the cell has a rule to solve Base from, the clone keeps the source colors
+        }
+        await advanceOperation(operation);
+      }
+      
+      const skippedNote = skipped.length > 0 ? `, ${skipped.length} left uncolored: ${skipped.join(', ')}` : '';
+      operation.roots.push(rootResult(source, operation.cancelled ? 'cancelled' : 'applied', `${cells.length} variants${skippedNote}`));
+    } catch (error) {
+      operation.roots.push(rootResult(source, 'failed', errorMessage(error)));
+      throw error;
+    }
+  });
+  if (!result || result.status !== 'completed' || !container) return;
+  
+  if (contrastReports.length > 0) {
+    figma.ui.postMessage({ type: 'contrast-report', templateName: templates[spec.templateId].name, variants: contrastReports });
+  }
+  
+  figma.currentPage.selection = [container];
+  figma.viewport.scrollAndZoomIntoView([container]);
+  const skippedNote = skipped.length > 0 ? ` (${skipped.length} ${skipped.length === 1 ? 'cell' : 'cells'} left uncolored, no role with a rule to derive ${skipped.join(', ')} from)` : '';
+  figma.notify(`Generated a ${spec.axes.map(axis => axis.values.length).join(' × ')} matrix${skippedNote}${gamutReportNote()}`, { error: skipped.length > 0 });
 }
 
-/**
- * Duplicate a node in an automatically calculated grid layout
- * @param node - The node to duplicate
- * @param count - Total number of copies to create
- * @param columns - Number of columns (optional, will auto-calculate if not provided)
- * @param gap - Gap between items in pixels (optional, defaults to 50)
- * @returns Array of duplicated nodes
- */
-function duplicateInGrid(node: SceneNode, count: number, columns?: number, gap: number = 50): SceneNode[] {
-  const duplicates: SceneNode[] = [];
+async function handleUpdateVariants(templateId: string, scope: VariantScope = 'page', rootIds?: string[]): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Auto-calculate optimal columns if not provided
-  if (!columns) {
-    if (count <= 2) columns = 2;
-    else if (count <= 4) columns = 2; 
-    else if (count <= 9) columns = 3;
-    else columns = 4; // Max 4 columns for readability
+  // Only the variants reviewed in the dry run, not ones stamped since
+  const roots = (await findTemplateRoots(templateId, scope)).filter(root => !rootIds || rootIds.indexOf(root.id) !== -1);
+  if (roots.length === 0) {
+    figma.notify(`No variants of "${template.name}" found on this ${scope}`);
+    return;
   }
   
-  // Get node dimensions for positioning
-  const nodeWidth = 'width' in node ? node.width : 100;
-  const nodeHeight = 'height' in node ? node.height : 100;
+  // Like an apply, each variant is updated completely or not at all and a cancel keeps the ones already done
+  const result = await runOperation(`Update "${template.name}" variants`, roots.length, false, async operation => {
+    for (const root of roots) {
+      if (operation.cancelled) {
+        operation.roots.push(rootResult(root, 'cancelled'));
+        continue;
+      }
+      
+      const restore = snapshotRoot(root);
+      try {
+        if (reapplyTemplateToRoot(root, template)) {
+          operation.rollback.push(restore);
+          operation.roots.push(rootResult(root, 'applied'));
+        } else {
+          operation.roots.push(rootResult(root, 'skipped', 'No stored color to derive from'));
+        }
+      } catch (error) {
+        restore();
+        operation.roots.push(rootResult(root, 'failed', errorMessage(error)));
+      }
+      await advanceOperation(operation);
+    }
+  });
+  if (!result) return;
   
-  // Calculate grid positions
-  for (let i = 0; i < count; i++) {
-    const clone = node.clone();
-    
-    // Calculate grid position
-    const row = Math.floor(i / columns);
-    const col = i % columns;
-    
-    // Position the clone
-    const x = node.x + col * (nodeWidth + gap);
-    const y = node.y + row * (nodeHeight + gap);
-    
-    clone.x = x;
-    clone.y = y;
-    
-    // Add to current page
-    figma.currentPage.appendChild(clone);
-    duplicates.push(clone);
+  const count = (status: RootStatus) => result.roots.filter(root => root.status === status).length;
+  const summary: UpdateVariantsSummary = { updated: count('applied'), skipped: count('skipped'), failed: count('failed') };
+  if (result.status === 'completed') {
+    figma.notify(`Updated ${summary.updated} variants (${summary.skipped} skipped)${gamutReportNote()}`);
   }
   
-  return duplicates;
+  figma.ui.postMessage({
+    type: 'variants-updated',
+    templateName: template.name,
+    summary
+  });
 }
 
 /**
- * Apply template to a component using anchor-based color changes
- * Similar to the frontend logic but using backend OKLCH calculations
+ * Send the UI what Update variants would change on every stamped root, without writing anything
  */
-function applyTemplateToRootWithAnchor(root: SceneNode, template: Template, anchorRole: string, newAnchorColor: HexColor): void {
-  const roleIndex = indexRoles(root);
-  const originalAnchorColor = template.originalColors[anchorRole];
+async function handleDryRunUpdateVariants(templateId: string, scope: VariantScope = 'page'): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  if (!originalAnchorColor) {
-    console.warn('No original color found for anchor role:', anchorRole);
+  const roots = await findTemplateRoots(templateId, scope);
+  if (roots.length === 0) {
+    figma.notify(`No variants of "${template.name}" found on this ${scope}`);
     return;
   }
   
-  // Calculate color shift in OKLCH space
-  const originalOKLCH = hexToOKLCH(originalAnchorColor);
-  const newOKLCH = hexToOKLCH(newAnchorColor);
+  const diffs = roots.map(root => dryRunReapplyTemplateToRoot(root, template) ||
+    { rootId: root.id, rootName: root.name, note: 'Skipped, no stored color to derive from', slots: [], missingRoles: [] });
+  figma.ui.postMessage({ type: 'apply-diff', action: 'update-variants', templateName: template.name, roots: diffs });
+}
+
+/**
+ * List every layer of the template's stamped roots whose color no longer matches
+ * what the template derives from the root's stored base or anchor
+ */
+async function handleCheckDrift(templateId: string, scope: VariantScope = 'page', tolerance: number = DEFAULT_DRIFT_TOLERANCE): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  const shift = {
-    L: newOKLCH.L - originalOKLCH.L,
-    C: newOKLCH.C - originalOKLCH.C, 
-    H: newOKLCH.H - originalOKLCH.H
-  };
+  const roots = await findTemplateRoots(templateId, scope);
+  const drifted: RootDiff[] = [];
+  for (const root of roots) {
+    const diff = dryRunReapplyTemplateToRoot(root, template);
+    const slots = diff ? diff.slots.filter(slot => slot.current && slot.next && isDrifted(slot.current, slot.next, tolerance)) : [];
+    if (diff && slots.length > 0) {
+      drifted.push({ ...diff, slots, missingRoles: [] });
+    }
+  }
   
-  // Handle hue wraparound
-  if (shift.H > 180) shift.H -= 360;
-  if (shift.H < -180) shift.H += 360;
+  figma.ui.postMessage({ type: 'drift-report', templateId, templateName: template.name, checked: roots.length, roots: drifted });
+}
+
+/**
+ * Recolor drifted layers back to what their template derives for their root, as one undo step
+ */
+async function handleRepairDrift(templateId: string, targets: DriftTarget[]): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Apply shift to all colors in the template
-  Object.entries(template.originalColors).forEach(([role, originalColor]) => {
-    let finalColor: HexColor;
-    
-    if (role === anchorRole) {
-      // Use the exact anchor color
-      finalColor = newAnchorColor;
-    } else {
-      // Apply proportional shift to this color
-      const originalRoleOKLCH = hexToOKLCH(originalColor);
-      const shiftedOKLCH = {
-        L: Math.max(0, Math.min(1, originalRoleOKLCH.L + shift.L)),
-        C: Math.max(0, originalRoleOKLCH.C + shift.C),
-        H: (originalRoleOKLCH.H + shift.H + 360) % 360
-      };
+  const result = await runOperation(`Repair "${template.name}"`, targets.length, false, async operation => {
+    for (const target of targets) {
+      const root = await figma.getNodeByIdAsync(target.rootId) as SceneNode | null;
+      const node = await figma.getNodeByIdAsync(target.nodeId) as SceneNode | null;
+      if (!root || !node) {
+        operation.roots.push({ nodeId: target.nodeId, name: target.nodeId, status: 'failed', detail: 'The layer no longer exists' });
+        continue;
+      }
+      if (operation.cancelled) {
+        operation.roots.push(rootResult(node, 'cancelled'));
+        continue;
+      }
       
-      finalColor = oklchToHex(gamutClamp(shiftedOKLCH));
-    }
-    
-    // Apply color to nodes with this role
-    const nodes = roleIndex[role] || [];
-    for (const node of nodes) {
-      applyColorToNode(node, finalColor);
+      const color = expectedSlotColor(root, node, target.slot, template);
+      if (color) {
+        applyColorToNode(node, color, target.slot);
+        operation.roots.push(rootResult(node, 'applied', `${describeSlot(node, target.slot)} back to ${color}`));
+      } else {
+        operation.roots.push(rootResult(node, 'failed', `"${root.name}" no longer derives a color for this layer`));
+      }
+      await advanceOperation(operation);
     }
   });
+  if (!result || result.status !== 'completed') return;
   
-  // Store template reference
-  root.setPluginData('templateId', template.id);
-  root.setPluginData('anchorColor', anchorRole);
-  root.setPluginData('anchorValue', newAnchorColor);
+  figma.notify(`Repaired ${targets.length} ${targets.length === 1 ? 'layer' : 'layers'}`);
 }
 
-function applyTemplateToRoot(root: SceneNode, template: Template, baseHex: HexColor): void {
-  const roleIndex = indexRoles(root);
+/**
+ * Change the template so it derives a drifted layer's current color for that layer's root.
+ * Other variants of the template then drift until they are updated
+ */
+async function handleUpdateTemplateFromLayer(templateId: string, target: DriftTarget): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Apply base color
-  for (const node of roleIndex.Base) {
-    applyColorToNode(node, baseHex);
+  const root = await figma.getNodeByIdAsync(target.rootId) as SceneNode | null;
+  const node = await figma.getNodeByIdAsync(target.nodeId) as SceneNode | null;
+  const role = node && getRole(node, target.slot);
+  const color = node && getSlotColor(node, target.slot);
+  const source = root && variantSource(root);
+  if (!root || !node || !role || !color || !source) {
+    figma.notify('That layer no longer has a role color to read', { error: true });
+    return;
   }
   
-  // Apply derived colors
-  for (const [roleName, rule] of Object.entries(template.roles)) {
-    if (rule) {
-      const derivedColor = applyRule(rule, baseHex);
-      const nodes = roleIndex[roleName as ColorRole];
-      
-      for (const node of nodes) {
-        applyColorToNode(node, derivedColor);
-      }
-    }
+  const roleName = template.colorNames[role] || role;
+  const fit = fitRoleToColor(template, role, rgbToHex(color, color.a), source);
+  if (!fit) {
+    figma.notify(`${roleName} is not derived by the rules on "${root.name}", repair it or apply the template again instead`, { error: true });
+    return;
   }
   
-  // Store template reference on root
-  root.setPluginData('templateId', template.id);
-  root.setPluginData('baseColor', baseHex);
+  template.roles[role] = fit.rule;
+  template.originalColors[role] = fit.originalColor;
+  await storeTemplate(template);
+  await handleGetTemplates();
+  figma.notify(`${roleName} in "${template.name}" now follows ${node.name}, update the other variants to match${gamutReportNote()}`);
 }
 
-function applyTemplateToRootWithChanges(root: SceneNode, template: Template, colorChanges: Record<string, HexColor>): void {
-  const roleIndex = indexRoles(root);
-  const baseColor = colorChanges['Base'];
+async function handleGetTemplates(): Promise<void> {
+  const templates = await getAllTemplates('personal');
+  const documentTemplates = await getAllTemplates('document');
+  figma.ui.postMessage({
+    type: 'templates-updated',
+    templates,
+    documentTemplates
+  });
+}
+
+async function handleCopyTemplateToStore(templateId: string, from: TemplateStore, to: TemplateStore, move: boolean = false): Promise<void> {
+  const template = await getTemplate(templateId, from);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Calculate all colors based on user changes - start with all roles from template
-  const finalColors: Record<string, HexColor> = {};
+  if (from === to) {
+    figma.notify('Template is already in that library');
+    return;
+  }
   
-  // Initialize with base color
-  finalColors['Base'] = baseColor;
+  // A move keeps the id so stamped variants follow it; a copy gets its own id,
+  // since lookups without a store would always find the personal one
+  if (move) {
+    await storeTemplate(template, to);
+    await deleteTemplate(templateId, from);
+  } else {
+    await storeTemplate({ ...template, id: generateId() }, to);
+  }
   
-  // Handle direct color assignments (user picked specific colors)
-  Object.entries(colorChanges).forEach(([role, color]) => {
-    finalColors[role] = color;
-  });
+  const destination = to === 'document' ? 'this document' : 'your templates';
+  figma.notify(`${move ? 'Moved' : 'Copied'} "${template.name}" to ${destination}`);
+  await handleGetTemplates();
+}
+
+async function handleRenameTemplate(templateId: string, name: string, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Calculate derived colors for roles not explicitly set
-  Object.entries(template.roles).forEach(([roleName, rule]) => {
-    if (rule && !(roleName in colorChanges)) {
-      // User didn't specify this color, so derive it from base
-      finalColors[roleName] = applyRule(rule, baseColor);
-    }
-  });
+  const trimmedName = (name || '').trim();
+  if (!trimmedName) {
+    figma.notify('Template name cannot be empty');
+    return;
+  }
   
-  // Apply all final colors
-  Object.entries(finalColors).forEach(([role, color]) => {
-    const nodes = roleIndex[role] || [];
-    for (const node of nodes) {
-      applyColorToNode(node, color);
-    }
+  template.name = trimmedName;
+  await storeTemplate(template, store);
+  
+  figma.notify(`Template renamed to "${trimmedName}"`);
+  await handleGetTemplates();
+}
+
+async function handleDuplicateTemplate(templateId: string, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
+  
+  // Deep copy so edits to the duplicate never touch the source rules
+  const duplicate: Template = {
+    ...JSON.parse(JSON.stringify(template)),
+    id: generateId(),
+    name: `${template.name} copy`
+  };
+  const targetStore = store || await findTemplateStore(templateId) || 'personal';
+  await storeTemplate(duplicate, targetStore);
+  
+  figma.notify(`Template duplicated as "${duplicate.name}"`);
+  figma.ui.postMessage({
+    type: 'template-duplicated',
+    templateId: duplicate.id,
+    store: targetStore
   });
+  await handleGetTemplates();
+}
+
+async function handleDeleteTemplate(templateId: string, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Store template reference on root
-  root.setPluginData('templateId', template.id);
-  root.setPluginData('baseColor', baseColor);
+  await deleteTemplate(templateId, store);
+  
+  figma.notify(`Template "${template.name}" deleted`);
+  await handleGetTemplates();
 }
 
-function applyColorToNode(node: SceneNode, hexColor: HexColor): void {
-  if (!('fills' in node)) return;
+async function handleUpdateTemplateRule(templateId: string, role: string, field: RuleField, value: unknown, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
   
-  // Convert hex to RGB
-  const hex = hexColor.replace('#', '');
-  const r = parseInt(hex.substr(0, 2), 16) / 255;
-  const g = parseInt(hex.substr(2, 2), 16) / 255;
-  const b = parseInt(hex.substr(4, 2), 16) / 255;
+  const rule = template.roles[role];
+  if (!rule) {
+    figma.notify(`No rule found for ${role}`);
+    return;
+  }
   
-  const fills = [...(node.fills as readonly Paint[])];
-  if (fills.length > 0 && fills[0].type === 'SOLID') {
-    fills[0] = {
-      ...fills[0],
-      color: { r, g, b }
-    };
-    node.fills = fills;
+  const error = validateRuleField(field, value);
+  if (error) {
+    figma.notify(error, { error: true });
+    await handleGetTemplates(); // Reset the UI to the stored value
+    return;
+  }
+  
+  // Switching a channel's mode recomputes its values so the original colors still match
+  const baseColor = template.originalColors['Base'];
+  const roleColor = template.originalColors[role];
+  if (field in CHANNEL_FIELDS && baseColor && roleColor) {
+    const channel = field as keyof RuleChannels;
+    const fresh = computeRelativeRule(baseColor, roleColor, { ...ruleChannels(rule), [channel]: value }, template.colorSpace || 'srgb');
+    const updated: Record<string, unknown> = { ...rule };
+    for (const channelField of CHANNEL_FIELDS[channel]) {
+      updated[channelField] = fresh[channelField];
+    }
+    template.roles[role] = updated as unknown as RelativeRule;
+  } else {
+    template.roles[role] = { ...rule, [field]: value };
   }
+  await storeTemplate(template, store);
+  await handleGetTemplates();
 }
 
-// Template storage functions
-async function storeTemplate(template: Template): Promise<void> {
-  const templates = await getAllTemplates();
-  templates[template.id] = template;
-  await figma.clientStorage.setAsync('templates', templates);
+async function handleUpdateColorName(templateId: string, role: string, name: string, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
+  
+  if (!(role in template.originalColors)) {
+    figma.notify(`Role ${role} is not part of this template`);
+    return;
+  }
+  
+  template.colorNames[role] = (name || '').trim() || role;
+  await storeTemplate(template, store);
+  await handleGetTemplates();
 }
 
-async function getTemplate(id: string): Promise<Template | null> {
-  const templates = await getAllTemplates();
-  return templates[id] || null;
+async function handleUpdateOriginalColor(templateId: string, role: string, color: string, recomputeRoles: boolean = true, store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
+  
+  if (!(role in template.originalColors)) {
+    figma.notify(`Role ${role} is not part of this template`);
+    return;
+  }
+  
+  // Original colors are kept in the space the template was captured in
+  const templateSpace = template.colorSpace || 'srgb';
+  const parsed = parseColor(color, templateSpace);
+  if (parsed.hex === null) {
+    figma.notify(parsed.error, { error: true });
+    return;
+  }
+  
+  template.originalColors[role] = parsed.hex;
+  if (recomputeRoles) {
+    template.roles = computeTemplateRoles(template.originalColors, templateSpace);
+  }
+  await storeTemplate(template, store);
+  await handleGetTemplates();
 }
 
-async function getAllTemplates(): Promise<Record<string, Template>> {
-  try {
-    return await figma.clientStorage.getAsync('templates') || {};
+async function handleExportTemplates(templateIds: string[]): Promise<void> {
+  const selected: Template[] = [];
+  for (const id of templateIds || []) {
+    const template = await getTemplate(id);
+    if (template) selected.push(template);
+  }
+  
+  if (selected.length === 0) {
+    figma.notify('Please select templates to export');
+    return;
+  }
+  
+  const file: TemplateLibraryFile = {
+    format: TEMPLATE_LIBRARY_FORMAT,
+    version: TEMPLATE_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: selected
+  };
+  
+  figma.ui.postMessage({
+    type: 'templates-exported',
+    json: JSON.stringify(file, null, 2),
+    count: selected.length
+  });
+}
+
+async function handleImportTemplates(json: string, mode: ImportMode = 'merge', store: TemplateStore = 'personal'): Promise<void> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    postImportErrors(['File is not valid JSON']);
+    return;
+  }
+  
+  const { templates: imported, errors } = parseTemplateLibrary(parsed);
+  if (errors.length > 0) {
+    postImportErrors(errors);
+    return;
+  }
+  
+  const templates = mode === 'replace' ? {} : await getAllTemplates(store);
+  const otherStore = store === 'document' ? 'personal' : 'document';
+  const otherTemplates = await getAllTemplates(otherStore);
+  let remapped = 0;
+  
+  for (const template of imported) {
+    // Never overwrite an existing template or shadow one in the other store, give the incoming one a fresh id instead
+    if (templates[template.id] || otherTemplates[template.id]) {
+      template.id = generateId();
+      remapped++;
+    }
+    templates[template.id] = template;
+  }
+  
+  await storeAllTemplates(templates, store);
+  
+  figma.notify(`Imported ${imported.length} templates${remapped > 0 ? ` (${remapped} renumbered)` : ''}`);
+  figma.ui.postMessage({
+    type: 'templates-imported',
+    count: imported.length,
+    remapped
+  });
+  await handleGetTemplates();
+}
+
+function postImportErrors(errors: string[]): void {
+  figma.notify(`Import failed: ${errors[0]}`, { error: true });
+  figma.ui.postMessage({
+    type: 'template-import-failed',
+    errors
+  });
+}
+
+async function handleExportDesignTokens(templateId: string, palettes: VariantInfo[], useOklch: boolean = false): Promise<void> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
+  
+  // Without explicit palettes, export the template's own colors
+  const requested = palettes && palettes.length > 0
+    ? palettes
+    : [{ name: 'Default', anchorColor: 'Base', hexColor: template.originalColors['Base'] }];
+  
+  const computed: ComputedPalette[] = [];
+  for (const requestedPalette of requested) {
+    const parsed = parseColor(requestedPalette.hexColor);
+    if (parsed.hex === null) {
+      figma.notify(`Palette "${requestedPalette.name}": ${parsed.error}`, { error: true });
+      return;
+    }
+    const palette = { ...requestedPalette, hexColor: parsed.hex };
+    const colors = computePaletteColors(template, palette);
+    if (!colors) {
+      figma.notify(`No original color found for ${palette.anchorColor}`, { error: true });
+      return;
+    }
+    computed.push({ name: palette.name, colors });
+  }
+  
+  figma.ui.postMessage({
+    type: 'design-tokens-exported',
+    fileName: tokenSlug(template.name) || 'tokens',
+    dtcg: formatDtcgTokens(template, computed),
+    css: formatCssVariables(template, computed, useOklch),
+    tailwind: formatTailwindTheme(template, computed),
+    gamutMapped: gamutMappedCount
+  });
+}
+
+async function handleUpdateContrastPairs(templateId: string, pairs: ContrastPair[], store?: TemplateStore): Promise<void> {
+  const template = await getTemplate(templateId, store);
+  if (!template) {
+    figma.notify('Template not found');
+    return;
+  }
+  
+  for (const pair of pairs || []) {
+    const error = validateContrastPair(pair, template);
+    if (error) {
+      figma.notify(error, { error: true });
+      await handleGetTemplates(); // Reset the UI to the stored pairs
+      return;
+    }
+  }
+  
+  template.contrastPairs = pairs || [];
+  await storeTemplate(template, store);
+  await handleGetTemplates();
+}
+
+function postContrastReport(template: Template, variants: { name: string, results: ContrastResult[] }[]): void {
+  if (!template.contrastPairs || template.contrastPairs.length === 0) return;
+  
+  figma.ui.postMessage({
+    type: 'contrast-report',
+    templateName: template.name,
+    variants
+  });
+}
+
+function handleGetSettings(): void {
+  figma.ui.postMessage({
+    type: 'settings-updated',
+    settings: currentSettings(),
+    colorSpace: workingSpace
+  });
+}
+
+async function handleUpdateSettings(settings: Partial<PluginSettings>): Promise<void> {
+  if (settings.gamutMapping !== undefined) {
+    if (settings.gamutMapping !== 'chroma' && settings.gamutMapping !== 'estimate') {
+      figma.notify(`Unknown gamut mapping "${settings.gamutMapping}"`, { error: true });
+      return;
+    }
+    gamutMapping = settings.gamutMapping;
+  }
+  
+  if (settings.clusterThreshold !== undefined) {
+    const threshold = settings.clusterThreshold;
+    if (typeof threshold !== 'number' || !isFinite(threshold) || threshold < 0 || threshold > 0.2) {
+      figma.notify('Color merge threshold must be between 0 and 0.2', { error: true });
+      handleGetSettings(); // Reset the UI to the stored value
+      return;
+    }
+    clusterThreshold = threshold;
+  }
+  
+  await figma.clientStorage.setAsync('settings', currentSettings());
+  handleGetSettings();
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Read colors entered in the UI, in any CSS syntax, as canonical hex
+ * @param labels - Names used for each key in error messages, the key itself when missing
+ * @returns The parsed colors, or the first problem found
+ */
+function parseColorInputs(inputs: Record<string, string>, labels: Record<string, string> = {}): { colors: Record<string, HexColor>, error: string | null } {
+  const colors: Record<string, HexColor> = {};
+  for (const [key, input] of Object.entries(inputs || {})) {
+    const result = parseColor(input);
+    if (result.hex === null) {
+      return { colors, error: `${labels[key] || key}: ${result.error}` };
+    }
+    colors[key] = result.hex;
+  }
+  return { colors, error: null };
+}
+
+/**
+ * Work out what an apply writes: the template, the selected roots and the color changes,
+ * with Base solved from another role when it wasn't picked
+ * @param rootIds - Roots to use instead of the current selection, skipping any deleted since
+ * @returns null, after telling the user why, when there is nothing to apply
+ */
+async function prepareApply(templateId: string, requestedChanges: Record<string, string>, driverRole?: string, rootIds?: string[]): Promise<{ template: Template, selection: readonly SceneNode[], colorChanges: Record<string, HexColor> } | null> {
+  const template = await getTemplate(templateId);
+  if (!template) {
+    figma.notify('Template not found');
+    return null;
+  }
+  
+  const selection = rootIds ? await findRootsById(rootIds) : figma.currentPage.selection;
+  if (selection.length === 0) {
+    figma.notify(rootIds ? 'The reviewed layers no longer exist' : 'Please select nodes to apply template to');
+    return null;
+  }
+  
+  const requested = parseColorInputs(requestedChanges, template.colorNames);
+  if (requested.error) {
+    figma.notify(requested.error, { error: true });
+    return null;
+  }
+  
+  // Base drives the calculations, solve it from another role when it wasn't picked
+  const colorChanges = resolveColorChanges(template, requested.colors, driverRole);
+  if (!colorChanges) {
+    figma.notify('Pick a Base color or a color with a rule to build the palette from', { error: true });
+    return null;
+  }
+  
+  return { template, selection, colorChanges };
+}
+
+/**
+ * Look up roots by node id, leaving out any that were deleted
+ */
+async function findRootsById(rootIds: string[]): Promise<SceneNode[]> {
+  const roots: SceneNode[] = [];
+  for (const id of rootIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE' && !node.removed) {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Find every root stamped with a template on the current page or across the document
+ */
+async function findTemplateRoots(templateId: string, scope: VariantScope): Promise<SceneNode[]> {
+  const isStamped = (node: SceneNode) => node.getPluginData('templateId') === templateId;
+  
+  if (scope === 'page') {
+    return figma.currentPage.findAll(isStamped);
+  }
+  
+  // Other pages are not loaded with dynamic page access
+  await figma.loadAllPagesAsync();
+  
+  const roots: SceneNode[] = [];
+  for (const page of figma.root.children) {
+    roots.push(...page.findAll(isStamped));
+  }
+  return roots;
+}
+
+/**
+ * Pick variants per line when the user leaves it on automatic
+ */
+function autoBatchColumns(count: number): number {
+  if (count <= 4) return 2;
+  if (count <= 9) return 3;
+  return 4; // Max 4 columns for readability
+}
+
+function validateBatchLayout(layout: BatchLayout): string | null {
+  const isCount = (value: unknown, max: number) => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+  
+  if (!layout || !isCount(layout.columns, 50)) return 'Columns must be a whole number up to 50, or 0 for automatic';
+  if (!isCount(layout.columnGap, 2000) || !isCount(layout.rowGap, 2000)) return 'Gaps must be whole numbers of pixels up to 2000';
+  if (layout.fillOrder !== 'rows' && layout.fillOrder !== 'columns') return `Unknown fill order "${String(layout.fillOrder)}"`;
+  if (layout.placement !== 'beside-source' && layout.placement !== 'new-page') return `Unknown placement "${String(layout.placement)}"`;
+  return null;
+}
+
+/**
+ * Variant names usable as property values: no separators and no repeats
+ */
+function uniqueVariantNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const clean = (name || '').replace(/[=,]/g, '-').trim() || String(index + 1);
+    let unique = clean;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${clean} ${n}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Clone a source once per variant name and arrange the clones
+ * - ComponentNode: a new ComponentSetNode with a Color variant property
+ * - Variant inside a component set: added to that set with a Color property
+ * - Anything else: an auto-layout wrapper frame with one auto-layout frame per line
+ * @param page - Page for new-page placement, shared by every source of a batch; one is created when missing
+ * @returns The clones in variant order and the node holding them
+ */
+async function createBatchOutput(source: SceneNode, names: string[], layout: BatchLayout, rollback: RollbackStep[], page?: PageNode): Promise<{ duplicates: SceneNode[], container: SceneNode }> {
+  const variantNames = uniqueVariantNames(names);
+  const columns = layout.columns || autoBatchColumns(names.length);
+  const parentSet = source.parent && source.parent.type === 'COMPONENT_SET' ? source.parent : null;
+  const anchor: SceneNode = parentSet || source;
+  
+  let targetParent: BaseNode & ChildrenMixin = anchor.parent || figma.currentPage;
+  if (layout.placement === 'new-page') {
+    targetParent = page || await createOutputPage(`${source.name} variants`, rollback);
+  }
+  
+  const duplicates = variantNames.map(() => source.clone());
+  duplicates.forEach(duplicate => rollback.push(removeNode(duplicate)));
+  
+  if (source.type === 'COMPONENT' && parentSet && layout.placement === 'beside-source') {
+    // Grow the existing set below its current variants
+    duplicates.forEach((duplicate, index) => {
+      duplicate.name = mergedVariantName(source, { [VARIANT_PROPERTY]: variantNames[index] });
+    });
+    positionInGrid(duplicates, columns, layout, 0, parentSet.height + layout.rowGap);
+    const { width, height } = parentSet;
+    rollback.push(() => parentSet.resizeWithoutConstraints(width, height));
+    const right = Math.max(parentSet.width, ...duplicates.map(d => d.x + d.width));
+    const bottom = Math.max(...duplicates.map(d => d.y + d.height));
+    parentSet.resizeWithoutConstraints(right + layout.columnGap, bottom + layout.rowGap);
+    return { duplicates, container: parentSet };
+  }
+  
+  if (source.type === 'COMPONENT') {
+    duplicates.forEach((duplicate, index) => {
+      duplicate.name = mergedVariantName(source, { [VARIANT_PROPERTY]: variantNames[index] });
+      targetParent.appendChild(duplicate); // Clones of a variant start out inside its set
+    });
+    positionInGrid(duplicates, columns, layout, 0, 0);
+    const componentSet = figma.combineAsVariants(duplicates as ComponentNode[], targetParent);
+    rollback.push(removeNode(componentSet));
+    componentSet.name = `${source.name} colors`;
+    placeBatchContainer(componentSet, anchor, layout);
+    return { duplicates, container: componentSet };
+  }
+  
+  duplicates.forEach((duplicate, index) => {
+    duplicate.name = variantNames[index];
+  });
+  
+  const wrapper = createAutoLayoutFrame(`${source.name} variants`, layout.fillOrder === 'rows' ? 'VERTICAL' : 'HORIZONTAL', layout.fillOrder === 'rows' ? layout.rowGap : layout.columnGap);
+  rollback.push(removeNode(wrapper));
+  targetParent.appendChild(wrapper);
+  for (let start = 0; start < duplicates.length; start += columns) {
+    const lineNumber = start / columns + 1;
+    const line = layout.fillOrder === 'rows'
+      ? createAutoLayoutFrame(`Row ${lineNumber}`, 'HORIZONTAL', layout.columnGap)
+      : createAutoLayoutFrame(`Column ${lineNumber}`, 'VERTICAL', layout.rowGap);
+    rollback.push(removeNode(line));
+    duplicates.slice(start, start + columns).forEach(duplicate => line.appendChild(duplicate));
+    wrapper.appendChild(line);
+  }
+  placeBatchContainer(wrapper, anchor, layout);
+  return { duplicates, container: wrapper };
+}
+
+/**
+ * Variant name for a clone of a source component: a variant from an existing set keeps
+ * its other properties, with the given ones set or added
+ */
+function mergedVariantName(source: ComponentNode, properties: Record<string, string>): string {
+  const merged = { ...(source.variantProperties || {}), ...properties };
+  return Object.entries(merged).map(([property, value]) => `${property}=${value}`).join(', ');
+}
+
+/**
+ * Position nodes on a grid of equal cells, filling rows or columns first.
+ * Like the wrapper frames, `columns` is the number of nodes per line in the fill direction
+ */
+function positionInGrid(nodes: SceneNode[], columns: number, layout: BatchLayout, originX: number, originY: number): void {
+  const cellWidth = Math.max(...nodes.map(node => node.width));
+  const cellHeight = Math.max(...nodes.map(node => node.height));
+  
+  nodes.forEach((node, index) => {
+    const row = layout.fillOrder === 'rows' ? Math.floor(index / columns) : index % columns;
+    const col = layout.fillOrder === 'rows' ? index % columns : Math.floor(index / columns);
+    node.x = originX + col * (cellWidth + layout.columnGap);
+    node.y = originY + row * (cellHeight + layout.rowGap);
+  });
+}
+
+function createAutoLayoutFrame(name: string, direction: 'HORIZONTAL' | 'VERTICAL', spacing: number): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = direction;
+  frame.primaryAxisSizingMode = 'AUTO';
+  frame.counterAxisSizingMode = 'AUTO';
+  frame.itemSpacing = spacing;
+  frame.fills = [];
+  frame.clipsContent = false;
+  return frame;
+}
+
+/**
+ * Open a new page for batch output; rolling back returns to the current page and deletes it
+ */
+async function createOutputPage(name: string, rollback: RollbackStep[]): Promise<PageNode> {
+  const previousPage = figma.currentPage;
+  const page = figma.createPage();
+  page.name = name;
+  rollback.push(async () => {
+    if (figma.currentPage === page) {
+      await figma.setCurrentPageAsync(previousPage);
+    }
+    if (!page.removed) page.remove();
+  });
+  await figma.setCurrentPageAsync(page);
+  return page;
+}
+
+function pageOf(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Put batch output to the right of its source, or at the origin of a new page
+ */
+function placeBatchContainer(container: SceneNode, anchor: SceneNode, layout: BatchLayout): void {
+  if (layout.placement === 'new-page') {
+    // Outputs sharing the page stack top to bottom
+    const others = container.parent ? container.parent.children.filter(node => node !== container) : [];
+    container.x = 0;
+    container.y = others.length > 0 ? Math.max(...others.map(node => node.y + node.height)) + Math.max(layout.rowGap, 100) : 0;
+    return;
+  }
+  container.x = anchor.x + anchor.width + Math.max(layout.columnGap, 100);
+  container.y = anchor.y;
+}
+
+/**
+ * Validate a matrix spec against the templates it refers to
+ * @returns An error message, or null when the matrix can be generated
+ */
+function validateMatrixSpec(spec: MatrixSpec, templates: Record<string, Template>): string | null {
+  if (!spec || !templates[spec.templateId]) return 'Template not found';
+  if (!Array.isArray(spec.axes) || spec.axes.length === 0 || spec.axes.length > 4) return 'A matrix needs between 1 and 4 axes';
+  
+  const axisNames = new Set<string>();
+  for (const axis of spec.axes) {
+    const name = (axis.name || '').trim();
+    if (!name || /[=,]/.test(name)) return 'Every axis needs a name without "=" or ","';
+    if (axisNames.has(name)) return `Two axes are called "${name}"`;
+    axisNames.add(name);
+    
+    if (!Array.isArray(axis.values) || axis.values.length === 0) return `Axis "${name}" has no values`;
+    const labels = axis.values.map(value => (value.label || '').trim());
+    if (labels.some(label => !label || /[=,]/.test(label))) return `Values of "${name}" need labels without "=" or ","`;
+    if (new Set(labels).size !== labels.length) return `Values of "${name}" must have different labels`;
+    
+    if (axis.kind === 'role') {
+      if (!axis.role) return `Axis "${name}" needs a role`;
+      for (const value of axis.values) {
+        const color = parseColor(value.color || '');
+        if (color.hex === null) return `"${value.label}" on axis "${name}": ${color.error}`;
+      }
+    } else if (axis.kind === 'template') {
+      const missing = axis.values.find(value => !value.templateId || !templates[value.templateId]);
+      if (missing) return `Template "${missing.label}" on axis "${name}" was not found`;
+    } else {
+      return `Unknown axis kind "${String(axis.kind)}"`;
+    }
+  }
+  
+  // Every template a cell can use must have the roles the role axes set, or those axes would be dropped silently
+  const templateAxes = spec.axes.filter(axis => axis.kind === 'template');
+  const cellTemplates = templateAxes.length > 0
+    ? templateAxes[templateAxes.length - 1].values.map(value => templates[value.templateId as string])
+    : [templates[spec.templateId]];
+  for (const axis of spec.axes) {
+    const missing = axis.kind === 'role' && cellTemplates.find(template => !template.originalColors[axis.role as string]);
+    if (missing) return `Template "${missing.name}" has no ${axis.role} color for axis "${axis.name.trim()}"`;
+  }
+  
+  const count = spec.axes.reduce((total, axis) => total * axis.values.length, 1);
+  if (count > MAX_MATRIX_CELLS) return `A matrix can have at most ${MAX_MATRIX_CELLS} cells, this one has ${count}`;
+  return null;
+}
+
+/**
+ * Every combination of one value per axis, the last axis changing fastest
+ */
+function matrixCells(axes: MatrixAxis[]): MatrixAxisValue[][] {
+  let cells: MatrixAxisValue[][] = [[]];
+  for (const axis of axes) {
+    const next: MatrixAxisValue[][] = [];
+    for (const cell of cells) {
+      for (const value of axis.values) {
+        next.push([...cell, value]);
+      }
+    }
+    cells = next;
+  }
+  return cells;
+}
+
+/**
+ * Clone a source once per matrix cell and lay the clones out as a labeled grid:
+ * the last axis along the columns, the other axes along the rows
+ * - ComponentNode: a component set with one variant property per axis, labels around it
+ * - Anything else: an auto-layout frame of labeled rows
+ */
+async function createMatrixOutput(source: SceneNode, axes: MatrixAxis[], cells: MatrixAxisValue[][], layout: BatchLayout, rollback: RollbackStep[]): Promise<{ duplicates: SceneNode[], container: SceneNode }> {
+  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  
+  const columns = axes[axes.length - 1].values.length;
+  const rowLabel = (row: number) => cells[row * columns].slice(0, -1).map(value => value.label).join(' / ');
+  const columnLabels = axes[axes.length - 1].values.map(value => value.label);
+  const rows = cells.length / columns;
+  const parentSet = source.parent && source.parent.type === 'COMPONENT_SET' ? source.parent : null;
+  const anchor: SceneNode = parentSet || source;
+  
+  let targetParent: BaseNode & ChildrenMixin = anchor.parent || figma.currentPage;
+  if (layout.placement === 'new-page') {
+    targetParent = await createOutputPage(`${source.name} matrix`, rollback);
+  }
+  
+  const duplicates = cells.map(() => source.clone());
+  duplicates.forEach(duplicate => rollback.push(removeNode(duplicate)));
+  const createLabel = (text: string, width: number) => {
+    const label = figma.createText();
+    rollback.push(removeNode(label));
+    label.characters = text;
+    label.fontSize = 12;
+    label.textAutoResize = 'HEIGHT';
+    label.resize(Math.max(width, 1), label.height);
+    return label;
+  };
+  
+  if (source.type === 'COMPONENT') {
+    duplicates.forEach((duplicate, index) => {
+      const properties: Record<string, string> = {};
+      cells[index].forEach((value, axis) => {
+        properties[axes[axis].name] = value.label;
+      });
+      duplicate.name = mergedVariantName(source, properties);
+      targetParent.appendChild(duplicate);
+    });
+    positionInGrid(duplicates, columns, { ...layout, fillOrder: 'rows' }, 0, 0);
+    const componentSet = figma.combineAsVariants(duplicates as ComponentNode[], targetParent);
+    rollback.push(removeNode(componentSet));
+    componentSet.name = `${source.name} matrix`;
+    placeBatchContainer(componentSet, anchor, layout);
+    
+    // Component sets only hold components, so labels sit next to the set
+    const cellWidth = Math.max(...duplicates.map(d => d.width));
+    const cellHeight = Math.max(...duplicates.map(d => d.height));
+    const labels: SceneNode[] = [];
+    columnLabels.forEach((text, column) => {
+      const label = createLabel(text, cellWidth);
+      targetParent.appendChild(label);
+      label.x = componentSet.x + column * (cellWidth + layout.columnGap);
+      label.y = componentSet.y - label.height - 8;
+      labels.push(label);
+    });
+    if (axes.length > 1) {
+      for (let row = 0; row < rows; row++) {
+        const label = createLabel(rowLabel(row), 120);
+        targetParent.appendChild(label);
+        label.x = componentSet.x - 128;
+        label.y = componentSet.y + row * (cellHeight + layout.rowGap);
+        labels.push(label);
+      }
+    }
+    const group = figma.group([componentSet, ...labels], targetParent);
+    rollback.push(removeNode(group));
+    group.name = `${source.name} matrix`;
+    return { duplicates, container: componentSet };
+  }
+  
+  duplicates.forEach((duplicate, index) => {
+    duplicate.name = cells[index].map(value => value.label).join(' / ');
+  });
+  
+  const cellWidth = Math.max(...duplicates.map(d => d.width));
+  const labelWidth = axes.length > 1 ? 120 : 0;
+  const wrapper = createAutoLayoutFrame(`${source.name} matrix`, 'VERTICAL', layout.rowGap);
+  rollback.push(removeNode(wrapper));
+  targetParent.appendChild(wrapper);
+  
+  const header = createAutoLayoutFrame('Columns', 'HORIZONTAL', layout.columnGap);
+  rollback.push(removeNode(header));
+  if (labelWidth) header.appendChild(createLabel('', labelWidth));
+  columnLabels.forEach(text => header.appendChild(createLabel(text, cellWidth)));
+  wrapper.appendChild(header);
+  
+  for (let row = 0; row < rows; row++) {
+    const line = createAutoLayoutFrame(rowLabel(row) || 'Row', 'HORIZONTAL', layout.columnGap);
+    rollback.push(removeNode(line));
+    if (labelWidth) line.appendChild(createLabel(rowLabel(row), labelWidth));
+    duplicates.slice(row * columns, (row + 1) * columns).forEach(duplicate => line.appendChild(duplicate));
+    wrapper.appendChild(line);
+  }
+  
+  placeBatchContainer(wrapper, anchor, layout);
+  return { duplicates, container: wrapper };
+}
+
+/**
+ * Pick the node an apply should write to when the root is an instance
+ * @param rollback - Receives a step switching the instance back when it is switched
+ * @returns The root, its main component, or null when the instance was switched
+ * to a variant that already has these colors
+ */
+async function instanceApplyTarget(root: SceneNode, finalColors: Record<string, HexColor>, instanceMode: InstanceMode, dryRun: boolean = false, rollback: RollbackStep[] = []): Promise<SceneNode | null> {
+  if (root.type !== 'INSTANCE') return root;
+  
+  const mainComponent = await root.getMainComponentAsync();
+  if (!mainComponent) return root;
+  
+  if (switchToMatchingVariant(root, mainComponent, finalColors, dryRun, rollback)) return null;
+  
+  // Library components can't be edited from this file
+  if (instanceMode === 'main-component' && !mainComponent.remote) return mainComponent;
+  return root;
+}
+
+/**
+ * Switch an instance to the sibling variant whose role colors already match,
+ * through its exposed variant property. A dry run only reports whether it would
+ */
+function switchToMatchingVariant(instance: InstanceNode, mainComponent: ComponentNode, finalColors: Record<string, HexColor>, dryRun: boolean = false, rollback: RollbackStep[] = []): boolean {
+  const componentSet = mainComponent.parent && mainComponent.parent.type === 'COMPONENT_SET' ? mainComponent.parent : null;
+  if (!componentSet || !(VARIANT_PROPERTY in componentSet.componentPropertyDefinitions)) return false;
+  
+  const match = componentSet.children.find(variant => {
+    const colors = currentRoleColors(variant);
+    const shared = Object.keys(finalColors).filter(role => colors[role]);
+    return shared.length > 0 && shared.every(role => colors[role] === finalColors[role].toLowerCase());
+  }) as ComponentNode | undefined;
+  
+  const value = match && match.variantProperties && match.variantProperties[VARIANT_PROPERTY];
+  if (!value) return false;
+  
+  if (!dryRun) {
+    const previous = mainComponent.variantProperties && mainComponent.variantProperties[VARIANT_PROPERTY];
+    instance.setProperties({ [VARIANT_PROPERTY]: value });
+    if (previous) {
+      rollback.push(() => {
+        if (!instance.removed) instance.setProperties({ [VARIANT_PROPERTY]: previous });
+      });
+    }
+  }
+  return true;
+}
+
+/**
+ * Colors a root currently shows for each role, read from the first slot bound to it
+ */
+function currentRoleColors(root: SceneNode): Record<string, HexColor> {
+  const colors: Record<string, HexColor> = {};
+  for (const [role, bindings] of Object.entries(indexRoles(root, true))) {
+    const color = bindings.length > 0 && getSlotColor(bindings[0].node, bindings[0].slot);
+    if (color) {
+      colors[role] = rgbToHex(color, color.a);
+    }
+  }
+  return colors;
+}
+
+/**
+ * Apply template to a component using anchor-based color changes
+ * Similar to the frontend logic but using backend OKLCH calculations
+ */
+function applyTemplateToRootWithAnchor(root: SceneNode, template: Template, anchorRole: string, newAnchorColor: HexColor): void {
+  const finalColors = computeColorsWithAnchor(template, anchorRole, newAnchorColor);
+  
+  if (!finalColors) {
+    console.warn('No original color found for anchor role:', anchorRole);
+    return;
+  }
+  
+  applyRoleColors(root, finalColors);
+  
+  // Store template reference
+  root.setPluginData('templateId', template.id);
+  root.setPluginData('anchorColor', anchorRole);
+  root.setPluginData('anchorValue', newAnchorColor);
+  root.setPluginData('baseColor', '');
+  root.setPluginData('colorChanges', '');
+}
+
+/**
+ * Dry run of applyTemplateToRootWithAnchor
+ * @returns null when the template has no original color for the anchor role
+ */
+function dryRunTemplateOnRootWithAnchor(root: SceneNode, template: Template, anchorRole: string, newAnchorColor: HexColor): RootDiff | null {
+  const finalColors = computeColorsWithAnchor(template, anchorRole, newAnchorColor);
+  return finalColors && diffRoleColors(root, template, finalColors);
+}
+
+/**
+ * Re-apply a template's current rules to a root from the anchor stored on it
+ * @returns false when the root has no usable anchor for this template
+ */
+function reapplyTemplateToRoot(root: SceneNode, template: Template): boolean {
+  const source = variantSource(root);
+  if (!source) return false;
+  
+  if (source.shifted) {
+    if (!template.originalColors[source.role]) {
+      return false;
+    }
+    applyTemplateToRootWithAnchor(root, template, source.role, source.color);
+    return true;
+  }
+  
+  applyTemplateToRootWithChanges(root, template, { ...source.colorChanges, Base: source.color });
+  return true;
+}
+
+/**
+ * Read the base or anchor a root was last generated from
+ * @returns null when the root carries no stored color
+ */
+function variantSource(root: SceneNode): VariantSource | null {
+  const anchorRole = root.getPluginData('anchorColor');
+  const anchorValue = root.getPluginData('anchorValue') as HexColor;
+  if (anchorRole && anchorValue) {
+    return { role: anchorRole, color: anchorValue, shifted: true };
+  }
+  
+  const baseColor = root.getPluginData('baseColor') as HexColor;
+  if (!baseColor) return null;
+  
+  const stored = root.getPluginData('colorChanges');
+  let colorChanges: Record<string, HexColor> = {};
+  try {
+    colorChanges = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Ignoring unreadable color changes on', root.name, error);
+  }
+  return { role: 'Base', color: baseColor, shifted: false, colorChanges };
+}
+
+/**
+ * Color the template derives for one role-bound slot of a root
+ */
+function expectedSlotColor(root: SceneNode, node: SceneNode, slot: PaintSlot, template: Template): HexColor | null {
+  const role = getRole(node, slot);
+  const source = variantSource(root);
+  const colors = source && computeVariantColors(template, source);
+  return role && colors && colors[role] || null;
+}
+
+/**
+ * Whether a layer's color is further from the template's than the tolerance, in color or opacity
+ */
+function isDrifted(current: HexColor, expected: HexColor, tolerance: number): boolean {
+  return deltaEOK(hexToOKLCH(current), hexToOKLCH(expected)) > tolerance ||
+    Math.abs(hexAlpha(current) - hexAlpha(expected)) > 0.01;
+}
+
+/**
+ * Dry run of reapplyTemplateToRoot
+ * @returns null when the root has no usable anchor for this template
+ */
+function dryRunReapplyTemplateToRoot(root: SceneNode, template: Template): RootDiff | null {
+  const source = variantSource(root);
+  if (!source) return null;
+  return source.shifted
+    ? dryRunTemplateOnRootWithAnchor(root, template, source.role, source.color)
+    : dryRunTemplateOnRootWithChanges(root, template, { ...source.colorChanges, Base: source.color });
+}
+
+function applyTemplateToRootWithChanges(root: SceneNode, template: Template, colorChanges: Record<string, HexColor>): void {
+  const { Base: baseColor, ...overrides } = colorChanges;
+  
+  applyRoleColors(root, computeColorsWithChanges(template, colorChanges));
+  
+  // Store template reference on root, with the roles the user set so re-applies keep them
+  root.setPluginData('templateId', template.id);
+  root.setPluginData('baseColor', baseColor);
+  root.setPluginData('colorChanges', Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : '');
+  root.setPluginData('anchorColor', '');
+  root.setPluginData('anchorValue', '');
+}
+
+/**
+ * Dry run of applyTemplateToRootWithChanges
+ */
+function dryRunTemplateOnRootWithChanges(root: SceneNode, template: Template, colorChanges: Record<string, HexColor>): RootDiff {
+  return diffRoleColors(root, template, computeColorsWithChanges(template, colorChanges));
+}
+
+/**
+ * Write final role colors to every slot bound to those roles within a root
+ */
+function applyRoleColors(root: SceneNode, finalColors: Record<string, HexColor>): void {
+  const roleIndex = indexRoles(root);
+  
+  Object.entries(finalColors).forEach(([role, color]) => {
+    const bindings = roleIndex[role] || [];
+    for (const { node, slot } of bindings) {
+      applyColorToNode(node, color, slot);
+    }
+  });
+}
+
+/**
+ * Compare what every role-bound slot in a root shows with what applyRoleColors would write,
+ * flagging slots it would skip and template roles nothing in the root is bound to
+ */
+function diffRoleColors(root: SceneNode, template: Template, finalColors: Record<string, HexColor>): RootDiff {
+  const roleIndex = indexRoles(root, true);
+  const slots: SlotDiff[] = [];
+  
+  for (const [role, bindings] of Object.entries(roleIndex)) {
+    for (const { node, slot } of bindings) {
+      const color = getSlotColor(node, slot);
+      const current = color && rgbToHex(color, color.a);
+      const diff: SlotDiff = { nodeId: node.id, nodeName: node.name, role, slot: describeSlot(node, slot), paintSlot: slot, current, next: null, deltaE: 0 };
+      
+      const skipped = finalColors[role] ? slotSkipReason(node, slot) : `${role} is not in "${template.name}"`;
+      if (skipped) {
+        diff.skipped = skipped;
+      } else {
+        // Plain #rrggbb keeps the slot's opacity, like applyColorToNode does
+        const next = finalColors[role];
+        diff.next = hasAlpha(next) || !current ? next : withAlpha(next, hexAlpha(current));
+        diff.deltaE = current ? deltaEOK(hexToOKLCH(current), hexToOKLCH(diff.next)) : 0;
+      }
+      slots.push(diff);
+    }
+  }
+  
+  return {
+    rootId: root.id,
+    rootName: root.name,
+    slots,
+    missingRoles: Object.keys(finalColors).filter(role => !roleIndex[role])
+  };
+}
+
+/**
+ * Why applyColorToNode would leave a slot unchanged
+ * @returns null when it recolors the slot
+ */
+function slotSkipReason(node: SceneNode, slot: PaintSlot): string | null {
+  const label = describeSlot(node, slot);
+  if (!(slot.kind in node)) return `${node.type.toLowerCase()} layers have no ${slot.kind}`;
+  
+  const paint = getSlotPaints(node, slot.kind)[slot.index];
+  if (!paint) return `${label} is empty`;
+  
+  if (slot.kind === 'effects') {
+    return isShadowEffect(paint as Effect) ? null : `${label} is no longer a shadow`;
+  }
+  if (slot.stop !== undefined) {
+    return isGradientPaint(paint as Paint) && (paint as GradientPaint).gradientStops[slot.stop] ? null : `${label} is no longer a gradient stop`;
+  }
+  if (paint.type === 'SOLID') return null;
+  
+  const kinds: Record<string, string> = {
+    GRADIENT_LINEAR: 'a linear gradient',
+    GRADIENT_RADIAL: 'a radial gradient',
+    GRADIENT_ANGULAR: 'an angular gradient',
+    GRADIENT_DIAMOND: 'a diamond gradient',
+    IMAGE: 'an image',
+    VIDEO: 'a video',
+    PATTERN: 'a pattern'
+  };
+  return `${label} is ${kinds[paint.type] || paint.type.toLowerCase()}, not a solid color`;
+}
+
+/**
+ * Recolor a single fill, stroke, gradient stop or effect slot, keeping its blend mode.
+ * An #rrggbbaa color also sets the slot's opacity; plain #rrggbb keeps the existing
+ * opacity so templates saved before opacity was captured don't flatten overlays
+ */
+/**
+ * Drop a paint's, stop's or shadow's color variable so a raw color written to it shows
+ */
+function unbindColor<T extends { readonly boundVariables?: { readonly color?: VariableAlias } }>(value: T): T {
+  if (!value.boundVariables || !value.boundVariables.color) return value;
+  const { color: _color, ...others } = value.boundVariables;
+  return { ...value, boundVariables: others };
+}
+
+function applyColorToNode(node: SceneNode, hexColor: HexColor, slot: PaintSlot = FILL_SLOT): void {
+  if (!(slot.kind in node)) return;
+  
+  const { r, g, b } = hexToRgb(hexColor);
+  const alpha = hasAlpha(hexColor) ? hexAlpha(hexColor) : null;
+  
+  if (slot.kind === 'effects') {
+    const effects = [...getSlotPaints(node, 'effects') as readonly Effect[]];
+    const effect = effects[slot.index];
+    if (effect && isShadowEffect(effect)) {
+      effects[slot.index] = {
+        ...unbindColor(effect),
+        color: { r, g, b, a: alpha ?? effect.color.a }
+      };
+      (node as SceneNode & BlendMixin).effects = effects;
+    }
+    return;
+  }
+  
+  const paints = [...getSlotPaints(node, slot.kind) as readonly Paint[]];
+  const paint = paints[slot.index];
+  let recolored = false;
+  
+  if (paint && slot.stop !== undefined && isGradientPaint(paint) && paint.gradientStops[slot.stop]) {
+    // Only the stop color changes, position and the transform are kept
+    const gradientStops = paint.gradientStops.map((gradientStop, stop) =>
+      stop === slot.stop ? { ...unbindColor(gradientStop), color: { r, g, b, a: alpha ?? gradientStop.color.a } } : gradientStop
+    );
+    paints[slot.index] = { ...paint, gradientStops };
+    recolored = true;
+  } else if (paint && slot.stop === undefined && paint.type === 'SOLID') {
+    paints[slot.index] = {
+      ...unbindColor(paint),
+      color: { r, g, b },
+      opacity: alpha ?? paint.opacity
+    };
+    recolored = true;
+  }
+  
+  if (recolored) {
+    if (slot.kind === 'fills') {
+      (node as SceneNode & MinimalFillsMixin).fills = paints;
+    } else {
+      (node as SceneNode & MinimalStrokesMixin).strokes = paints;
+    }
+  }
+}
+
+// =============================================================================
+// OPERATIONS
+// =============================================================================
+
+/**
+ * Run an apply or batch as one undo step, in chunks that report progress and can be cancelled.
+ * When the work throws, or is cancelled with rollbackOnCancel, every rollback step runs in reverse
+ * @returns The per-root result sent to the UI, or null when another operation is still running
+ */
+async function runOperation(label: string, total: number, rollbackOnCancel: boolean, work: (operation: Operation) => Promise<void>): Promise<OperationResult | null> {
+  if (activeOperation) {
+    figma.notify(`Wait for ${activeOperation.label} to finish or cancel it`, { error: true });
+    return null;
+  }
+  
+  figma.commitUndo(); // Keep earlier edits out of this operation's undo step
+  const operation: Operation = { label, total, done: 0, cancelled: false, lastYield: Date.now(), roots: [], rollback: [] };
+  activeOperation = operation;
+  postOperationProgress(operation);
+  
+  let error: string | undefined;
+  try {
+    await work(operation);
+  } catch (workError) {
+    error = errorMessage(workError);
+    console.error('ArtyColors Error:', label, workError);
+  }
+  
+  const rolledBack = error !== undefined || (operation.cancelled && rollbackOnCancel);
+  if (rolledBack) {
+    await rollBack(operation.rollback);
+    for (const root of operation.roots) {
+      if (root.status === 'applied') root.status = 'rolled-back';
+    }
+  }
+  
+  const failed = operation.roots.filter(root => root.status === 'failed').length;
+  let status: OperationStatus = 'completed';
+  if (error !== undefined || (failed > 0 && failed === operation.roots.length)) {
+    status = 'failed';
+  } else if (operation.cancelled) {
+    status = 'cancelled';
+  } else if (failed > 0) {
+    status = 'partial';
+  }
+  
+  activeOperation = null;
+  figma.commitUndo();
+  
+  const result: OperationResult = { operation: label, status, roots: operation.roots, error };
+  figma.ui.postMessage({ type: 'operation-result', result });
+  if (status !== 'completed') {
+    figma.notify(describeOperationResult(result, rolledBack), { error: status !== 'cancelled' });
+  }
+  return result;
+}
+
+/**
+ * Count finished work; once a chunk's time is spent, report progress and yield
+ * so the UI can repaint and deliver a cancel
+ */
+async function advanceOperation(operation: Operation, units: number = 1): Promise<void> {
+  operation.done += units;
+  if (Date.now() - operation.lastYield < OPERATION_CHUNK_MS) return;
+  
+  postOperationProgress(operation);
+  await new Promise(resolve => setTimeout(resolve, 0));
+  operation.lastYield = Date.now();
+}
+
+function postOperationProgress(operation: Operation): void {
+  figma.ui.postMessage({ type: 'operation-progress', label: operation.label, done: operation.done, total: operation.total });
+}
+
+function handleCancelOperation(): void {
+  if (activeOperation) {
+    activeOperation.cancelled = true;
+  }
+}
+
+/**
+ * Run rollback steps newest first, continuing past steps that fail
+ */
+async function rollBack(steps: RollbackStep[]): Promise<void> {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    try {
+      await steps[i]();
+    } catch (error) {
+      console.error('ArtyColors Error: rollback step failed', error);
+    }
+  }
+}
+
+function removeNode(node: SceneNode): RollbackStep {
+  return () => {
+    if (!node.removed) node.remove();
+  };
+}
+
+/**
+ * Capture the paints of every layer bound to a role within a root, the root's template stamp
+ * and the role assignments of its whole subtree
+ * @returns A step that puts them back
+ */
+function snapshotRoot(root: SceneNode): RollbackStep {
+  const nodes: SceneNode[] = [root];
+  for (const bindings of Object.values(indexRoles(root, true))) {
+    for (const { node } of bindings) {
+      if (nodes.indexOf(node) === -1) nodes.push(node);
+    }
+  }
+  
+  const saved = nodes.map(node => ({
+    node,
+    fills: 'fills' in node && node.fills !== figma.mixed ? node.fills : null, // Text with mixed fills is left alone
+    strokes: 'strokes' in node ? node.strokes : [],
+    effects: 'effects' in node ? node.effects : []
+  }));
+  const stampKeys = ['templateId', 'baseColor', 'colorChanges', 'anchorColor', 'anchorValue'];
+  const stamp = stampKeys.map(key => root.getPluginData(key));
+  
+  // Roles inferred from layer names are saved while applying, anywhere in the subtree
+  const subtree: SceneNode[] = [root, ...('findAll' in root ? root.findAll() : [])];
+  const roles = subtree.map(node => {
+    const keys = roleDataKeys(node);
+    return { node, keys, values: keys.map(key => node.getPluginData(key)) };
+  });
+  
+  return () => {
+    for (const { node, fills, strokes, effects } of saved) {
+      if (node.removed) continue;
+      if ('fills' in node && fills) node.fills = fills;
+      if ('strokes' in node) node.strokes = strokes;
+      if ('effects' in node) node.effects = effects;
+    }
+    stampKeys.forEach((key, index) => root.setPluginData(key, stamp[index]));
+    
+    for (const { node, keys, values } of roles) {
+      if (node.removed) continue;
+      for (const key of roleDataKeys(node)) {
+        if (keys.indexOf(key) === -1) node.setPluginData(key, '');
+      }
+      keys.forEach((key, index) => node.setPluginData(key, values[index]));
+    }
+  };
+}
+
+/**
+ * Plugin data keys holding the role of one of a node's paint slots
+ */
+function roleDataKeys(node: SceneNode): string[] {
+  return node.getPluginDataKeys().filter(key => key === 'colorRole' || key.indexOf('colorRole:') === 0);
+}
+
+function rootResult(node: SceneNode, status: RootStatus, detail?: string): RootResult {
+  return { nodeId: node.id, name: node.name, status, detail };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * One-line summary of an operation that did not complete
+ */
+function describeOperationResult(result: OperationResult, rolledBack: boolean): string {
+  const count = (status: RootStatus) => result.roots.filter(root => root.status === status).length;
+  const firstFailure = result.roots.find(root => root.status === 'failed');
+  const undone = rolledBack ? ', nothing was changed' : '';
+  
+  if (result.status === 'cancelled') {
+    return `${result.operation} cancelled${undone || `, ${count('applied') + count('switched')} of ${result.roots.length} layers done`}`;
+  }
+  if (result.status === 'partial') {
+    return `${result.operation}: ${count('failed')} of ${result.roots.length} layers failed (${firstFailure && firstFailure.detail})`;
+  }
+  return `${result.operation} failed: ${result.error || (firstFailure && firstFailure.detail)}${undone}`;
+}
+
+// =============================================================================
+// DESIGN TOKEN BINDING
+// =============================================================================
+
+/**
+ * Create or update the Variables or Paint Styles holding one variant's role colors
+ * @param variantName - Variable mode name, or the style group name for styles
+ * @param rollback - Receives steps deleting what was created and restoring what was changed
+ * @returns null when colors should stay raw values
+ */
+async function syncRoleTokens(template: Template, variantName: string, colors: Record<string, HexColor>, tokenMode: ColorTokenMode, rollback: RollbackStep[] = []): Promise<RoleTokenSet | null> {
+  if (tokenMode === 'none') return null;
+  
+  if (figma.editorType !== 'figma') {
+    figma.notify('Variables and styles are only available in Figma design files, colors were applied as raw values');
+    return null;
+  }
+  
+  return tokenMode === 'variables'
+    ? await syncColorVariables(template, variantName, colors, rollback)
+    : await syncColorStyles(template, variantName, colors, rollback);
+}
+
+/**
+ * One local collection per template, one mode per variant and one variable per role
+ */
+async function syncColorVariables(template: Template, modeName: string, colors: Record<string, HexColor>, rollback: RollbackStep[]): Promise<RoleTokenSet> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  let collection = collections.find(c => c.getPluginData('templateId') === template.id);
+  
+  // Deleting a new collection takes its modes and variables with it
+  let created = false;
+  if (!collection) {
+    const newCollection = figma.variables.createVariableCollection(`ArtyColors / ${template.name}`);
+    newCollection.setPluginData('templateId', template.id);
+    newCollection.renameMode(newCollection.modes[0].modeId, modeName);
+    rollback.push(() => newCollection.remove());
+    collection = newCollection;
+    created = true;
+  }
+  
+  const existingMode = collection.modes.find(mode => mode.name === modeName);
+  const modeId = existingMode ? existingMode.modeId : collection.addMode(modeName);
+  if (!existingMode) {
+    const target = collection;
+    rollback.push(() => target.removeMode(modeId));
+  }
+  
+  // Variables remember their role so renamed colors keep the same variable
+  const variablesByRole: Record<string, Variable> = {};
+  for (const variableId of collection.variableIds) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    const role = variable && variable.getPluginData('role');
+    if (variable && role) {
+      variablesByRole[role] = variable;
+    }
+  }
+  
+  const tokens: Record<string, Variable> = {};
+  for (const [role, color] of Object.entries(colors)) {
+    let variable = variablesByRole[role];
+    if (!variable) {
+      const newVariable = figma.variables.createVariable(tokenName(template, role), collection, 'COLOR');
+      newVariable.setPluginData('role', role);
+      if (!created) {
+        // Removing the variable takes back the values written to every mode
+        rollback.push(() => newVariable.remove());
+      }
+      
+      // Variants already on other modes get this color too instead of Figma's default
+      for (const mode of collection.modes) {
+        newVariable.setValueForMode(mode.modeId, { ...hexToRgb(color), a: hexAlpha(color) });
+      }
+      variable = newVariable;
+    } else if (existingMode) {
+      const existing = variable;
+      const previous = existing.valuesByMode[modeId];
+      if (previous !== undefined) {
+        rollback.push(() => existing.setValueForMode(modeId, previous));
+      }
+    }
+    variable.setValueForMode(modeId, { ...hexToRgb(color), a: hexAlpha(color) });
+    tokens[role] = variable;
+  }
+  
+  return { mode: 'variables', tokens, collection, modeId };
+}
+
+/**
+ * One local paint style per role, grouped as "ArtyColors/<template>/<variant>/<color>"
+ */
+async function syncColorStyles(template: Template, variantName: string, colors: Record<string, HexColor>, rollback: RollbackStep[]): Promise<RoleTokenSet> {
+  const styles = await figma.getLocalPaintStylesAsync();
+  const tokens: Record<string, PaintStyle> = {};
+  
+  for (const [role, color] of Object.entries(colors)) {
+    const name = `ArtyColors/${template.name}/${variantName}/${tokenName(template, role)}`;
+    let style = styles.find(existing => existing.name === name);
+    if (!style) {
+      const newStyle = figma.createPaintStyle();
+      newStyle.name = name;
+      rollback.push(() => newStyle.remove());
+      style = newStyle;
+    } else {
+      const existing = style;
+      const previous = existing.paints;
+      rollback.push(() => {
+        existing.paints = previous;
+      });
+    }
+    style.paints = [{ type: 'SOLID', color: hexToRgb(color), opacity: hexAlpha(color) }];
+    tokens[role] = style;
+  }
+  
+  return { mode: 'styles', tokens };
+}
+
+/**
+ * Bind every role slot within a root to its Variable or Paint Style
+ * Slots a token cannot represent without losing alpha or blending keep their raw color
+ */
+async function bindRoleTokens(root: SceneNode, tokenSet: RoleTokenSet): Promise<void> {
+  if (tokenSet.collection && tokenSet.modeId && 'setExplicitVariableModeForCollection' in root) {
+    root.setExplicitVariableModeForCollection(tokenSet.collection, tokenSet.modeId);
+  }
+  
+  const roleIndex = indexRoles(root);
+  for (const [role, token] of Object.entries(tokenSet.tokens)) {
+    for (const { node, slot } of roleIndex[role] || []) {
+      if (tokenSet.mode === 'variables') {
+        bindVariableToSlot(node, slot, token as Variable);
+      } else {
+        await bindStyleToSlot(node, slot, token as PaintStyle);
+      }
+    }
+  }
+}
+
+function bindVariableToSlot(node: SceneNode, slot: PaintSlot, variable: Variable): void {
+  if (slot.kind === 'effects') {
+    const effects = [...getSlotPaints(node, 'effects') as readonly Effect[]];
+    const effect = effects[slot.index];
+    // Variables carry their own alpha, so translucent shadows stay raw
+    if (effect && isShadowEffect(effect) && effect.color.a === 1) {
+      effects[slot.index] = figma.variables.setBoundVariableForEffect(effect, 'color', variable);
+      (node as SceneNode & BlendMixin).effects = effects;
+    }
+    return;
+  }
+  
+  const paints = [...getSlotPaints(node, slot.kind) as readonly Paint[]];
+  const paint = paints[slot.index];
+  
+  if (paint && slot.stop !== undefined && isGradientPaint(paint)) {
+    const gradientStop = paint.gradientStops[slot.stop];
+    if (!gradientStop || gradientStop.color.a !== 1) return;
+    
+    const gradientStops = paint.gradientStops.map((existing, stop) =>
+      stop === slot.stop ? { ...existing, boundVariables: { color: figma.variables.createVariableAlias(variable) } } : existing
+    );
+    paints[slot.index] = { ...paint, gradientStops };
+  } else if (paint && slot.stop === undefined && paint.type === 'SOLID' && (paint.opacity === undefined || paint.opacity === 1)) {
+    // Translucent solids stay raw too, the variable's alpha would stack on the paint opacity
+    paints[slot.index] = figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+  } else {
+    return;
+  }
+  
+  if (slot.kind === 'fills') {
+    (node as SceneNode & MinimalFillsMixin).fills = paints;
+  } else {
+    (node as SceneNode & MinimalStrokesMixin).strokes = paints;
+  }
+}
+
+/**
+ * Styles replace the whole fill or stroke list, so only bind nodes whose single
+ * solid paint is exactly the style at full opacity
+ */
+async function bindStyleToSlot(node: SceneNode, slot: PaintSlot, style: PaintStyle): Promise<void> {
+  if (slot.kind === 'effects' || slot.index !== 0 || slot.stop !== undefined) return;
+  
+  const paints = getSlotPaints(node, slot.kind) as readonly Paint[];
+  const paint = paints[0];
+  const isPlainSolid = paints.length === 1 && paint.type === 'SOLID' &&
+    (paint.opacity === undefined || paint.opacity === 1) &&
+    (paint.blendMode === undefined || paint.blendMode === 'NORMAL');
+  if (!isPlainSolid) return;
+  
+  if (slot.kind === 'fills' && 'setFillStyleIdAsync' in node) {
+    await node.setFillStyleIdAsync(style.id);
+  } else if (slot.kind === 'strokes' && 'setStrokeStyleIdAsync' in node) {
+    await node.setStrokeStyleIdAsync(style.id);
+  }
+}
+
+/**
+ * Token name for a role, using its color name where one was given
+ */
+function tokenName(template: Template, role: string): string {
+  // Variable names cannot contain dots or braces
+  return (template.colorNames[role] || role).replace(/[.{}]/g, '-').trim() || role;
+}
+
+// =============================================================================
+// DESIGN TOKEN EXPORT
+// =============================================================================
+
+/**
+ * Compute every role color for one palette
+ * A Base driver goes through the relative rules, any other role uses the anchor shift
+ */
+function computePaletteColors(template: Template, palette: VariantInfo): Record<string, HexColor> | null {
+  if (palette.anchorColor === 'Base') {
+    return computeColorsWithChanges(template, { Base: palette.hexColor });
+  }
+  return computeColorsWithAnchor(template, palette.anchorColor, palette.hexColor);
+}
+
+/**
+ * Lowercase, dash-separated name usable in token paths, CSS and Tailwind keys
+ */
+function tokenSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Number repeated slugs ("text", "text-2") so names that differ only in case or punctuation don't overwrite each other
+ */
+function uniqueSlugs(slugs: string[]): string[] {
+  const used = new Set<string>();
+  return slugs.map(slug => {
+    let unique = slug;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${slug}-${n}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Ordered [slug, role] pairs with Base first, taken from the template's color names
+ */
+function tokenRoles(template: Template): [string, string][] {
+  const roles = Object.keys(template.originalColors);
+  const ordered = [...roles.filter(role => role === 'Base'), ...roles.filter(role => role !== 'Base')];
+  const slugs = uniqueSlugs(ordered.map(role => tokenSlug(template.colorNames[role] || role) || tokenSlug(role)));
+  return ordered.map((role, index) => [slugs[index], role]);
+}
+
+/**
+ * Slugs for palette names, unique within one export
+ */
+function paletteSlugs(palettes: ComputedPalette[]): string[] {
+  return uniqueSlugs(palettes.map(palette => tokenSlug(palette.name) || 'default'));
+}
+
+/**
+ * W3C Design Tokens Community Group format, grouped as template > palette > color
+ */
+function formatDtcgTokens(template: Template, palettes: ComputedPalette[]): string {
+  const group: Record<string, unknown> = { $type: 'color' };
+  const slugs = paletteSlugs(palettes);
+  
+  palettes.forEach((palette, index) => {
+    const paletteGroup: Record<string, unknown> = {};
+    for (const [slug, role] of tokenRoles(template)) {
+      if (palette.colors[role]) {
+        paletteGroup[slug] = { $value: toSrgbHex(palette.colors[role]) };
+      }
+    }
+    group[slugs[index]] = paletteGroup;
+  });
+  
+  return JSON.stringify({ [tokenSlug(template.name) || 'colors']: group }, null, 2);
+}
+
+/**
+ * CSS custom properties on :root, named --template-palette-color
+ */
+function formatCssVariables(template: Template, palettes: ComputedPalette[], useOklch: boolean): string {
+  const prefix = tokenSlug(template.name) || 'colors';
+  const lines: string[] = [];
+  const slugs = paletteSlugs(palettes);
+  
+  palettes.forEach((palette, index) => {
+    for (const [slug, role] of tokenRoles(template)) {
+      const color = palette.colors[role];
+      if (color) {
+        const value = useOklch ? formatOklch(color) : toSrgbHex(color);
+        lines.push(`  --${prefix}-${slugs[index]}-${slug}: ${value};`);
+      }
+    }
+  });
+  
+  return `:root {\n${lines.join('\n')}\n}\n`;
+}
+
+/**
+ * Tailwind theme extension nesting colors as template > palette > color
+ */
+function formatTailwindTheme(template: Template, palettes: ComputedPalette[]): string {
+  const colors: Record<string, Record<string, HexColor>> = {};
+  const slugs = paletteSlugs(palettes);
+  
+  palettes.forEach((palette, index) => {
+    const paletteColors: Record<string, HexColor> = {};
+    for (const [slug, role] of tokenRoles(template)) {
+      if (palette.colors[role]) {
+        paletteColors[slug] = toSrgbHex(palette.colors[role]);
+      }
+    }
+    colors[slugs[index]] = paletteColors;
+  });
+  
+  const theme = { theme: { extend: { colors: { [tokenSlug(template.name) || 'colors']: colors } } } };
+  return `module.exports = ${JSON.stringify(theme, null, 2)};\n`;
+}
+
+// =============================================================================
+// HARMONY SUGGESTIONS
+// =============================================================================
+
+/**
+ * Propose batch variants for an anchor role from color harmonies, rotating hue
+ * in OKLCH so lightness and chroma stay put, plus a ladder of lightness steps
+ */
+function suggestHarmonyVariants(anchorRole: string, anchorColor: HexColor): HarmonySuggestion[] {
+  const anchor = hexToOKLCH(anchorColor);
+  const signed = (degrees: number) => `${degrees > 0 ? '+' : '−'}${Math.abs(degrees)}°`;
+  
+  const alpha = hexAlpha(anchorColor);
+  const rotate = (degrees: number): HexColor => withAlpha(oklchToHex(gamutClamp({ ...anchor, H: (anchor.H + degrees + 360) % 360 })), alpha);
+  const hueFamily = (harmony: string, label: string, rotations: number[], name: (degrees: number) => string): HarmonySuggestion => ({
+    harmony,
+    label,
+    variants: rotations.map(degrees => ({ name: name(degrees), anchorColor: anchorRole, hexColor: rotate(degrees) }))
+  });
+  
+  const ladder = [0.25, 0.4, 0.55, 0.7, 0.85, 0.95].filter(L => Math.abs(L - anchor.L) > 0.04);
+  
+  return [
+    hueFamily('complementary', 'Complementary', [180], () => 'Complementary'),
+    hueFamily('triadic', 'Triadic', [120, -120], degrees => `Triadic ${signed(degrees)}`),
+    hueFamily('analogous', 'Analogous', [-30, 30], degrees => `Analogous ${signed(degrees)}`),
+    hueFamily('split-complementary', 'Split complementary', [150, -150], degrees => `Split ${signed(degrees)}`),
+    hueFamily('hue-sweep', 'Hue sweep (equal lightness)', [60, 120, 180, 240, 300], degrees => `Hue ${Math.round((anchor.H + degrees) % 360)}°`),
+    {
+      harmony: 'lightness-ladder',
+      label: 'Lightness ladder',
+      variants: ladder.map(L => ({
+        name: `Lightness ${Math.round(L * 100)}`,
+        anchorColor: anchorRole,
+        hexColor: withAlpha(oklchToHex(gamutClamp({ ...anchor, L })), alpha)
+      }))
+    }
+  ];
+}
+
+// =============================================================================
+// TONAL SCALE
+// =============================================================================
+
+/**
+ * Generate a tonal ramp around a base color in OKLCH, every step keeping the base's opacity
+ */
+function generateScale(options: ScaleOptions): ScaleStep[] {
+  const base = hexToOKLCH(options.baseColor);
+  const alpha = hexAlpha(options.baseColor);
+  const count = options.steps.length;
+  const position = (index: number) => count === 1 ? 0 : index / (count - 1);
+  const lightness = (t: number) => options.lightest + (options.darkest - options.lightest) * Math.pow(t, options.curve);
+  
+  // The base sits at the step whose lightness is closest to its own
+  let baseIndex = 0;
+  options.steps.forEach((_, index) => {
+    if (Math.abs(lightness(position(index)) - base.L) < Math.abs(lightness(position(baseIndex)) - base.L)) {
+      baseIndex = index;
+    }
+  });
+  const basePosition = position(baseIndex);
+  
+  return options.steps.map((step, index) => {
+    if (options.pinBase && index === baseIndex) {
+      return { step, color: options.baseColor, isBase: true };
+    }
+    
+    const t = position(index);
+    // 0 at the base, 1 at either end of the ramp
+    const distance = t < basePosition
+      ? (basePosition - t) / (basePosition || 1)
+      : (t - basePosition) / ((1 - basePosition) || 1);
+    
+    let H = (base.H + options.hueDrift * (t - basePosition)) % 360;
+    if (H < 0) H += 360;
+    
+    const color = withAlpha(oklchToHex(gamutClamp({
+      L: lightness(t),
+      C: base.C * (1 - options.chromaTaper * distance * distance),
+      H
+    })), alpha);
+    return { step, color, isBase: index === baseIndex };
+  });
+}
+
+/**
+ * Validate scale controls coming from the UI, reading the base color as canonical hex
+ * @returns The usable options, or the first problem found
+ */
+function parseScaleOptions(options: ScaleOptions): { options: ScaleOptions | null, error: string | null } {
+  const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+  const invalid = (error: string) => ({ options: null, error });
+  
+  if (!options) return invalid('Scale options are missing');
+  const baseColor = parseColor(options.baseColor);
+  if (baseColor.hex === null) {
+    return invalid(`Scale base color: ${baseColor.error}`);
+  }
+  if (!Array.isArray(options.steps) || options.steps.length < 2 || options.steps.length > 24) {
+    return invalid('A scale needs between 2 and 24 steps');
+  }
+  if (options.steps.some(step => !inRange(step, 0, 10000)) || new Set(options.steps).size !== options.steps.length) {
+    return invalid('Scale steps must be different numbers, e.g. 50, 100, 200');
+  }
+  if (!inRange(options.lightest, 0, 1) || !inRange(options.darkest, 0, 1) || options.lightest <= options.darkest) {
+    return invalid('Lightest step must be lighter than the darkest, both between 0 and 1');
+  }
+  if (!inRange(options.curve, 0.2, 5)) return invalid('Lightness curve must be between 0.2 and 5');
+  if (!inRange(options.chromaTaper, 0, 1)) return invalid('Chroma taper must be between 0 and 1');
+  if (!inRange(options.hueDrift, -180, 180)) return invalid('Hue drift must be between -180 and 180 degrees');
+  return { options: { ...options, baseColor: baseColor.hex }, error: null };
+}
+
+/**
+ * Place a scale on the current page as labeled swatches whose fills carry the step as their role
+ */
+async function placeScale(name: string, steps: ScaleStep[]): Promise<FrameNode> {
+  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = 'HORIZONTAL';
+  frame.primaryAxisSizingMode = 'AUTO';
+  frame.counterAxisSizingMode = 'AUTO';
+  frame.itemSpacing = 8;
+  frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = 16;
+  
+  for (const { step, color, isBase } of steps) {
+    const swatch = figma.createFrame();
+    swatch.name = String(step);
+    swatch.layoutMode = 'VERTICAL';
+    swatch.primaryAxisSizingMode = 'AUTO';
+    swatch.counterAxisSizingMode = 'AUTO';
+    swatch.itemSpacing = 4;
+    swatch.fills = [];
+    
+    const chip = figma.createRectangle();
+    chip.name = isBase ? `${step} [Base]` : String(step);
+    chip.resize(64, 64);
+    chip.cornerRadius = 4;
+    chip.fills = [{ type: 'SOLID', color: hexToRgb(color), opacity: hexAlpha(color) }];
+    markRole(chip, scaleStepRole({ step, color, isBase }));
+    swatch.appendChild(chip);
+    
+    for (const text of [String(step), color.toUpperCase()]) {
+      const label = figma.createText();
+      label.characters = text;
+      label.fontSize = 11;
+      swatch.appendChild(label);
+    }
+    
+    frame.appendChild(swatch);
+  }
+  
+  figma.currentPage.appendChild(frame);
+  frame.x = Math.round(figma.viewport.center.x - frame.width / 2);
+  frame.y = Math.round(figma.viewport.center.y - frame.height / 2);
+  return frame;
+}
+
+/**
+ * Role a scale step is stored under: Base for the step at the base, the step name otherwise
+ */
+function scaleStepRole(step: ScaleStep): string {
+  return step.isBase ? 'Base' : String(step.step);
+}
+
+/**
+ * Build a template whose roles are the steps of a scale, relative to the step at its base.
+ * Without a pinned base that step's ramp color stands in for the base color, so Base is
+ * always a placed swatch
+ */
+function createScaleTemplate(name: string, steps: ScaleStep[]): Template {
+  const originalColors: Record<string, HexColor> = {};
+  const colorNames: Record<string, string> = {};
+  
+  for (const step of steps) {
+    const role = scaleStepRole(step);
+    originalColors[role] = step.color;
+    colorNames[role] = String(step.step);
+  }
+  
+  return {
+    id: generateId(),
+    name,
+    colorNames,
+    originalColors,
+    roles: computeTemplateRoles(originalColors),
+    colorSpace: workingSpace
+  };
+}
+
+// Settings storage functions
+function currentSettings(): PluginSettings {
+  return { gamutMapping, clusterThreshold };
+}
+
+async function loadSettings(): Promise<void> {
+  try {
+    const settings: Partial<PluginSettings> = await figma.clientStorage.getAsync('settings') || {};
+    if (settings.gamutMapping === 'chroma' || settings.gamutMapping === 'estimate') {
+      gamutMapping = settings.gamutMapping;
+    }
+    if (typeof settings.clusterThreshold === 'number' && settings.clusterThreshold >= 0 && settings.clusterThreshold <= 0.2) {
+      clusterThreshold = settings.clusterThreshold;
+    }
+  } catch {
+    // Keep defaults when settings cannot be read
+  }
+}
+
+// Template storage functions
+async function storeTemplate(template: Template, store?: TemplateStore): Promise<void> {
+  // Without an explicit store, write back to wherever the template already lives
+  const target = store || await findTemplateStore(template.id) || 'personal';
+  const templates = await getAllTemplates(target);
+  templates[template.id] = template;
+  await storeAllTemplates(templates, target);
+}
+
+/**
+ * Delete a template from one store, or from every store when none is given
+ */
+async function deleteTemplate(id: string, store?: TemplateStore): Promise<void> {
+  for (const target of store ? [store] : TEMPLATE_STORES) {
+    const templates = await getAllTemplates(target);
+    if (templates[id]) {
+      delete templates[id];
+      await storeAllTemplates(templates, target);
+    }
+  }
+}
+
+/**
+ * Look up a template, falling back to the other store when none is given
+ */
+async function getTemplate(id: string, store?: TemplateStore): Promise<Template | null> {
+  for (const target of store ? [store] : TEMPLATE_STORES) {
+    const templates = await getAllTemplates(target);
+    if (templates[id]) {
+      return templates[id];
+    }
+  }
+  return null;
+}
+
+async function findTemplateStore(id: string): Promise<TemplateStore | null> {
+  for (const store of TEMPLATE_STORES) {
+    const templates = await getAllTemplates(store);
+    if (templates[id]) {
+      return store;
+    }
+  }
+  return null;
+}
+
+async function getAllTemplates(store: TemplateStore = 'personal'): Promise<Record<string, Template>> {
+  try {
+    if (store === 'document') {
+      const json = figma.root.getSharedPluginData(DOCUMENT_TEMPLATES_NAMESPACE, 'templates');
+      return json ? JSON.parse(json) : {};
+    }
+    return await figma.clientStorage.getAsync('templates') || {};
   } catch {
     return {};
   }
 }
 
+async function storeAllTemplates(templates: Record<string, Template>, store: TemplateStore = 'personal'): Promise<void> {
+  if (store === 'document') {
+    figma.root.setSharedPluginData(DOCUMENT_TEMPLATES_NAMESPACE, 'templates', JSON.stringify(templates));
+  } else {
+    await figma.clientStorage.setAsync('templates', templates);
+  }
+}
+
 console.log('ArtyColors plugin loaded successfully');
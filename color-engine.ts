@@ -0,0 +1,1420 @@
+// ArtyColors - Color Engine
+// Pure OKLCH color math shared by the plugin and the Node CLI, with no Figma dependency
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+type HexColor = `#${string}`; // #rrggbb, or #rrggbbaa when translucent
+
+interface OKLCH {
+  L: number; // Lightness [0, 1]
+  C: number; // Chroma [0, ~0.4]
+  H: number; // Hue [0, 360)
+}
+
+// RGB space of the document: hex values and paint RGB are encoded in it
+type ColorSpace = 'srgb' | 'display-p3';
+
+// 'chroma' reduces chroma to the true sRGB boundary, 'estimate' is the original rough clamp
+type GamutMapping = 'chroma' | 'estimate';
+
+// Result of reading a CSS color, either a canonical hex color or what is wrong with the input
+type ColorParseResult = { hex: HexColor, error: null } | { hex: null, error: string };
+
+// One numeric argument of a CSS color function, unit is '' for plain numbers
+interface ColorArgument {
+  value: number;
+  unit: string;
+}
+
+interface ColorArguments {
+  channels: ColorArgument[];   // The three channel values
+  alpha: ColorArgument | null; // Given after "/" or as a fourth comma value
+}
+
+// Plain RGB triplet with channels in [0, 1], structurally compatible with Figma's RGB
+interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// How one channel of a role follows the base color
+type LightnessMode = 'additive' | 'proportional' | 'absolute';
+type ChromaMode = 'proportional' | 'additive' | 'absolute';
+type HueMode = 'relative' | 'locked';
+
+interface RelativeRule {
+  Lmode: 'lighten' | 'darken';
+  k: number;             // Lightness change [0,1]: a delta, or a fraction of the way to white/black when proportional
+  Cmul: number;          // Chroma multiplier
+  Cabs: number | null;   // Absolute chroma (when base ~= 0 or chroma is locked)
+  hDelta: number;        // Hue angle delta in degrees
+  Lchannel?: LightnessMode; // Additive when missing
+  Labs?: number;         // Locked lightness
+  Cchannel?: ChromaMode; // Absolute when Cabs is set, proportional otherwise
+  Cdelta?: number;       // Chroma added to the base's
+  Hchannel?: HueMode;    // Relative when missing
+  Habs?: number;         // Locked hue in degrees
+  Amul?: number;         // Opacity as a multiple of the base's, 1 when missing
+}
+
+interface RuleChannels {
+  Lchannel: LightnessMode;
+  Cchannel: ChromaMode;
+  Hchannel: HueMode;
+}
+
+interface Template {
+  id: string;
+  name: string;
+  colorNames: Record<string, string>;     // Dynamic color names by role
+  originalColors: Record<string, HexColor>; // Dynamic original colors by role  
+  roles: Record<string, RelativeRule>;    // Dynamic rules for non-base roles
+  colorSpace?: ColorSpace;                // Space originalColors were captured in, sRGB when missing
+  contrastPairs?: ContrastPair[];         // Readability checks between roles
+}
+
+type ContrastMethod = 'wcag' | 'apca';
+
+interface ContrastPair {
+  foreground: string;      // Role drawn on top, e.g. text
+  background: string;      // Role underneath
+  method: ContrastMethod;
+  target: number;          // WCAG ratio like 4.5, or absolute APCA Lc like 60
+  adjust: boolean;         // Shift the foreground lightness until the target is met
+}
+
+interface ContrastResult extends ContrastPair {
+  before: number;          // Contrast of the derived colors
+  after: number;           // Contrast once guardrails were applied
+  passedBefore: boolean;
+  passedAfter: boolean;
+  adjustedColor?: HexColor; // New foreground color when it had to move
+}
+
+type RuleField = keyof RelativeRule;
+
+// The color a generated variant was derived from, as stamped on its root
+interface VariantSource {
+  role: string;            // Base, or the anchor role of a shifted variant
+  color: HexColor;
+  shifted: boolean;        // Every color moved by the anchor's shift instead of following the rules
+  colorChanges?: Record<string, HexColor>; // Roles the user set explicitly, kept as they are
+}
+
+// Versioned file format for sharing template libraries
+const TEMPLATE_LIBRARY_FORMAT = 'artycolors-template-library';
+const TEMPLATE_LIBRARY_VERSION = 2;
+
+interface TemplateLibraryFile {
+  format: typeof TEMPLATE_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  templates: Template[];
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Natural sort that handles numbers correctly
+ * "Rectangle 2" comes before "Rectangle 11"
+ */
+function naturalSort(a: string, b: string): number {
+  const regex = /(\d+)/g;
+  
+  // Split strings into parts (text and numbers)
+  const aParts = a.split(regex);
+  const bParts = b.split(regex);
+  
+  const maxLength = Math.max(aParts.length, bParts.length);
+  
+  for (let i = 0; i < maxLength; i++) {
+    const aPart = aParts[i] || '';
+    const bPart = bParts[i] || '';
+    
+    // Check if both parts are numbers
+    const aNum = parseInt(aPart, 10);
+    const bNum = parseInt(bPart, 10);
+    
+    if (!isNaN(aNum) && !isNaN(bNum)) {
+      // Compare as numbers
+      if (aNum !== bNum) {
+        return aNum - bNum;
+      }
+    } else {
+      // Compare as strings
+      const comparison = aPart.localeCompare(bPart);
+      if (comparison !== 0) {
+        return comparison;
+      }
+    }
+  }
+  
+  return 0;
+}
+
+function rgbToHex(color: RgbColor, alpha: number = 1): HexColor {
+  const toHex = (c: number) => Math.round(c * 255).toString(16).padStart(2, '0');
+  return withAlpha(`#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}` as HexColor, alpha);
+}
+
+function hexToRgb(hexColor: HexColor): RgbColor {
+  const hex = hexColor.replace('#', '');
+  return {
+    r: parseInt(hex.substr(0, 2), 16) / 255,
+    g: parseInt(hex.substr(2, 2), 16) / 255,
+    b: parseInt(hex.substr(4, 2), 16) / 255
+  };
+}
+
+/**
+ * Opacity stored in a hex color, 1 for 6-digit hex
+ */
+function hexAlpha(hex: HexColor): number {
+  return hex.length === 9 ? parseInt(hex.substr(7, 2), 16) / 255 : 1;
+}
+
+/**
+ * Whether a hex color states its own opacity
+ */
+function hasAlpha(hex: HexColor): boolean {
+  return hex.length === 9;
+}
+
+/**
+ * Replace the opacity of a hex color, dropping the alpha digits when fully opaque
+ */
+function withAlpha(hex: HexColor, alpha: number): HexColor {
+  const a = Math.round(Math.max(0, Math.min(1, alpha)) * 255);
+  const opaque = hex.substr(0, 7);
+  return (a >= 255 ? opaque : opaque + a.toString(16).padStart(2, '0')) as HexColor;
+}
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+// =============================================================================
+// OKLCH COLOR CONVERSION UTILITIES
+// =============================================================================
+
+// Color space of the current document, detected on startup
+let workingSpace: ColorSpace = 'srgb';
+
+/**
+ * Convert linear Display P3 to linear sRGB (may leave [0, 1] for wide-gamut colors)
+ */
+function linearP3ToLinearSrgb(rgb: RgbColor): RgbColor {
+  return {
+    r: 1.2249401 * rgb.r - 0.2249404 * rgb.g,
+    g: -0.0420569 * rgb.r + 1.0420571 * rgb.g,
+    b: -0.0196376 * rgb.r - 0.0786361 * rgb.g + 1.0982735 * rgb.b
+  };
+}
+
+/**
+ * Convert linear sRGB to linear Display P3
+ */
+function linearSrgbToLinearP3(rgb: RgbColor): RgbColor {
+  return {
+    r: 0.8224621 * rgb.r + 0.1775380 * rgb.g,
+    g: 0.0331941 * rgb.r + 0.9668058 * rgb.g,
+    b: 0.0170827 * rgb.r + 0.0723974 * rgb.g + 0.9105199 * rgb.b
+  };
+}
+
+/**
+ * Convert hex color to OKLCH color space
+ * Uses accurate RGB -> Linear RGB -> OKLab -> OKLCH conversion, reading the
+ * hex in the given space (Display P3 shares the sRGB transfer curve)
+ */
+function hexToOKLCH(hex: string, space: ColorSpace = workingSpace): OKLCH {
+  // Remove # if present
+  hex = hex.replace('#', '');
+  
+  // Parse RGB values
+  const r = parseInt(hex.substr(0, 2), 16) / 255;
+  const g = parseInt(hex.substr(2, 2), 16) / 255;
+  const b = parseInt(hex.substr(4, 2), 16) / 255;
+  
+  // sRGB to Linear RGB
+  const toLinear = (c: number) => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  let linear = { r: toLinear(r), g: toLinear(g), b: toLinear(b) };
+  if (space === 'display-p3') {
+    linear = linearP3ToLinearSrgb(linear);
+  }
+  const { r: lr, g: lg, b: lb } = linear;
+  
+  // Linear RGB to OKLab
+  const l = 0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb;
+  const m = 0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb;
+  const s = 0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb;
+  
+  const l_ = Math.cbrt(l);
+  const m_ = Math.cbrt(m);
+  const s_ = Math.cbrt(s);
+  
+  const L = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
+  const a = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
+  const b_ = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
+  
+  // OKLab to OKLCH
+  const C = Math.sqrt(a * a + b_ * b_);
+  let H = Math.atan2(b_, a) * 180 / Math.PI;
+  if (H < 0) H += 360;
+  
+  return { L: Math.max(0, Math.min(1, L)), C: Math.max(0, C), H };
+}
+
+/**
+ * Convert OKLCH to linear sRGB, channels may fall outside [0, 1] when out of gamut
+ */
+function oklchToLinearRgb(oklch: OKLCH): RgbColor {
+  const { L, C, H } = oklch;
+  
+  // OKLCH to OKLab
+  const hRad = H * Math.PI / 180;
+  const a = C * Math.cos(hRad);
+  const b_oklab = C * Math.sin(hRad);
+  
+  // OKLab to Linear RGB
+  const l_ = L + 0.3963377774 * a + 0.2158037573 * b_oklab;
+  const m_ = L - 0.1055613458 * a - 0.0638541728 * b_oklab;
+  const s_ = L - 0.0894841775 * a - 1.2914855480 * b_oklab;
+  
+  const l = l_ * l_ * l_;
+  const m = m_ * m_ * m_;
+  const s = s_ * s_ * s_;
+  
+  return {
+    r: +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  };
+}
+
+/**
+ * Convert OKLCH to linear RGB in the given space
+ */
+function oklchToLinear(oklch: OKLCH, space: ColorSpace): RgbColor {
+  const linear = oklchToLinearRgb(oklch);
+  return space === 'display-p3' ? linearSrgbToLinearP3(linear) : linear;
+}
+
+/**
+ * Convert OKLCH to hex color in the given space with gamut clamping
+ */
+function oklchToHex(oklch: OKLCH, space: ColorSpace = workingSpace): HexColor {
+  const linear = oklchToLinear(oklch, space);
+  
+  // Gamut clamp in linear RGB
+  const lr = Math.max(0, Math.min(1, linear.r));
+  const lg = Math.max(0, Math.min(1, linear.g));
+  const lb = Math.max(0, Math.min(1, linear.b));
+  
+  // Linear RGB to sRGB
+  const fromLinear = (c: number) => c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  const r = fromLinear(lr);
+  const g = fromLinear(lg);
+  const b_srgb = fromLinear(lb);
+  
+  // Convert to hex
+  const toHex = (c: number) => Math.round(Math.max(0, Math.min(255, c * 255))).toString(16).padStart(2, '0');
+  
+  return `#${toHex(r)}${toHex(g)}${toHex(b_srgb)}` as HexColor;
+}
+
+// Active gamut mapping method, loaded from settings on startup
+let gamutMapping: GamutMapping = 'chroma';
+
+// Number of colors mapped into gamut since the last reset, reported after each operation
+let gamutMappedCount = 0;
+
+/**
+ * Bring a color into the gamut of a space, the working space by default, using the active mapping method
+ */
+function gamutClamp(oklch: OKLCH, space: ColorSpace = workingSpace): OKLCH {
+  const mapped = gamutMapping === 'estimate' ? gamutClampEstimate(oklch) : gamutMapChroma(oklch, space);
+  if (Math.abs(mapped.C - oklch.C) > 0.0005 || mapped.L !== oklch.L) {
+    gamutMappedCount++;
+  }
+  return mapped;
+}
+
+/**
+ * Original clamp: caps chroma with a rough parabola over lightness
+ */
+function gamutClampEstimate(oklch: OKLCH): OKLCH {
+  const maxChroma = oklch.L * (1 - oklch.L) * 0.4; // Rough estimate
+  return {
+    ...oklch,
+    C: Math.min(oklch.C, maxChroma)
+  };
+}
+
+/**
+ * Accurate mapping: keeps lightness and hue and binary searches the largest
+ * chroma that still fits inside the target gamut
+ */
+function gamutMapChroma(oklch: OKLCH, space: ColorSpace = workingSpace): OKLCH {
+  if (oklch.L >= 1) return { L: 1, C: 0, H: oklch.H };
+  if (oklch.L <= 0) return { L: 0, C: 0, H: oklch.H };
+  if (isInGamut(oklch, space)) return oklch;
+  
+  let low = 0;
+  let high = oklch.C;
+  while (high - low > 0.0001) {
+    const mid = (low + high) / 2;
+    if (isInGamut({ ...oklch, C: mid }, space)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  
+  return { ...oklch, C: low };
+}
+
+function isInGamut(oklch: OKLCH, space: ColorSpace): boolean {
+  const epsilon = 0.000001;
+  const { r, g, b } = oklchToLinear(oklch, space);
+  return [r, g, b].every(c => c >= -epsilon && c <= 1 + epsilon);
+}
+
+/**
+ * Start counting colors that need gamut mapping for a new operation
+ */
+function resetGamutReport(): void {
+  gamutMappedCount = 0;
+}
+
+/**
+ * Suffix for notifications telling how many colors were mapped into gamut
+ */
+function gamutReportNote(): string {
+  if (gamutMappedCount === 0) return '';
+  return ` (${gamutMappedCount} ${gamutMappedCount === 1 ? 'color was' : 'colors were'} outside ${workingSpace === 'display-p3' ? 'Display P3' : 'sRGB'} and mapped into gamut)`;
+}
+
+/**
+ * Perceptual distance between two colors (ΔE OK, Euclidean distance in OKLab)
+ */
+function deltaEOK(a: OKLCH, b: OKLCH): number {
+  const toLab = (c: OKLCH) => [c.L, c.C * Math.cos(c.H * Math.PI / 180), c.C * Math.sin(c.H * Math.PI / 180)];
+  const [L1, a1, b1] = toLab(a);
+  const [L2, a2, b2] = toLab(b);
+  return Math.sqrt((L1 - L2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/**
+ * Hex tokens are always sRGB, so wide-gamut document colors are mapped down first
+ */
+function toSrgbHex(hex: HexColor): HexColor {
+  if (workingSpace === 'srgb') return hex;
+  return withAlpha(oklchToHex(gamutMapChroma(hexToOKLCH(hex), 'srgb'), 'srgb'), hexAlpha(hex));
+}
+
+/**
+ * Format a color as CSS oklch() with rounded channels, and its opacity when translucent
+ */
+function formatOklch(hex: HexColor): string {
+  const { L, C, H } = hexToOKLCH(hex);
+  const hue = C < 0.0001 ? 0 : H;
+  const alpha = hasAlpha(hex) ? ` / ${Math.round(hexAlpha(hex) * 1000) / 10}%` : '';
+  return `oklch(${(L * 100).toFixed(2)}% ${C.toFixed(4)} ${hue.toFixed(2)}${alpha})`;
+}
+
+// =============================================================================
+// CSS COLOR PARSING
+// =============================================================================
+
+// CSS named colors, https://www.w3.org/TR/css-color-4/#named-colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32', transparent: '00000000'
+};
+
+const COLOR_EXAMPLES = '#3366cc, rgb(51 102 204), hsl(220 60% 50%) or oklch(0.53 0.15 262)';
+
+/**
+ * Read a color in any common CSS syntax: hex (#rgb, #rgba, #rrggbb, #rrggbbaa),
+ * rgb(), hsl(), oklch() or a named color. Hex, rgb(), hsl() and names are read as
+ * channel values of the given space, like Figma's color picker does, while oklch()
+ * is absolute and mapped into that space's gamut
+ */
+function parseColor(input: string, space: ColorSpace = workingSpace): ColorParseResult {
+  const fail = (error: string): ColorParseResult => ({ hex: null, error });
+  const value = typeof input === 'string' ? input.trim().toLowerCase() : '';
+  
+  if (!value) return fail(`Enter a color like ${COLOR_EXAMPLES}`);
+  if (NAMED_COLORS[value]) return parseHexColor(NAMED_COLORS[value], input);
+  
+  // Bare 6 and 8 digit hex is accepted, shorter forms are too easy to mistake for words
+  if (value.startsWith('#')) return parseHexColor(value.slice(1), input);
+  if (/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(value)) return parseHexColor(value, input);
+  
+  const call = /^([a-z-]+)\((.*)$/.exec(value);
+  if (!call) return fail(`"${input}" is not a color, try ${COLOR_EXAMPLES}`);
+  
+  const name = call[1];
+  if (!call[2].endsWith(')')) return fail(`"${input}" is missing a closing parenthesis`);
+  
+  const args = parseColorArguments(call[2].slice(0, -1));
+  if (typeof args === 'string') return fail(`${args} in ${name}()`);
+  
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return parseRgbFunction(args, name);
+    case 'hsl':
+    case 'hsla':
+      return parseHslFunction(args, name);
+    case 'oklch':
+      return parseOklchFunction(args, space);
+    case 'lab':
+    case 'lch':
+    case 'oklab':
+    case 'hwb':
+    case 'color':
+      return fail(`${name}() colors are not supported yet, use hex, rgb(), hsl() or oklch()`);
+    default:
+      return fail(`${name}() is not a CSS color function, try ${COLOR_EXAMPLES}`);
+  }
+}
+
+/**
+ * Expand and validate the digits of a hex color
+ */
+function parseHexColor(digits: string, input: string): ColorParseResult {
+  if (!/^[0-9a-f]*$/.test(digits)) {
+    return { hex: null, error: `"${input}" has characters that are not hex digits (0-9, a-f)` };
+  }
+  if ([3, 4, 6, 8].indexOf(digits.length) === -1) {
+    return { hex: null, error: `"${input}" needs 3, 4, 6 or 8 hex digits, it has ${digits.length}` };
+  }
+  
+  const full = digits.length <= 4 ? digits.split('').map(digit => digit + digit).join('') : digits;
+  const alpha = full.length === 8 ? parseInt(full.substr(6, 2), 16) / 255 : 1;
+  return { hex: withAlpha(`#${full.substr(0, 6)}` as HexColor, alpha), error: null };
+}
+
+/**
+ * Split the inside of a color function into channels and an optional alpha,
+ * accepting both the modern `a b c / alpha` and the legacy comma syntax
+ * @returns The parsed arguments, or what is wrong with them
+ */
+function parseColorArguments(body: string): ColorArguments | string {
+  let parts: string[];
+  if (body.indexOf(',') !== -1) {
+    if (body.indexOf('/') !== -1) return 'Commas and "/" cannot be mixed';
+    parts = body.split(',').map(part => part.trim());
+  } else {
+    const [channels, alpha, extra] = body.split('/');
+    if (extra !== undefined) return 'Only one "/" is allowed';
+    parts = channels.trim().split(/\s+/).filter(Boolean);
+    if (alpha !== undefined) {
+      if (!alpha.trim()) return 'An alpha value is missing after "/"';
+      parts.push(alpha.trim());
+    }
+  }
+  
+  const parsed: ColorArgument[] = [];
+  for (const part of parts) {
+    if (part === 'none') {
+      parsed.push({ value: 0, unit: '' });
+      continue;
+    }
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/.exec(part);
+    if (!match) return part ? `"${part}" is not a number` : 'A value is missing';
+    parsed.push({ value: parseFloat(match[1]), unit: match[2] || '' });
+  }
+  
+  if (parsed.length !== 3 && parsed.length !== 4) {
+    return `Expected 3 values and an optional alpha, got ${parsed.length}`;
+  }
+  return { channels: parsed.slice(0, 3), alpha: parsed[3] || null };
+}
+
+/**
+ * Read an alpha argument as a number or a percentage
+ * @returns The alpha in [0, 1], or an error message
+ */
+function colorArgumentAlpha(alpha: ColorArgument | null): number | string {
+  if (!alpha) return 1;
+  if (alpha.unit !== '' && alpha.unit !== '%') return 'Alpha must be a number or a percentage';
+  const value = alpha.unit === '%' ? alpha.value / 100 : alpha.value;
+  return value >= 0 && value <= 1 ? value : 'Alpha must be between 0 and 1 (or 0% and 100%)';
+}
+
+/**
+ * Read a hue argument in degrees, turning other angle units into degrees
+ */
+function colorArgumentHue(hue: ColorArgument): number | string {
+  const degrees: Record<string, number> = { '': 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  if (!(hue.unit in degrees)) return 'Hue must be a number or an angle like 220deg';
+  const value = (hue.value * degrees[hue.unit]) % 360;
+  return value < 0 ? value + 360 : value;
+}
+
+function parseRgbFunction(args: ColorArguments, name: string): ColorParseResult {
+  const labels = ['Red', 'Green', 'Blue'];
+  const rgb: number[] = [];
+  
+  for (let i = 0; i < 3; i++) {
+    const { value, unit } = args.channels[i];
+    if (unit !== '' && unit !== '%') return { hex: null, error: `${labels[i]} in ${name}() must be a number or a percentage` };
+    const channel = unit === '%' ? value / 100 : value / 255;
+    if (channel < 0 || channel > 1) {
+      return { hex: null, error: `${labels[i]} in ${name}() must be between 0 and 255 (or 0% and 100%)` };
+    }
+    rgb.push(channel);
+  }
+  
+  const alpha = colorArgumentAlpha(args.alpha);
+  if (typeof alpha === 'string') return { hex: null, error: `${alpha} in ${name}()` };
+  return { hex: rgbToHex({ r: rgb[0], g: rgb[1], b: rgb[2] }, alpha), error: null };
+}
+
+function parseHslFunction(args: ColorArguments, name: string): ColorParseResult {
+  const hue = colorArgumentHue(args.channels[0]);
+  if (typeof hue === 'string') return { hex: null, error: `${hue} in ${name}()` };
+  
+  const percentages: number[] = [];
+  for (const [label, { value, unit }] of [['Saturation', args.channels[1]], ['Lightness', args.channels[2]]] as [string, ColorArgument][]) {
+    if (unit !== '' && unit !== '%') return { hex: null, error: `${label} in ${name}() must be a percentage` };
+    if (value < 0 || value > 100) return { hex: null, error: `${label} in ${name}() must be between 0% and 100%` };
+    percentages.push(value / 100);
+  }
+  
+  const alpha = colorArgumentAlpha(args.alpha);
+  if (typeof alpha === 'string') return { hex: null, error: `${alpha} in ${name}()` };
+  
+  // https://www.w3.org/TR/css-color-4/#hsl-to-rgb
+  const [s, l] = percentages;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return { hex: rgbToHex({ r: channel(0), g: channel(8), b: channel(4) }, alpha), error: null };
+}
+
+function parseOklchFunction(args: ColorArguments, space: ColorSpace): ColorParseResult {
+  const [lightness, chroma] = args.channels;
+  if (lightness.unit !== '' && lightness.unit !== '%') return { hex: null, error: 'Lightness in oklch() must be a number or a percentage' };
+  if (chroma.unit !== '' && chroma.unit !== '%') return { hex: null, error: 'Chroma in oklch() must be a number or a percentage' };
+  
+  const L = lightness.unit === '%' ? lightness.value / 100 : lightness.value;
+  const C = chroma.unit === '%' ? chroma.value / 100 * 0.4 : chroma.value;
+  if (L < 0 || L > 1) return { hex: null, error: 'Lightness in oklch() must be between 0 and 1 (or 0% and 100%)' };
+  if (C < 0) return { hex: null, error: 'Chroma in oklch() cannot be negative' };
+  
+  const H = colorArgumentHue(args.channels[2]);
+  if (typeof H === 'string') return { hex: null, error: `${H} in oklch()` };
+  
+  const alpha = colorArgumentAlpha(args.alpha);
+  if (typeof alpha === 'string') return { hex: null, error: `${alpha} in oklch()` };
+  return { hex: withAlpha(oklchToHex(gamutMapChroma({ L, C, H }, space), space), alpha), error: null };
+}
+
+// =============================================================================
+// RELATIVE COLOR RULE FUNCTIONS
+// =============================================================================
+
+/**
+ * Compute relative rule between base color and role color
+ * @param modes - Channel modes to use instead of the defaults picked from the colors
+ * @param space - Space both hex colors are in
+ */
+function computeRelativeRule(baseColor: HexColor, roleColor: HexColor, modes: Partial<RuleChannels> = {}, space: ColorSpace = workingSpace): RelativeRule {
+  const baseOKLCH = hexToOKLCH(baseColor, space);
+  const roleOKLCH = hexToOKLCH(roleColor, space);
+  const channels = { ...defaultRuleChannels(baseOKLCH, roleOKLCH), ...modes };
+  
+  // Lightness relationship
+  const deltaL = roleOKLCH.L - baseOKLCH.L;
+  const Lmode: 'lighten' | 'darken' = deltaL >= 0 ? 'lighten' : 'darken';
+  let k = Math.abs(deltaL);
+  if (channels.Lchannel === 'proportional') {
+    const room = Lmode === 'lighten' ? 1 - baseOKLCH.L : baseOKLCH.L;
+    k = room > 0.001 ? Math.min(1, k / room) : 0;
+  }
+  
+  // Chroma relationship
+  const Cmul = baseOKLCH.C > 0.01 ? roleOKLCH.C / baseOKLCH.C : 1;
+  const Cabs = channels.Cchannel === 'absolute' ? roleOKLCH.C : null;
+  
+  // Hue relationship
+  let hDelta = roleOKLCH.H - baseOKLCH.H;
+  if (hDelta > 180) hDelta -= 360;
+  if (hDelta < -180) hDelta += 360;
+  
+  // Opacity relationship, a transparent base leaves nothing to scale
+  const baseAlpha = hexAlpha(baseColor);
+  const Amul = baseAlpha > 0 ? hexAlpha(roleColor) / baseAlpha : hexAlpha(roleColor);
+  
+  return {
+    Lmode,
+    k,
+    Cmul,
+    Cabs,
+    hDelta,
+    ...channels,
+    Labs: roleOKLCH.L,
+    Cdelta: roleOKLCH.C - baseOKLCH.C,
+    Habs: roleOKLCH.H,
+    Amul
+  };
+}
+
+/**
+ * Pick channel modes that keep a role's character on any base:
+ * near-black/white neutrals stay put, gray roles stay gray, tints stay tints
+ */
+function defaultRuleChannels(baseOKLCH: OKLCH, roleOKLCH: OKLCH): RuleChannels {
+  const roleIsGray = roleOKLCH.C <= 0.01;
+  const baseIsGray = baseOKLCH.C <= 0.01;
+  
+  let Lchannel: LightnessMode = 'additive';
+  const room = roleOKLCH.L >= baseOKLCH.L ? 1 - baseOKLCH.L : baseOKLCH.L;
+  if (roleIsGray && (roleOKLCH.L >= 0.98 || roleOKLCH.L <= 0.02)) {
+    Lchannel = 'absolute';
+  } else if (room > 0.001 && Math.abs(roleOKLCH.L - baseOKLCH.L) / room >= 0.6) {
+    Lchannel = 'proportional';
+  }
+  
+  return {
+    Lchannel,
+    Cchannel: roleIsGray || baseIsGray ? 'absolute' : 'proportional',
+    Hchannel: baseIsGray && !roleIsGray ? 'locked' : 'relative'
+  };
+}
+
+/**
+ * Channel modes of a rule, filling in what rules saved before modes existed did
+ */
+function ruleChannels(rule: RelativeRule): RuleChannels {
+  return {
+    Lchannel: rule.Lchannel || 'additive',
+    Cchannel: rule.Cchannel || (rule.Cabs !== null ? 'absolute' : 'proportional'),
+    Hchannel: rule.Hchannel || 'relative'
+  };
+}
+
+/**
+ * Apply relative rule to a new base color, reading and writing hex in the given space
+ */
+function applyRule(rule: RelativeRule, newBaseColor: HexColor, space: ColorSpace = workingSpace): HexColor {
+  const baseOKLCH = hexToOKLCH(newBaseColor, space);
+  const channels = ruleChannels(rule);
+  
+  // Apply lightness transformation
+  let newL: number;
+  if (channels.Lchannel === 'absolute') {
+    newL = rule.Labs ?? baseOKLCH.L;
+  } else if (channels.Lchannel === 'proportional') {
+    newL = rule.Lmode === 'lighten'
+      ? baseOKLCH.L + rule.k * (1 - baseOKLCH.L)
+      : baseOKLCH.L * (1 - rule.k);
+  } else if (rule.Lmode === 'lighten') {
+    newL = Math.min(1, baseOKLCH.L + rule.k);
+  } else {
+    newL = Math.max(0, baseOKLCH.L - rule.k);
+  }
+  
+  // Apply chroma transformation
+  let newC: number;
+  if (channels.Cchannel === 'absolute') {
+    newC = rule.Cabs ?? 0;
+  } else if (channels.Cchannel === 'additive') {
+    newC = Math.max(0, baseOKLCH.C + (rule.Cdelta ?? 0));
+  } else {
+    newC = baseOKLCH.C * rule.Cmul;
+  }
+  
+  // Apply hue transformation
+  let newH = channels.Hchannel === 'locked' ? (rule.Habs ?? baseOKLCH.H) : (baseOKLCH.H + rule.hDelta) % 360;
+  if (newH < 0) newH += 360;
+  
+  const newOKLCH = gamutClamp({ L: Math.max(0, Math.min(1, newL)), C: newC, H: newH }, space);
+  return withAlpha(oklchToHex(newOKLCH, space), hexAlpha(newBaseColor) * (rule.Amul ?? 1));
+}
+
+/**
+ * Hold the channels a rule locks when colors are moved by an anchor shift instead of the rule
+ */
+function lockRuleChannels(rule: RelativeRule, oklch: OKLCH): OKLCH {
+  const channels = ruleChannels(rule);
+  return {
+    L: channels.Lchannel === 'absolute' ? (rule.Labs ?? oklch.L) : oklch.L,
+    C: channels.Cchannel === 'absolute' ? (rule.Cabs ?? 0) : oklch.C,
+    H: channels.Hchannel === 'locked' ? (rule.Habs ?? oklch.H) : oklch.H
+  };
+}
+
+/**
+ * Invert a relative rule: find the base color that produces a given role color.
+ * Parts of the base the rule ignores (locked channels, lightness lost to clamping,
+ * hue of a gray) are taken from the fallback base
+ */
+function invertRule(rule: RelativeRule, roleColor: HexColor, fallbackBase: OKLCH): OKLCH {
+  const roleOKLCH = hexToOKLCH(roleColor);
+  const channels = ruleChannels(rule);
+  const epsilon = 0.0005;
+  
+  let L: number;
+  if (channels.Lchannel === 'absolute' || (channels.Lchannel === 'proportional' && rule.k >= 1)) {
+    L = fallbackBase.L;
+  } else if (channels.Lchannel === 'proportional') {
+    L = rule.Lmode === 'lighten' ? (roleOKLCH.L - rule.k) / (1 - rule.k) : roleOKLCH.L / (1 - rule.k);
+  } else if (rule.Lmode === 'lighten') {
+    // A role clamped at white or black could come from a whole range of bases
+    L = roleOKLCH.L >= 1 - epsilon ? Math.max(fallbackBase.L, 1 - rule.k) : roleOKLCH.L - rule.k;
+  } else {
+    L = roleOKLCH.L <= epsilon ? Math.min(fallbackBase.L, rule.k) : roleOKLCH.L + rule.k;
+  }
+  
+  let C: number;
+  if (channels.Cchannel === 'absolute' || (channels.Cchannel === 'proportional' && rule.Cmul < 0.0001)) {
+    C = fallbackBase.C;
+  } else if (channels.Cchannel === 'additive') {
+    C = roleOKLCH.C - (rule.Cdelta ?? 0);
+  } else {
+    C = roleOKLCH.C / rule.Cmul;
+  }
+  
+  let H = channels.Hchannel === 'locked' || roleOKLCH.C < epsilon ? fallbackBase.H : (roleOKLCH.H - rule.hDelta) % 360;
+  if (H < 0) H += 360;
+  
+  return { L: Math.max(0, Math.min(1, L)), C: Math.max(0, C), H };
+}
+
+/**
+ * Solve the Base color that makes a role come out as the given color
+ * @returns null when the role has no rule in the template
+ */
+function solveBaseColor(template: Template, role: string, color: HexColor): HexColor | null {
+  if (role === 'Base') return color;
+  
+  const rule = template.roles[role];
+  if (!rule) return null;
+  
+  const originalBase = template.originalColors['Base'];
+  const fallbackBase = originalBase ? hexToOKLCH(originalBase, template.colorSpace || 'srgb') : { L: 0.5, C: 0, H: 0 };
+  const Amul = rule.Amul ?? 1;
+  const alpha = Amul > 0 ? hexAlpha(color) / Amul : (originalBase ? hexAlpha(originalBase) : 1);
+  return withAlpha(oklchToHex(gamutClamp(invertRule(rule, color, fallbackBase))), alpha);
+}
+
+/**
+ * Make sure color changes carry a Base color, solving it from a driver role when needed
+ * @param driverRole - Role to solve from, the first changed role with a rule when missing
+ * @returns null when no Base could be found or solved
+ */
+function resolveColorChanges(template: Template, colorChanges: Record<string, HexColor>, driverRole?: string): Record<string, HexColor> | null {
+  if (colorChanges['Base']) return colorChanges;
+  
+  const driver = driverRole && colorChanges[driverRole] ? driverRole : Object.keys(colorChanges).find(role => template.roles[role]);
+  const baseColor = driver ? solveBaseColor(template, driver, colorChanges[driver]) : null;
+  return baseColor ? { ...colorChanges, Base: baseColor } : null;
+}
+
+// =============================================================================
+// CONTRAST GUARDRAILS
+// =============================================================================
+
+/**
+ * WCAG 2 relative luminance, computed through OKLab so Display P3 hex values are read correctly
+ */
+function relativeLuminance(hex: HexColor): number {
+  const { r, g, b } = oklchToLinearRgb(hexToOKLCH(hex));
+  return Math.max(0, 0.2126 * r + 0.7152 * g + 0.0722 * b);
+}
+
+/**
+ * WCAG 2 contrast ratio between two colors, from 1 to 21
+ */
+function wcagContrast(foreground: HexColor, background: HexColor): number {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * APCA lightness contrast (Lc, APCA-W3 0.0.98G), positive for dark text on light backgrounds
+ */
+function apcaContrast(foreground: HexColor, background: HexColor): number {
+  const screenLuminance = (hex: HexColor) => {
+    const { r, g, b } = hexToRgb(toSrgbHex(hex));
+    const Y = 0.2126729 * Math.pow(r, 2.4) + 0.7151522 * Math.pow(g, 2.4) + 0.0721750 * Math.pow(b, 2.4);
+    // Soft clamp near black
+    return Y > 0.022 ? Y : Y + Math.pow(0.022 - Y, 1.414);
+  };
+  
+  const text = screenLuminance(foreground);
+  const bg = screenLuminance(background);
+  if (Math.abs(bg - text) < 0.0005) return 0;
+  
+  if (bg > text) {
+    const sapc = (Math.pow(bg, 0.56) - Math.pow(text, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(bg, 0.65) - Math.pow(text, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/**
+ * Contrast as seen on screen: a translucent foreground is blended over the background first
+ */
+function measureContrast(method: ContrastMethod, foreground: HexColor, background: HexColor): number {
+  const visible = hasAlpha(foreground) ? compositeOver(foreground, background) : foreground;
+  const opaqueBackground = withAlpha(background, 1);
+  return method === 'apca' ? apcaContrast(visible, opaqueBackground) : wcagContrast(visible, opaqueBackground);
+}
+
+/**
+ * Blend a translucent color over an opaque one, in encoded RGB like Figma's normal blend mode
+ */
+function compositeOver(foreground: HexColor, background: HexColor): HexColor {
+  const alpha = hexAlpha(foreground);
+  const top = hexToRgb(foreground);
+  const bottom = hexToRgb(background);
+  const mix = (a: number, b: number) => a * alpha + b * (1 - alpha);
+  return rgbToHex({ r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b) });
+}
+
+function meetsContrast(method: ContrastMethod, value: number, target: number): boolean {
+  return method === 'apca' ? Math.abs(value) >= target : value >= target;
+}
+
+/**
+ * Find the closest lightness for the foreground that meets the pair's target,
+ * keeping its chroma and hue
+ * @returns null when no lightness reaches the target
+ */
+function solveContrastLightness(pair: ContrastPair, foreground: HexColor, background: HexColor): HexColor | null {
+  const start = hexToOKLCH(foreground);
+  
+  // Walk outwards in both directions and keep the smallest lightness change that passes
+  for (let delta = 0.005; delta <= 1; delta += 0.005) {
+    for (const L of [start.L + delta, start.L - delta]) {
+      if (L < 0 || L > 1) continue;
+      const candidate = withAlpha(oklchToHex(gamutClamp({ ...start, L })), hexAlpha(foreground));
+      if (meetsContrast(pair.method, measureContrast(pair.method, candidate, background), pair.target)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check every contrast pair of a template, moving foreground colors that fail
+ * when the pair allows it
+ * @param colors - Final role colors, updated in place
+ * @param lockedRoles - Roles the user set explicitly, reported but never moved
+ * @param report - Receives one result per pair when given
+ */
+function enforceContrast(template: Template, colors: Record<string, HexColor>, lockedRoles: string[], report?: ContrastResult[]): void {
+  for (const pair of template.contrastPairs || []) {
+    const foreground = colors[pair.foreground];
+    const background = colors[pair.background];
+    if (!foreground || !background) continue;
+    
+    const before = measureContrast(pair.method, foreground, background);
+    const passedBefore = meetsContrast(pair.method, before, pair.target);
+    let adjustedColor: HexColor | undefined;
+    
+    if (!passedBefore && pair.adjust && lockedRoles.indexOf(pair.foreground) === -1) {
+      adjustedColor = solveContrastLightness(pair, foreground, background) || undefined;
+      if (adjustedColor) {
+        colors[pair.foreground] = adjustedColor;
+      }
+    }
+    
+    const after = measureContrast(pair.method, colors[pair.foreground], background);
+    if (report) {
+      report.push({
+        ...pair,
+        before,
+        after,
+        passedBefore,
+        passedAfter: meetsContrast(pair.method, after, pair.target),
+        adjustedColor
+      });
+    }
+  }
+}
+
+/**
+ * Validate a contrast pair, optionally against the roles of a template
+ * @returns An error message, or null when the pair is acceptable
+ */
+function validateContrastPair(pair: ContrastPair, template?: Template): string | null {
+  if (!pair || typeof pair !== 'object') return 'Contrast pair is not an object';
+  if (typeof pair.foreground !== 'string' || typeof pair.background !== 'string') {
+    return 'Contrast pair needs a foreground and a background role';
+  }
+  if (pair.foreground === pair.background) return 'Contrast pair needs two different roles';
+  if (template && (!template.originalColors[pair.foreground] || !template.originalColors[pair.background])) {
+    return `Contrast pair uses a role that is not in "${template.name}"`;
+  }
+  if (pair.method !== 'wcag' && pair.method !== 'apca') return `Unknown contrast method "${String(pair.method)}"`;
+  if (typeof pair.target !== 'number' || !isFinite(pair.target)) return 'Contrast target must be a number';
+  if (pair.method === 'wcag' && (pair.target < 1 || pair.target > 21)) return 'WCAG contrast target must be between 1 and 21';
+  if (pair.method === 'apca' && (pair.target < 0 || pair.target > 108)) return 'APCA Lc target must be between 0 and 108';
+  if (typeof pair.adjust !== 'boolean') return 'Contrast pair adjust flag must be true or false';
+  return null;
+}
+
+// =============================================================================
+// PALETTE COMPUTATION
+// =============================================================================
+
+/**
+ * Calculate every role color when one anchor role is moved to a new color
+ * @returns null when the template has no original color for the anchor role
+ */
+function computeColorsWithAnchor(template: Template, anchorRole: string, newAnchorColor: HexColor, report?: ContrastResult[]): Record<string, HexColor> | null {
+  const originalAnchorColor = template.originalColors[anchorRole];
+  if (!originalAnchorColor) {
+    return null;
+  }
+  
+  // Calculate color shift in OKLCH space
+  // Original colors may come from a file with a different color profile
+  const templateSpace = template.colorSpace || 'srgb';
+  const originalOKLCH = hexToOKLCH(originalAnchorColor, templateSpace);
+  const newOKLCH = hexToOKLCH(newAnchorColor);
+  
+  const shift = {
+    L: newOKLCH.L - originalOKLCH.L,
+    C: newOKLCH.C - originalOKLCH.C, 
+    H: newOKLCH.H - originalOKLCH.H
+  };
+  
+  // Handle hue wraparound
+  if (shift.H > 180) shift.H -= 360;
+  if (shift.H < -180) shift.H += 360;
+  
+  // Opacity scales with the anchor's, so overlays keep their strength relative to it
+  const originalAlpha = hexAlpha(originalAnchorColor);
+  const alphaScale = originalAlpha > 0 ? hexAlpha(newAnchorColor) / originalAlpha : 1;
+  
+  // Apply shift to all colors in the template
+  const finalColors: Record<string, HexColor> = {};
+  Object.entries(template.originalColors).forEach(([role, originalColor]) => {
+    if (role === anchorRole) {
+      // Use the exact anchor color
+      finalColors[role] = newAnchorColor;
+    } else {
+      // Apply proportional shift to this color
+      const originalRoleOKLCH = hexToOKLCH(originalColor, templateSpace);
+      let shiftedOKLCH = {
+        L: Math.max(0, Math.min(1, originalRoleOKLCH.L + shift.L)),
+        C: Math.max(0, originalRoleOKLCH.C + shift.C),
+        H: (originalRoleOKLCH.H + shift.H + 360) % 360
+      };
+      
+      // Locked channels keep the template's value instead of shifting
+      const rule = template.roles[role];
+      if (rule) {
+        shiftedOKLCH = lockRuleChannels(rule, shiftedOKLCH);
+      }
+      
+      finalColors[role] = withAlpha(oklchToHex(gamutClamp(shiftedOKLCH)), hexAlpha(originalColor) * alphaScale);
+    }
+  });
+  
+  enforceContrast(template, finalColors, [anchorRole], report);
+  return finalColors;
+}
+
+/**
+ * Calculate every role color from explicit user changes, deriving the rest from Base
+ */
+function computeColorsWithChanges(template: Template, colorChanges: Record<string, HexColor>, report?: ContrastResult[]): Record<string, HexColor> {
+  const baseColor = colorChanges['Base'];
+  
+  // Calculate all colors based on user changes - start with all roles from template
+  const finalColors: Record<string, HexColor> = {};
+  
+  // Initialize with base color
+  finalColors['Base'] = baseColor;
+  
+  // Handle direct color assignments (user picked specific colors)
+  Object.entries(colorChanges).forEach(([role, color]) => {
+    finalColors[role] = color;
+  });
+  
+  // Calculate derived colors for roles not explicitly set
+  Object.entries(template.roles).forEach(([roleName, rule]) => {
+    if (rule && !(roleName in colorChanges)) {
+      // User didn't specify this color, so derive it from base
+      finalColors[roleName] = applyRule(rule, baseColor);
+    }
+  });
+  
+  // Colors the user picked explicitly are reported but never moved
+  enforceContrast(template, finalColors, Object.keys(colorChanges), report);
+  return finalColors;
+}
+
+/**
+ * Colors a template derives for a variant from the color it was generated from
+ * @returns null when a shifted variant's anchor role is not in the template
+ */
+function computeVariantColors(template: Template, source: VariantSource): Record<string, HexColor> | null {
+  return source.shifted
+    ? computeColorsWithAnchor(template, source.role, source.color)
+    : computeColorsWithChanges(template, { ...source.colorChanges, Base: source.color });
+}
+
+/**
+ * Change one role of a template so the variant derived from source gets the observed color.
+ * Rule-driven variants fit the role's rule to the observed color; shifted variants move the
+ * role's original color by the difference. Channel modes are kept either way
+ * @returns The role's new rule and original color, or null when the role is the one the
+ * variant was derived from or one set explicitly on it, and no template change can move it
+ */
+function fitRoleToColor(template: Template, role: string, observed: HexColor, source: VariantSource): { rule: RelativeRule, originalColor: HexColor } | null {
+  const rule = template.roles[role];
+  const baseOriginal = template.originalColors['Base'];
+  const expected = computeVariantColors(template, source);
+  if (role === source.role || (source.colorChanges && role in source.colorChanges) || !rule || !baseOriginal || !expected || !expected[role]) return null;
+  
+  // Original colors stay in the space the template was captured in
+  const templateSpace = template.colorSpace || 'srgb';
+  if (!source.shifted) {
+    const fitted = computeRelativeRule(expected['Base'], observed, ruleChannels(rule));
+    return { rule: fitted, originalColor: applyRule(fitted, baseOriginal, templateSpace) };
+  }
+  
+  const original = hexToOKLCH(template.originalColors[role], templateSpace);
+  const actual = hexToOKLCH(observed);
+  const derived = hexToOKLCH(expected[role]);
+  let hueShift = actual.H - derived.H;
+  if (hueShift > 180) hueShift -= 360;
+  if (hueShift < -180) hueShift += 360;
+  
+  const moved = gamutClamp({
+    L: Math.max(0, Math.min(1, original.L + actual.L - derived.L)),
+    C: Math.max(0, original.C + actual.C - derived.C),
+    H: (original.H + hueShift + 360) % 360
+  }, templateSpace);
+  const derivedAlpha = hexAlpha(expected[role]);
+  const alpha = derivedAlpha > 0 ? hexAlpha(template.originalColors[role]) * hexAlpha(observed) / derivedAlpha : hexAlpha(observed);
+  const originalColor = withAlpha(oklchToHex(moved, templateSpace), Math.min(1, alpha));
+  return { rule: computeRelativeRule(baseOriginal, originalColor, ruleChannels(rule), templateSpace), originalColor };
+}
+
+/**
+ * Recompute the relative rules of every non-base role from the original colors
+ * @param space - Space the original colors were captured in
+ */
+function computeTemplateRoles(originalColors: Record<string, HexColor>, space: ColorSpace = workingSpace): Record<string, RelativeRule> {
+  const roles: Record<string, RelativeRule> = {};
+  const baseColor = originalColors['Base'];
+  if (!baseColor) return roles;
+  
+  for (const [role, color] of Object.entries(originalColors)) {
+    if (role !== 'Base') {
+      roles[role] = computeRelativeRule(baseColor, color, {}, space);
+    }
+  }
+  return roles;
+}
+
+// =============================================================================
+// RULE VALIDATION
+// =============================================================================
+
+/**
+ * Validate a single edited rule field
+ * @returns An error message, or null when the value is acceptable
+ */
+function validateRuleField(field: RuleField, value: unknown): string | null {
+  const isNumber = typeof value === 'number' && isFinite(value);
+  
+  switch (field) {
+    case 'Lmode':
+      return value === 'lighten' || value === 'darken' ? null : 'Lightness mode must be "lighten" or "darken"';
+    case 'k':
+      return isNumber && value >= 0 && value <= 1 ? null : 'Lightness factor k must be between 0 and 1';
+    case 'Cmul':
+      return isNumber && value >= 0 ? null : 'Chroma multiplier must be a positive number';
+    case 'Cabs':
+      return value === null || (isNumber && value >= 0 && value <= 0.4) ? null : 'Absolute chroma must be empty or between 0 and 0.4';
+    case 'hDelta':
+      return isNumber && value >= -180 && value <= 180 ? null : 'Hue delta must be between -180 and 180 degrees';
+    case 'Lchannel':
+      return value === 'additive' || value === 'proportional' || value === 'absolute' ? null : 'Lightness channel must be additive, proportional or absolute';
+    case 'Labs':
+      return isNumber && value >= 0 && value <= 1 ? null : 'Locked lightness must be between 0 and 1';
+    case 'Cchannel':
+      return value === 'proportional' || value === 'additive' || value === 'absolute' ? null : 'Chroma channel must be proportional, additive or absolute';
+    case 'Cdelta':
+      return isNumber && value >= -0.4 && value <= 0.4 ? null : 'Chroma delta must be between -0.4 and 0.4';
+    case 'Hchannel':
+      return value === 'relative' || value === 'locked' ? null : 'Hue channel must be relative or locked';
+    case 'Habs':
+      return isNumber && value >= 0 && value < 360 ? null : 'Locked hue must be between 0 and 360 degrees';
+    case 'Amul':
+      return isNumber && value >= 0 ? null : 'Opacity multiplier must be zero or a positive number';
+    default:
+      return `Unknown rule field "${field}"`;
+  }
+}
+
+// =============================================================================
+// TEMPLATE IMPORT / EXPORT
+// =============================================================================
+
+/**
+ * Upgrades applied to library files written by older versions, keyed by the
+ * version they upgrade from. Add an entry whenever the Template or RelativeRule
+ * shape changes and bump TEMPLATE_LIBRARY_VERSION.
+ */
+const TEMPLATE_LIBRARY_MIGRATIONS: Record<number, (templates: unknown[]) => unknown[]> = {
+  // Version 2 added rule channel modes, the opacity multiplier, contrast pairs and the
+  // template's color space; version 1 files meant the behavior from before they existed
+  1: templates => templates.map(raw => {
+    if (!raw || typeof raw !== 'object') return raw;
+    const template = raw as Partial<Template>;
+    const migrated: Partial<Template> = { colorSpace: 'srgb', contrastPairs: [], ...template };
+    if (template.roles && typeof template.roles === 'object') {
+      migrated.roles = {};
+      for (const [role, rule] of Object.entries(template.roles)) {
+        migrated.roles[role] = rule && typeof rule === 'object' ? { ...ruleChannels(rule), Amul: 1, ...rule } : rule;
+      }
+    }
+    return migrated;
+  })
+};
+
+/**
+ * Validate and migrate a parsed library file
+ * @returns The templates it contains, or every problem found
+ */
+function parseTemplateLibrary(data: unknown): { templates: Template[], errors: string[] } {
+  const file = data as Partial<TemplateLibraryFile> | null;
+  
+  if (!file || typeof file !== 'object' || file.format !== TEMPLATE_LIBRARY_FORMAT) {
+    return { templates: [], errors: ['Not an ArtyColors template library file'] };
+  }
+  
+  const version = file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { templates: [], errors: ['Missing or invalid schema version'] };
+  }
+  if (version > TEMPLATE_LIBRARY_VERSION) {
+    return { templates: [], errors: [`File uses schema version ${version}, this plugin supports up to ${TEMPLATE_LIBRARY_VERSION}. Please update ArtyColors.`] };
+  }
+  if (!Array.isArray(file.templates)) {
+    return { templates: [], errors: ['File does not contain a templates list'] };
+  }
+  
+  let rawTemplates: unknown[] = file.templates;
+  for (let v = version; v < TEMPLATE_LIBRARY_VERSION; v++) {
+    rawTemplates = TEMPLATE_LIBRARY_MIGRATIONS[v](rawTemplates);
+  }
+  
+  const templates: Template[] = [];
+  const errors: string[] = [];
+  
+  rawTemplates.forEach((raw, index) => {
+    const templateErrors = validateTemplate(raw);
+    if (templateErrors.length > 0) {
+      const name = (raw as Partial<Template>)?.name || `#${index + 1}`;
+      errors.push(...templateErrors.map(error => `Template "${name}": ${error}`));
+    } else {
+      templates.push(raw as Template);
+    }
+  });
+  
+  // Templates repeated inside the same file get fresh ids
+  const seenIds = new Set<string>();
+  for (const template of templates) {
+    if (seenIds.has(template.id)) {
+      template.id = generateId();
+    }
+    seenIds.add(template.id);
+  }
+  
+  return { templates, errors };
+}
+
+/**
+ * Check an imported value against the Template shape
+ * @returns Every problem found, empty when the template is valid
+ */
+function validateTemplate(raw: unknown): string[] {
+  const errors: string[] = [];
+  const template = raw as Partial<Template> | null;
+  
+  if (!template || typeof template !== 'object') {
+    return ['not an object'];
+  }
+  if (typeof template.id !== 'string' || !template.id) {
+    errors.push('missing id');
+  }
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    errors.push('missing name');
+  }
+  if (template.colorSpace !== undefined && template.colorSpace !== 'srgb' && template.colorSpace !== 'display-p3') {
+    errors.push(`unknown color space "${String(template.colorSpace)}"`);
+  }
+  if (template.contrastPairs !== undefined) {
+    if (!Array.isArray(template.contrastPairs)) {
+      errors.push('contrastPairs is not a list');
+    } else {
+      for (const pair of template.contrastPairs) {
+        const error = validateContrastPair(pair);
+        if (error) errors.push(error);
+      }
+    }
+  }
+  
+  const isRecord = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+  
+  if (!isRecord(template.originalColors)) {
+    errors.push('missing originalColors');
+  } else {
+    const originalColors = template.originalColors as Record<string, unknown>;
+    if (!originalColors['Base']) {
+      errors.push('originalColors has no Base color');
+    }
+    for (const [role, color] of Object.entries(originalColors)) {
+      if (typeof color !== 'string' || !/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(color)) {
+        errors.push(`${role} has malformed hex color "${String(color)}", expected #rrggbb or #rrggbbaa`);
+      }
+    }
+  }
+  
+  if (!isRecord(template.colorNames)) {
+    errors.push('missing colorNames');
+  } else {
+    for (const [role, name] of Object.entries(template.colorNames as Record<string, unknown>)) {
+      if (typeof name !== 'string') {
+        errors.push(`${role} has a non-text color name`);
+      }
+    }
+  }
+  
+  if (!isRecord(template.roles)) {
+    errors.push('missing roles');
+  } else {
+    for (const [role, rule] of Object.entries(template.roles as Record<string, unknown>)) {
+      if (!isRecord(rule)) {
+        errors.push(`${role} rule is not an object`);
+        continue;
+      }
+      const fields: RuleField[] = ['Lmode', 'k', 'Cmul', 'Cabs', 'hDelta'];
+      const optionalFields: RuleField[] = ['Lchannel', 'Labs', 'Cchannel', 'Cdelta', 'Hchannel', 'Habs', 'Amul'];
+      for (const field of [...fields, ...optionalFields.filter(field => field in (rule as Record<string, unknown>))]) {
+        const error = validateRuleField(field, (rule as Record<string, unknown>)[field]);
+        if (error) {
+          errors.push(`${role}: ${error}`);
+        }
+      }
+    }
+  }
+  
+  return errors;
+}
+
+// =============================================================================
+// ENGINE CONFIGURATION
+// =============================================================================
+
+/**
+ * Set the working space and gamut mapping method outside the plugin, where
+ * they are normally read from the document and settings on startup
+ */
+function configureEngine(options: { space?: ColorSpace, gamutMapping?: GamutMapping }): void {
+  if (options.space) workingSpace = options.space;
+  if (options.gamutMapping) gamutMapping = options.gamutMapping;
+}
+
+// =============================================================================
+// NODE EXPORTS
+// =============================================================================
+
+// Inside Figma this file is concatenated into code.js and `module` does not exist
+declare const module: { exports: unknown } | undefined;
+
+if (typeof module !== 'undefined') {
+  module.exports = {
+    configureEngine,
+    naturalSort,
+    rgbToHex,
+    hexToRgb,
+    hexToOKLCH,
+    oklchToHex,
+    gamutClamp,
+    gamutMapChroma,
+    isInGamut,
+    parseColor,
+    hexAlpha,
+    withAlpha,
+    compositeOver,
+    resetGamutReport,
+    gamutReportNote,
+    deltaEOK,
+    toSrgbHex,
+    formatOklch,
+    computeRelativeRule,
+    ruleChannels,
+    applyRule,
+    invertRule,
+    solveBaseColor,
+    resolveColorChanges,
+    wcagContrast,
+    apcaContrast,
+    measureContrast,
+    meetsContrast,
+    enforceContrast,
+    validateContrastPair,
+    computeColorsWithAnchor,
+    computeColorsWithChanges,
+    computeVariantColors,
+    fitRoleToColor,
+    computeTemplateRoles,
+    validateRuleField,
+    validateTemplate,
+    parseTemplateLibrary,
+    TEMPLATE_LIBRARY_FORMAT,
+    TEMPLATE_LIBRARY_VERSION
+  };
+}
@@ -0,0 +1,37 @@
+// Layout tests for batch output, run against the compiled plugin with a stubbed figma global
+
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+
+// Just enough of the plugin API for code.js to load
+global.figma = {
+  showUI() {},
+  ui: { postMessage() {}, onmessage: null },
+  clientStorage: { getAsync: async () => undefined, setAsync: async () => {} },
+  root: { documentColorProfile: 'SRGB', getSharedPluginData: () => '' },
+  notify() {}
+};
+global.__html__ = '';
+
+const source = fs.readFileSync(path.join(__dirname, '..', 'code.js'), 'utf8');
+const plugin = new Function(`${source}\nreturn { positionInGrid };`)();
+
+const nodes = count => Array.from({ length: count }, () => ({ x: 0, y: 0, width: 100, height: 40 }));
+const cells = list => list.map(node => [node.x / 110, node.y / 50]);
+const layout = fillOrder => ({ columns: 0, columnGap: 10, rowGap: 10, fillOrder, placement: 'beside-source' });
+
+describe('positionInGrid', () => {
+  test('fills rows with `columns` nodes per row', () => {
+    const list = nodes(5);
+    plugin.positionInGrid(list, 2, layout('rows'), 0, 0);
+    assert.deepEqual(cells(list), [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+  });
+
+  test('fills columns with `columns` nodes per column, like the wrapper frames', () => {
+    const list = nodes(5);
+    plugin.positionInGrid(list, 2, layout('columns'), 0, 0);
+    assert.deepEqual(cells(list), [[0, 0], [0, 1], [1, 0], [1, 1], [2, 0]]);
+  });
+});
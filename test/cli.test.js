@@ -0,0 +1,74 @@
+// End-to-end tests for bin/artycolors.js against a small exported library
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { spawnSync } = require('node:child_process');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const engine = require('../dist/color-engine.js');
+
+const CLI = path.join(__dirname, '..', 'bin', 'artycolors.js');
+
+const originalColors = { Base: '#3366cc', Color1: '#99bbff', Color2: '#ffffff' };
+const library = {
+  format: engine.TEMPLATE_LIBRARY_FORMAT,
+  version: engine.TEMPLATE_LIBRARY_VERSION,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  templates: [
+    { id: 'card', name: 'Card', colorNames: { Base: 'Base', Color1: 'Surface', Color2: 'Text' }, originalColors, roles: engine.computeTemplateRoles(originalColors) },
+    { id: 'chip', name: 'Chip', colorNames: {}, originalColors: { Base: '#808080' }, roles: {} }
+  ]
+};
+
+const libraryFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'artycolors-')), 'library.json');
+fs.writeFileSync(libraryFile, JSON.stringify(library));
+
+const run = (...args) => spawnSync(process.execPath, [CLI, ...args], { encoding: 'utf8' });
+
+test('prints the same palette the engine computes', () => {
+  const result = run(libraryFile, 'cc3366', '--template', 'card', '--json');
+  assert.equal(result.status, 0, result.stderr);
+
+  const [palette] = JSON.parse(result.stdout);
+  const expected = engine.computeColorsWithChanges(library.templates[0], { Base: '#cc3366' });
+  assert.deepEqual(palette.colors, expected);
+  assert.deepEqual(Object.keys(palette.colors), ['Base', 'Color1', 'Color2']);
+});
+
+test('solves Base when the colors are for another role', () => {
+  const result = run(libraryFile, '#ffaa88', '-t', 'Card', '--anchor', 'Color1', '--json');
+  assert.equal(result.status, 0, result.stderr);
+
+  const [palette] = JSON.parse(result.stdout);
+  assert.equal(palette.colors.Color1, '#ffaa88');
+  assert.equal(palette.colors.Base, engine.solveBaseColor(library.templates[0], 'Color1', '#ffaa88'));
+});
+
+test('prints one text block per color', () => {
+  const result = run(libraryFile, '#cc3366', '#2a7a5a', '-t', 'Card');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Card on #cc3366/);
+  assert.match(result.stdout, /Card on #2a7a5a/);
+  assert.match(result.stdout, /Surface \(Color1\)\s+#[0-9a-f]{6}/);
+});
+
+test('reads any CSS color syntax', () => {
+  const result = run(libraryFile, 'rgb(204 51 102 / 50%)', 'crimson', '-t', 'Card', '--json');
+  assert.equal(result.status, 0, result.stderr);
+
+  const [translucent, named] = JSON.parse(result.stdout);
+  assert.equal(translucent.input, '#cc336680');
+  assert.equal(named.colors.Base, '#dc143c');
+});
+
+test('asks for a template when the library has several', () => {
+  const result = run(libraryFile, '#cc3366');
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /pick one with --template: Card, Chip/);
+});
+
+test('rejects malformed colors and files', () => {
+  assert.match(run(libraryFile, 'bleu', '-t', 'Card').stderr, /"bleu" is not a color/);
+  assert.match(run(CLI, '#cc3366').stderr, /Could not read/);
+});
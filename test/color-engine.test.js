@@ -0,0 +1,398 @@
+// Reference-value tests for the color engine (run with `npm test`)
+// Expected OKLCH values come from the OKLab reference implementation by Björn Ottosson
+
+const { test, describe, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const engine = require('../dist/color-engine.js');
+
+const near = (actual, expected, tolerance, label) => {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${label || 'value'}: expected ${expected} ± ${tolerance}, got ${actual}`);
+};
+
+// Shortest angle between two hues in degrees
+const hueDistance = (a, b) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const template = (originalColors, extra = {}) => {
+  const roles = engine.computeTemplateRoles(originalColors);
+  return { id: 't', name: 'Test', colorNames: {}, originalColors, roles, ...extra };
+};
+
+beforeEach(() => {
+  engine.configureEngine({ space: 'srgb', gamutMapping: 'chroma' });
+});
+
+describe('hexToOKLCH', () => {
+  const references = [
+    ['#ff0000', 0.62796, 0.25768, 29.234],
+    ['#00ff00', 0.86644, 0.29483, 142.495],
+    ['#0000ff', 0.45201, 0.31321, 264.052],
+    ['#ffff00', 0.96798, 0.21101, 109.769],
+    ['#808080', 0.59987, 0, 0]
+  ];
+
+  for (const [hex, L, C, H] of references) {
+    test(`${hex} matches the reference`, () => {
+      const oklch = engine.hexToOKLCH(hex);
+      near(oklch.L, L, 0.0005, 'L');
+      near(oklch.C, C, 0.0005, 'C');
+      if (C > 0) near(oklch.H, H, 0.05, 'H');
+    });
+  }
+
+  test('white and black sit at the ends of the lightness axis', () => {
+    near(engine.hexToOKLCH('#ffffff').L, 1, 0.0001, 'white L');
+    near(engine.hexToOKLCH('#ffffff').C, 0, 0.0001, 'white C');
+    assert.equal(engine.hexToOKLCH('#000000').L, 0);
+  });
+
+  test('reads hex values as Display P3 when asked', () => {
+    const oklch = engine.hexToOKLCH('#ff0000', 'display-p3');
+    near(oklch.L, 0.6486, 0.0005, 'L');
+    near(oklch.C, 0.2995, 0.0005, 'C');
+    near(oklch.H, 28.96, 0.05, 'H');
+  });
+});
+
+describe('round-trips', () => {
+  const colors = ['#000000', '#ffffff', '#808080', '#ff0000', '#3366cc', '#12ab34', '#fedcba', '#7f00ff', '#010203'];
+
+  for (const space of ['srgb', 'display-p3']) {
+    test(`hex -> OKLCH -> hex is lossless in ${space}`, () => {
+      for (const hex of colors) {
+        assert.equal(engine.oklchToHex(engine.hexToOKLCH(hex, space), space), hex);
+      }
+    });
+  }
+
+  test('a rule applied to its own base reproduces the role color', () => {
+    const pairs = [['#3366cc', '#99bbff'], ['#3366cc', '#1a2d5c'], ['#cc3366', '#f0f0f0'], ['#808080', '#3366cc']];
+    for (const [base, role] of pairs) {
+      const rule = engine.computeRelativeRule(base, role);
+      const result = engine.hexToOKLCH(engine.applyRule(rule, base));
+      assert.ok(engine.deltaEOK(result, engine.hexToOKLCH(role)) < 0.005, `${base} -> ${role}`);
+    }
+  });
+
+  test('template rules read original colors in the template\'s space, not the document\'s', () => {
+    const originalColors = { Base: '#3366cc', Color1: '#ff2200' };
+    engine.configureEngine({ space: 'display-p3' });
+    const inP3 = engine.computeTemplateRoles(originalColors);
+    engine.configureEngine({ space: 'srgb' });
+    assert.deepEqual(engine.computeTemplateRoles(originalColors, 'display-p3'), inP3);
+    assert.notDeepEqual(engine.computeTemplateRoles(originalColors), inP3);
+  });
+
+  test('solving Base from a derived role gives back the base', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff', Color2: '#1a2d5c' });
+    // A base whose derived roles stay inside sRGB, so nothing is lost to gamut mapping
+    const newBase = '#5a3dab';
+    for (const role of ['Color1', 'Color2']) {
+      const derived = engine.applyRule(t.roles[role], newBase);
+      const solved = engine.solveBaseColor(t, role, derived);
+      assert.ok(engine.deltaEOK(engine.hexToOKLCH(solved), engine.hexToOKLCH(newBase)) < 0.01, `${role}: ${solved}`);
+    }
+  });
+});
+
+describe('hue wraparound', () => {
+  test('hue deltas take the short way across 0°', () => {
+    const base = engine.oklchToHex({ L: 0.6, C: 0.15, H: 350 });
+    const role = engine.oklchToHex({ L: 0.6, C: 0.15, H: 10 });
+    const rule = engine.computeRelativeRule(base, role);
+    near(rule.hDelta, 20, 1, 'hDelta');
+  });
+
+  test('applied hues stay within [0, 360)', () => {
+    const rule = engine.computeRelativeRule(engine.oklchToHex({ L: 0.6, C: 0.15, H: 20 }), engine.oklchToHex({ L: 0.6, C: 0.15, H: 340 }));
+    near(rule.hDelta, -40, 1, 'hDelta');
+    const result = engine.hexToOKLCH(engine.applyRule(rule, engine.oklchToHex({ L: 0.6, C: 0.15, H: 10 })));
+    assert.ok(result.H >= 0 && result.H < 360);
+    assert.ok(hueDistance(result.H, 330) < 2, `hue ${result.H}`);
+  });
+
+  test('anchor shifts wrap around too', () => {
+    const t = template({ Base: engine.oklchToHex({ L: 0.6, C: 0.15, H: 355 }), Color1: engine.oklchToHex({ L: 0.8, C: 0.08, H: 5 }) });
+    const colors = engine.computeColorsWithAnchor(t, 'Base', engine.oklchToHex({ L: 0.6, C: 0.15, H: 15 }));
+    assert.ok(hueDistance(engine.hexToOKLCH(colors.Color1).H, 25) < 2, `hue ${engine.hexToOKLCH(colors.Color1).H}`);
+  });
+});
+
+describe('gray bases', () => {
+  test('a chromatic role on a gray base keeps its own chroma and hue', () => {
+    const rule = engine.computeRelativeRule('#808080', '#3366cc');
+    assert.equal(engine.ruleChannels(rule).Cchannel, 'absolute');
+    assert.equal(engine.ruleChannels(rule).Hchannel, 'locked');
+
+    const result = engine.hexToOKLCH(engine.applyRule(rule, '#999999'));
+    const role = engine.hexToOKLCH('#3366cc');
+    near(result.C, role.C, 0.01, 'C');
+    assert.ok(hueDistance(result.H, role.H) < 1, `hue ${result.H}`);
+  });
+
+  test('a gray role stays gray on a chromatic base', () => {
+    const rule = engine.computeRelativeRule('#3366cc', '#cccccc');
+    const result = engine.hexToOKLCH(engine.applyRule(rule, '#cc3366'));
+    assert.ok(result.C < 0.01, `chroma ${result.C}`);
+  });
+
+  test('near-white and near-black neutrals hold their lightness', () => {
+    const rule = engine.computeRelativeRule('#3366cc', '#ffffff');
+    assert.equal(engine.applyRule(rule, '#202020'), '#ffffff');
+  });
+
+  test('gray to gray does not invent chroma', () => {
+    const rule = engine.computeRelativeRule('#808080', '#b0b0b0');
+    const result = engine.hexToOKLCH(engine.applyRule(rule, '#505050'));
+    assert.ok(result.C < 0.001, `chroma ${result.C}`);
+  });
+});
+
+describe('out-of-gamut inputs', () => {
+  const vivid = { L: 0.7, C: 0.4, H: 140 };
+
+  test('chroma mapping lands on the gamut boundary keeping lightness and hue', () => {
+    assert.equal(engine.isInGamut(vivid, 'srgb'), false);
+    const mapped = engine.gamutMapChroma(vivid, 'srgb');
+    assert.ok(engine.isInGamut(mapped, 'srgb'));
+    assert.equal(mapped.L, vivid.L);
+    assert.equal(mapped.H, vivid.H);
+    assert.ok(!engine.isInGamut({ ...mapped, C: mapped.C + 0.002 }, 'srgb'), 'chroma is not maximal');
+  });
+
+  test('Display P3 holds more chroma than sRGB', () => {
+    const srgb = engine.gamutMapChroma(vivid, 'srgb');
+    const p3 = engine.gamutMapChroma(vivid, 'display-p3');
+    assert.ok(p3.C > srgb.C);
+  });
+
+  test('lightness beyond white or black collapses to the neutral', () => {
+    assert.deepEqual(engine.gamutMapChroma({ L: 1.2, C: 0.2, H: 30 }, 'srgb'), { L: 1, C: 0, H: 30 });
+    assert.deepEqual(engine.gamutMapChroma({ L: -0.1, C: 0.2, H: 30 }, 'srgb'), { L: 0, C: 0, H: 30 });
+  });
+
+  test('the estimate method only caps chroma', () => {
+    engine.configureEngine({ gamutMapping: 'estimate' });
+    const mapped = engine.gamutClamp(vivid);
+    near(mapped.C, 0.7 * 0.3 * 0.4, 1e-9, 'C');
+  });
+
+  test('rules that overshoot still produce valid hex colors', () => {
+    const rule = engine.computeRelativeRule('#808f80', '#00ff00');
+    const hex = engine.applyRule(rule, '#ff0000');
+    assert.match(hex, /^#[0-9a-f]{6}$/);
+  });
+
+  test('wide-gamut colors map down to sRGB hex', () => {
+    engine.configureEngine({ space: 'display-p3' });
+    const srgb = engine.toSrgbHex('#00ff00');
+    assert.match(srgb, /^#[0-9a-f]{6}$/);
+    assert.ok(engine.deltaEOK(engine.hexToOKLCH(srgb, 'srgb'), engine.hexToOKLCH('#00ff00', 'display-p3')) < 0.12);
+  });
+});
+
+describe('contrast', () => {
+  test('WCAG ratios match the reference', () => {
+    near(engine.wcagContrast('#000000', '#ffffff'), 21, 0.01, 'black on white');
+    near(engine.wcagContrast('#777777', '#ffffff'), 4.48, 0.01, '#777 on white');
+  });
+
+  test('APCA Lc matches the reference', () => {
+    near(engine.apcaContrast('#000000', '#ffffff'), 106.04, 0.05, 'black on white');
+    near(engine.apcaContrast('#ffffff', '#000000'), -107.88, 0.05, 'white on black');
+    near(engine.apcaContrast('#888888', '#ffffff'), 63.06, 0.05, '#888 on white');
+  });
+
+  test('guardrails move derived foregrounds until the target is met', () => {
+    const t = template({ Base: '#3366cc', Color1: '#5577dd' }, {
+      contrastPairs: [{ foreground: 'Color1', background: 'Base', method: 'wcag', target: 4.5, adjust: true }]
+    });
+    const report = [];
+    const colors = engine.computeColorsWithChanges(t, { Base: '#3366cc' }, report);
+    assert.equal(report[0].passedBefore, false);
+    assert.equal(report[0].passedAfter, true);
+    assert.ok(engine.wcagContrast(colors.Color1, colors.Base) >= 4.5);
+  });
+});
+
+describe('parseColor', () => {
+  const valid = [
+    ['#abc', '#aabbcc'],
+    ['#abcd', '#aabbccdd'],
+    ['#3366CC', '#3366cc'],
+    ['3366cc', '#3366cc'],
+    ['#3366ccff', '#3366cc'],
+    ['rgb(51 102 204)', '#3366cc'],
+    ['rgba(51, 102, 204, 0.5)', '#3366cc80'],
+    ['rgb(20% 40% 80% / 50%)', '#3366cc80'],
+    ['hsl(220 60% 50%)', '#3366cc'],
+    ['hsla(0.5turn, 100%, 50%, .25)', '#00ffff40'],
+    ['oklch(0.62796 0.25768 29.234)', '#ff0000'],
+    ['oklch(100% 0 0)', '#ffffff'],
+    ['RebeccaPurple', '#663399'],
+    ['transparent', '#00000000']
+  ];
+
+  for (const [input, hex] of valid) {
+    test(`reads ${input}`, () => {
+      assert.deepEqual(engine.parseColor(input), { hex, error: null });
+    });
+  }
+
+  const invalid = [
+    ['', /Enter a color/],
+    ['blu', /"blu" is not a color/],
+    ['#12345', /needs 3, 4, 6 or 8 hex digits, it has 5/],
+    ['#12g', /not hex digits/],
+    ['rgb(1 2 3', /missing a closing parenthesis/],
+    ['rgb(300 0 0)', /Red in rgb\(\) must be between 0 and 255/],
+    ['rgb(1 2)', /Expected 3 values/],
+    ['rgb(1, 2 / 3)', /Commas and "\/" cannot be mixed/],
+    ['hsl(10 20% 30% / 2)', /Alpha must be between 0 and 1/],
+    ['oklch(1.5 0.1 20)', /Lightness in oklch\(\) must be between 0 and 1/],
+    ['lab(50 20 20)', /lab\(\) colors are not supported/],
+    ['foo(1 2 3)', /foo\(\) is not a CSS color function/]
+  ];
+
+  for (const [input, error] of invalid) {
+    test(`rejects ${JSON.stringify(input)}`, () => {
+      const result = engine.parseColor(input);
+      assert.equal(result.hex, null);
+      assert.match(result.error, error);
+    });
+  }
+
+  test('maps out-of-gamut oklch() into the working space', () => {
+    const { hex } = engine.parseColor('oklch(0.7 0.4 140)');
+    const oklch = engine.hexToOKLCH(hex);
+    near(oklch.L, 0.7, 0.005, 'L');
+    near(oklch.H, 140, 1, 'H');
+    assert.ok(oklch.C < 0.4);
+  });
+});
+
+describe('alpha', () => {
+  test('roles keep their opacity relative to the base', () => {
+    const rule = engine.computeRelativeRule('#3366cc', '#ffffff66');
+    near(rule.Amul, 0.4, 0.01, 'Amul');
+    assert.equal(engine.applyRule(rule, '#cc3366'), '#ffffff66');
+    assert.equal(engine.applyRule(rule, '#cc336680'), '#ffffff33');
+  });
+
+  test('opaque templates keep producing 6-digit hex', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff' });
+    const colors = engine.computeColorsWithChanges(t, { Base: '#cc3366' });
+    assert.match(colors.Color1, /^#[0-9a-f]{6}$/);
+  });
+
+  test('anchor shifts scale opacity with the anchor', () => {
+    const t = template({ Base: '#3366cc', Color1: '#00000080' });
+    const colors = engine.computeColorsWithAnchor(t, 'Base', '#cc336680');
+    near(engine.hexAlpha(colors.Color1), 0.25, 0.01, 'alpha');
+  });
+
+  test('solving Base undoes the opacity multiplier', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff80' });
+    const solved = engine.solveBaseColor(t, 'Color1', engine.applyRule(t.roles.Color1, '#5a3dab'));
+    assert.equal(engine.hexAlpha(solved), 1);
+  });
+
+  test('translucent foregrounds are measured over their background', () => {
+    near(engine.measureContrast('wcag', '#00000080', '#ffffff'), engine.wcagContrast('#808080', '#ffffff'), 0.1, 'contrast');
+  });
+
+  test('oklch() output keeps the opacity', () => {
+    assert.match(engine.formatOklch('#3366cc80'), / \/ 50\.2%\)$/);
+  });
+});
+
+describe('fitRoleToColor', () => {
+  const drifted = (t, role, fit) => ({
+    ...t,
+    roles: { ...t.roles, [role]: fit.rule },
+    originalColors: { ...t.originalColors, [role]: fit.originalColor }
+  });
+  const deltaE = (a, b) => engine.deltaEOK(engine.hexToOKLCH(a), engine.hexToOKLCH(b));
+
+  test('rule-driven variants derive the observed color afterwards', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff', Color2: '#1a2b4c' });
+    const source = { role: 'Base', color: '#5a3dab', shifted: false };
+    const fixed = drifted(t, 'Color1', engine.fitRoleToColor(t, 'Color1', '#c2a8f0', source));
+
+    const colors = engine.computeVariantColors(fixed, source);
+    assert.ok(deltaE(colors.Color1, '#c2a8f0') < 0.002, colors.Color1);
+    assert.equal(colors.Color2, engine.computeVariantColors(t, source).Color2);
+  });
+
+  test('shifted variants move the original color by the drift', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff' });
+    const source = { role: 'Base', color: '#5a3dab', shifted: true };
+    const fixed = drifted(t, 'Color1', engine.fitRoleToColor(t, 'Color1', '#a08ad8', source));
+
+    assert.ok(deltaE(engine.computeVariantColors(fixed, source).Color1, '#a08ad8') < 0.002);
+  });
+
+  test('keeps the rule\'s channel modes', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff' });
+    t.roles.Color1 = engine.computeRelativeRule('#3366cc', '#99bbff', { Hchannel: 'locked' });
+    const fit = engine.fitRoleToColor(t, 'Color1', '#ffaa88', { role: 'Base', color: '#cc3366', shifted: false });
+    assert.equal(fit.rule.Hchannel, 'locked');
+  });
+
+  test('cannot move the color a variant was derived from', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff' });
+    assert.equal(engine.fitRoleToColor(t, 'Base', '#000000', { role: 'Base', color: '#5a3dab', shifted: false }), null);
+    assert.equal(engine.fitRoleToColor(t, 'Color1', '#000000', { role: 'Color1', color: '#ffaa88', shifted: true }), null);
+  });
+
+  test('writes original colors in a Display P3 template\'s own space', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff' }, { colorSpace: 'display-p3' });
+    const ruleSource = { role: 'Base', color: '#5a3dab', shifted: false };
+    const fit = engine.fitRoleToColor(t, 'Color1', '#c2a8f0', ruleSource);
+    const refit = engine.computeRelativeRule('#3366cc', fit.originalColor, engine.ruleChannels(fit.rule), 'display-p3');
+    assert.ok(Math.abs(refit.k - fit.rule.k) < 0.005 && Math.abs(refit.hDelta - fit.rule.hDelta) < 1, fit.originalColor);
+
+    const shiftedSource = { role: 'Base', color: '#5a3dab', shifted: true };
+    const fixed = drifted(t, 'Color1', engine.fitRoleToColor(t, 'Color1', '#a08ad8', shiftedSource));
+    assert.ok(deltaE(engine.computeVariantColors(fixed, shiftedSource).Color1, '#a08ad8') < 0.002);
+  });
+
+  test('keeps the roles a variant set explicitly', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff', Color2: '#1a2b4c' });
+    const source = { role: 'Base', color: '#5a3dab', shifted: false, colorChanges: { Color1: '#ff0000' } };
+
+    assert.equal(engine.computeVariantColors(t, source).Color1, '#ff0000');
+    assert.equal(engine.fitRoleToColor(t, 'Color1', '#00ff00', source), null);
+    assert.notEqual(engine.fitRoleToColor(t, 'Color2', '#00ff00', source), null);
+  });
+});
+
+describe('template library files', () => {
+  const file = (version, templates) => ({ format: engine.TEMPLATE_LIBRARY_FORMAT, version, exportedAt: '2024-01-01T00:00:00.000Z', templates });
+
+  test('version 1 rules get the channel modes and opacity they implied', () => {
+    const rule = { Lmode: 'lighten', k: 0.2, Cmul: 0.5, Cabs: null, hDelta: 10 };
+    const { templates, errors } = engine.parseTemplateLibrary(file(1, [
+      { id: 'a', name: 'Old', colorNames: {}, originalColors: { Base: '#3366cc', Color1: '#99bbff' }, roles: { Color1: rule } }
+    ]));
+
+    assert.deepEqual(errors, []);
+    assert.equal(templates[0].colorSpace, 'srgb');
+    assert.deepEqual(templates[0].contrastPairs, []);
+    assert.deepEqual(templates[0].roles.Color1, { Lchannel: 'additive', Cchannel: 'proportional', Hchannel: 'relative', Amul: 1, ...rule });
+  });
+
+  test('current files keep their fields', () => {
+    const t = template({ Base: '#3366cc', Color1: '#99bbff80' }, { colorSpace: 'display-p3' });
+    const { templates } = engine.parseTemplateLibrary(file(engine.TEMPLATE_LIBRARY_VERSION, [t]));
+    assert.deepEqual(templates[0], t);
+  });
+});
+
+describe('naturalSort', () => {
+  test('orders numbers by value', () => {
+    assert.deepEqual(['Rectangle 11', 'Rectangle 2', 'Color10', 'Color1'].sort(engine.naturalSort), ['Color1', 'Color10', 'Rectangle 2', 'Rectangle 11']);
+  });
+});